@@ -0,0 +1,37 @@
+/**
+ * Background service worker
+ * Keeps widget caches warm with a periodic alarm, see prefetch.ts.
+ * Built separately from the new tab page (vite.background.config.ts).
+ */
+
+import { PREFETCH_PERIOD_MINUTES, prefetchFrameCaches } from '@/lib/prefetch';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Prefetch');
+
+const PREFETCH_ALARM = 'prefetch-widget-caches';
+
+let running: Promise<void> | null = null;
+
+function runPrefetch(): void {
+  // An alarm firing while the previous run is still going is skipped
+  if (running) return;
+  running = prefetchFrameCaches()
+    .catch((e) => logger.error('Prefetch run failed:', e))
+    .finally(() => {
+      running = null;
+    });
+}
+
+function schedulePrefetch(): void {
+  chrome.alarms.create(PREFETCH_ALARM, { delayInMinutes: 0, periodInMinutes: PREFETCH_PERIOD_MINUTES });
+}
+
+// Listeners must be registered synchronously for the worker to be woken up by them
+chrome.runtime.onInstalled.addListener(schedulePrefetch);
+chrome.runtime.onStartup.addListener(schedulePrefetch);
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === PREFETCH_ALARM) {
+    runPrefetch();
+  }
+});
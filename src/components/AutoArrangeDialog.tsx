@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import {
+  BREAKPOINT_LABELS,
+  getBreakpointLayout,
+  packLayout,
+  setBreakpointLayout,
+  type Breakpoint,
+  type GridRect,
+} from '@/lib/layout';
+import type { FrameData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+
+interface AutoArrangeDialogProps {
+  frames: FrameData[];
+  /** Breakpoint being arranged, the wide layout or one adjusted for a narrower screen */
+  breakpoint: Breakpoint;
+  /** Columns of the wide grid of the space */
+  gridCols: number;
+  /** Columns of the breakpoint */
+  cols: number;
+  onApply: (frames: FrameData[]) => void;
+  onCancel: () => void;
+}
+
+// Height of a grid row in the preview, in px
+const PREVIEW_ROW_HEIGHT = 12;
+
+function getRowCount(layout: Record<string, GridRect>): number {
+  return Math.max(0, ...Object.values(layout).map((rect) => rect.y + rect.h));
+}
+
+/**
+ * Preview of the widgets of a space packed without gaps, applied as a single undoable edit
+ */
+export function AutoArrangeDialog({ frames, breakpoint, gridCols, cols, onApply, onCancel }: AutoArrangeDialogProps) {
+  const [keepOrder, setKeepOrder] = useState(false);
+  const [useDefaultSizes, setUseDefaultSizes] = useState(false);
+
+  const currentLayout = getBreakpointLayout(frames, breakpoint, gridCols);
+  const arrangedLayout = packLayout(
+    frames.map((frame) => {
+      const minSize = pluginRegistry.getMinSize(frame.pluginId);
+      const size = useDefaultSizes ? pluginRegistry.getDefaultSize(frame.pluginId) : currentLayout[frame.id];
+      return {
+        ...currentLayout[frame.id],
+        w: size.w,
+        h: size.h,
+        id: frame.id,
+        minW: Math.min(minSize.w, cols),
+        minH: minSize.h,
+      };
+    }),
+    cols,
+    keepOrder
+  );
+  const currentRows = getRowCount(currentLayout);
+  const arrangedRows = getRowCount(arrangedLayout);
+
+  const handleApply = () => {
+    onApply(
+      breakpoint === 'lg'
+        ? frames.map((frame) => ({ ...frame, ...arrangedLayout[frame.id] }))
+        : setBreakpointLayout(frames, breakpoint, arrangedLayout)
+    );
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg shadow-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Auto-arrange widgets</h2>
+          <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" type="button">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {BREAKPOINT_LABELS[breakpoint]} layout, {cols} columns · {arrangedRows} rows instead of {currentRows}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto rounded-md border border-border bg-muted/30 p-1">
+            <div className="relative" style={{ height: arrangedRows * PREVIEW_ROW_HEIGHT }}>
+              {frames.map((frame) => {
+                const rect = arrangedLayout[frame.id];
+                const name = frame.name || pluginRegistry.getPlugin(frame.pluginId)?.metadata.name || frame.pluginId;
+                return (
+                  <div
+                    key={frame.id}
+                    className="absolute p-0.5"
+                    style={{
+                      left: `${(rect.x / cols) * 100}%`,
+                      width: `${(rect.w / cols) * 100}%`,
+                      top: rect.y * PREVIEW_ROW_HEIGHT,
+                      height: rect.h * PREVIEW_ROW_HEIGHT,
+                    }}
+                  >
+                    <div
+                      className="h-full rounded-sm border border-primary/40 bg-primary/10 px-1 text-[10px] leading-tight truncate"
+                      title={name}
+                    >
+                      {name}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={keepOrder} onChange={(e) => setKeepOrder(e.target.checked)} />
+            Keep current order
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={useDefaultSizes}
+              onChange={(e) => setUseDefaultSizes(e.target.checked)}
+            />
+            Reset widgets to their default size
+          </label>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
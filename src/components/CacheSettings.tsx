@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import {
+  CACHE_QUOTA_BYTES,
+  clearAllPluginCaches,
+  clearCache,
+  collectOrphanCaches,
+  getCacheUsageReport,
+  type CacheUsageReport,
+} from '@/lib/cache';
+import { formatBytes, formatTimeAgo } from '@/lib/format';
+import type { SpaceData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Cache');
+
+interface CacheSettingsProps {
+  spaces: SpaceData[];
+}
+
+export function CacheSettings({ spaces }: CacheSettingsProps) {
+  const [report, setReport] = useState<CacheUsageReport | null>(null);
+  const frames = spaces.flatMap((space) => space.frames.map((frame) => ({ frame, spaceName: space.name })));
+  const frameIdsKey = frames.map(({ frame }) => frame.id).join(',');
+
+  const refreshReport = () =>
+    getCacheUsageReport(frames.map(({ frame }) => frame.id))
+      .then(setReport)
+      .catch((error) => logger.error('Failed to load cache usage:', error));
+
+  useEffect(() => {
+    refreshReport();
+  }, [frameIdsKey]);
+
+  const handleClear = async (frameId: string) => {
+    await clearCache(frameId);
+    await refreshReport();
+  };
+
+  const handleCleanUp = async () => {
+    await collectOrphanCaches(frames.map(({ frame }) => frame.id));
+    await refreshReport();
+  };
+
+  const handleClearAll = async () => {
+    if (!confirm('Clear the cache of every widget? Widgets will reload their data.')) {
+      return;
+    }
+    await clearAllPluginCaches();
+    await refreshReport();
+  };
+
+  const cachedFrames = report
+    ? frames
+        .filter(({ frame }) => report.frames[frame.id])
+        .sort((a, b) => report.frames[b.frame.id].size - report.frames[a.frame.id].size)
+    : [];
+  const usedPercent = report ? Math.min(100, (report.totalSize / CACHE_QUOTA_BYTES) * 100) : 0;
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Widget Caches
+      </div>
+      {report === null ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="px-3 pb-2">
+            <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-primary" style={{ width: `${usedPercent}%` }} />
+            </div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              {formatBytes(report.totalSize)} of {formatBytes(CACHE_QUOTA_BYTES)} used
+            </div>
+          </div>
+          {cachedFrames.length === 0 && report.orphaned.size === 0 && (
+            <p className="px-3 py-2 text-xs text-muted-foreground">Nothing cached yet</p>
+          )}
+          <div className="max-h-60 overflow-y-auto">
+            {cachedFrames.map(({ frame, spaceName }) => {
+              const usage = report.frames[frame.id];
+              const widgetName = frame.name || pluginRegistry.getPluginMetadata(frame.pluginId)?.name || frame.pluginId;
+              return (
+                <div key={frame.id} className="px-3 py-2 hover:bg-accent group flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{widgetName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {spaceName} · {formatBytes(usage.size)} · used {formatTimeAgo(usage.lastAccessed)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleClear(frame.id)}
+                    className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
+                    title="Clear cache"
+                    type="button"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          {report.orphaned.size > 0 && (
+            <div className="px-3 py-2 flex items-center justify-between gap-2">
+              <div className="text-xs text-muted-foreground">
+                Deleted widgets · {formatBytes(report.orphaned.size)}
+              </div>
+              <button
+                onClick={handleCleanUp}
+                className="text-xs text-primary hover:underline"
+                type="button"
+              >
+                Clean up
+              </button>
+            </div>
+          )}
+          {report.totalSize > 0 && (
+            <button
+              onClick={handleClearAll}
+              className="w-full px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left text-destructive"
+              type="button"
+            >
+              Clear all caches
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import {
+  listConnections,
+  resolveConnectionValues,
+  subscribeToConnections,
+  type Connection,
+} from '@/lib/connections';
+import { testConnection } from '@/lib/plugin-credentials';
+import { getConfigOrigins, requestHostPermissions } from '@/lib/host-permissions';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import type { PluginConfig } from '@/types/plugin';
+
+interface ConnectionPickerProps {
+  pluginId: string;
+  value?: string;
+  onChange: (connectionId: string | undefined, values: PluginConfig | null) => void;
+}
+
+type TestResult = { ok: true } | { ok: false; message: string };
+
+/**
+ * Connection select for plugin config modals
+ * When a connection is selected, the modal hides its own server fields.
+ * @param pluginId - Plugin whose connections are listed
+ * @param value - Selected connection id, undefined for custom settings
+ * @param onChange - Callback when the selection changes, with the connection values
+ *   (secrets included, null for custom settings or while the vault is locked)
+ */
+export function ConnectionPicker({ pluginId, value, onChange }: ConnectionPickerProps) {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  useEffect(() => {
+    const refresh = async () => setConnections(await listConnections(pluginId));
+    refresh();
+    return subscribeToConnections(refresh);
+  }, [pluginId]);
+
+  const selected = connections.find((connection) => connection.id === value);
+
+  const handleChange = async (connectionId: string | undefined) => {
+    setTestResult(null);
+    const connection = connections.find((c) => c.id === connectionId);
+    onChange(connectionId, connection ? await resolveConnectionValues(connection) : null);
+  };
+
+  const handleTest = async () => {
+    if (!selected) return;
+
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await requestHostPermissions(getConfigOrigins(pluginRegistry.getPlugin(pluginId)?.hostFields, selected.values));
+      const values = await resolveConnectionValues(selected);
+      if (!values) {
+        throw new Error('Unlock the credential vault to test this connection.');
+      }
+      await testConnection(pluginId, values);
+      setTestResult({ ok: true });
+    } catch (error) {
+      setTestResult({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor="connectionId" className="text-sm font-medium mb-2 block">
+        Connection
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="connectionId"
+          value={value || ''}
+          onChange={(e) => handleChange(e.target.value || undefined)}
+          className="flex-1 min-w-0 px-3 py-2 border border-input rounded-md bg-background"
+        >
+          <option value="">Custom settings</option>
+          {connections.map((connection) => (
+            <option key={connection.id} value={connection.id}>
+              {connection.name}
+            </option>
+          ))}
+          {value && !selected && <option value={value}>Missing connection</option>}
+        </select>
+        {selected && (
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={isTesting}
+            className="flex items-center gap-1 px-3 py-2 text-sm border border-input rounded-md hover:bg-accent disabled:opacity-50 transition-colors"
+          >
+            {isTesting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Test
+          </button>
+        )}
+      </div>
+      {testResult && (
+        <p className={`flex items-center gap-1 text-xs mt-1 ${testResult.ok ? 'text-green-600' : 'text-destructive'}`}>
+          {testResult.ok ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+          {testResult.ok ? 'Connection works' : testResult.message}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground mt-1">
+        {value
+          ? 'Server settings come from this connection.'
+          : 'Shared connections are managed in Settings → Connections.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2, Pencil, Plus, Trash2, XCircle } from 'lucide-react';
+import {
+  countConnectionUsages,
+  deleteConnection,
+  listConnections,
+  resolveConnectionValues,
+  subscribeToConnections,
+  type Connection,
+} from '@/lib/connections';
+import { saveConnection, testConnection } from '@/lib/plugin-credentials';
+import { getVaultStatus, subscribeToVault } from '@/lib/vault';
+import { getConfigOrigins, requestHostPermissions } from '@/lib/host-permissions';
+import type { SpaceData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { createLogger } from '@/lib/logger';
+import { VaultUnlockForm } from './VaultUnlockForm';
+
+const logger = createLogger('Connections');
+
+interface ConnectionSettingsProps {
+  spaces: SpaceData[];
+}
+
+interface ConnectionDraft {
+  id?: string;
+  pluginId: string;
+  name: string;
+  values: Record<string, string>;
+}
+
+type TestResult = { ok: true } | { ok: false; message: string };
+
+const inputClassName = 'w-full px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function ConnectionSettings({ spaces }: ConnectionSettingsProps) {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isLocked, setIsLocked] = useState(false);
+  const [draft, setDraft] = useState<ConnectionDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const plugins = pluginRegistry.getAllPlugins().filter((plugin) => plugin.connection);
+
+  useEffect(() => {
+    const refresh = async () => setConnections(await listConnections());
+    refresh();
+    return subscribeToConnections(refresh);
+  }, []);
+
+  useEffect(() => {
+    const refresh = async () => setIsLocked((await getVaultStatus()).isLocked);
+    refresh();
+    return subscribeToVault(refresh);
+  }, []);
+
+  const draftPlugin = draft ? pluginRegistry.getPlugin(draft.pluginId) : undefined;
+  const draftSecretFields = draft ? pluginRegistry.getSecretFields(draft.pluginId) : [];
+
+  const startEditing = (connection?: Connection) => {
+    setTestResult(null);
+    setDraft(connection
+      ? { id: connection.id, pluginId: connection.pluginId, name: connection.name, values: { ...connection.values } }
+      : { pluginId: plugins[0]?.metadata.id || '', name: '', values: {} });
+  };
+
+  const updateValue = (key: string, value: string) => {
+    setTestResult(null);
+    setDraft((prev) => (prev ? { ...prev, values: { ...prev.values, [key]: value } } : prev));
+  };
+
+  const handleTest = async () => {
+    if (!draft) return;
+
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      await requestHostPermissions(getConfigOrigins(draftPlugin?.hostFields, draft.values));
+      // Blank secret fields keep the saved value, so test with it
+      const existing = connections.find((c) => c.id === draft.id);
+      const saved = existing ? await resolveConnectionValues(existing) : {};
+      if (!saved) {
+        throw new Error('Unlock the credential vault to test this connection.');
+      }
+      const values = { ...draft.values };
+      draftSecretFields.forEach((field) => {
+        if (!values[field] && saved[field]) values[field] = String(saved[field]);
+      });
+      await testConnection(draft.pluginId, values);
+      setTestResult({ ok: true });
+    } catch (error) {
+      setTestResult({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      // Frames using the connection ask again if access is denied here
+      await requestHostPermissions(getConfigOrigins(draftPlugin?.hostFields, draft.values));
+      await saveConnection({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+    } catch (error) {
+      logger.error('Failed to save connection:', error);
+      alert(isLocked ? 'Unlock the credential vault to save this connection' : 'Failed to save connection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (connection: Connection) => {
+    const usages = countConnectionUsages(spaces, connection.id);
+    const message = usages > 0
+      ? `"${connection.name}" is used by ${usages} widget(s), which will need new server settings. Delete it?`
+      : `Delete "${connection.name}"?`;
+    if (!confirm(message)) {
+      return;
+    }
+    try {
+      await deleteConnection(connection.id);
+    } catch (error) {
+      logger.error('Failed to delete connection:', error);
+      alert('Failed to delete connection');
+    }
+  };
+
+  if (draft) {
+    return (
+      <form onSubmit={handleSave} className="px-3 py-2 space-y-2">
+        <div className="text-xs font-semibold text-muted-foreground uppercase">
+          {draft.id ? 'Edit Connection' : 'New Connection'}
+        </div>
+        {!draft.id && (
+          <select
+            value={draft.pluginId}
+            onChange={(e) => setDraft({ ...draft, pluginId: e.target.value, values: {} })}
+            className={inputClassName}
+          >
+            {plugins.map((plugin) => (
+              <option key={plugin.metadata.id} value={plugin.metadata.id}>
+                {plugin.metadata.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name, e.g. Work YouTrack"
+          className={inputClassName}
+          autoFocus
+        />
+        {draftPlugin?.connection?.fields.map((field) => {
+          const isSecret = draftSecretFields.includes(field.key);
+          return (
+            <div key={field.key}>
+              <label className="text-xs text-muted-foreground">{field.label}</label>
+              <input
+                type={isSecret ? 'password' : 'text'}
+                value={draft.values[field.key] || ''}
+                onChange={(e) => updateValue(field.key, e.target.value)}
+                placeholder={isSecret && draft.id ? 'Unchanged' : field.placeholder}
+                className={inputClassName}
+                autoComplete={isSecret ? 'new-password' : 'off'}
+              />
+            </div>
+          );
+        })}
+        {isLocked && draftSecretFields.length > 0 && (
+          <>
+            <p className="text-xs text-muted-foreground">Unlock the credential vault to save tokens.</p>
+            <VaultUnlockForm compact />
+          </>
+        )}
+        {testResult && (
+          <p className={`flex items-center gap-1 text-xs ${testResult.ok ? 'text-green-600' : 'text-destructive'}`}>
+            {testResult.ok ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+            {testResult.ok ? 'Connection works' : testResult.message}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={!draft.name.trim() || isSaving}
+            className="flex-1 px-3 py-1 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Save
+          </button>
+          {draftPlugin?.connection?.test && (
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={isTesting}
+              className="flex items-center gap-1 px-3 py-1 text-sm rounded border border-input hover:bg-accent disabled:opacity-50 transition-colors"
+            >
+              {isTesting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Test
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="px-3 py-1 text-sm rounded border border-input hover:bg-accent transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Connections
+      </div>
+      {connections.length === 0 && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          No connections yet. A connection stores server settings shared by several widgets.
+        </p>
+      )}
+      <div className="max-h-48 overflow-y-auto">
+        {connections.map((connection) => {
+          const usages = countConnectionUsages(spaces, connection.id);
+          return (
+            <div key={connection.id} className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-accent group">
+              <div className="min-w-0">
+                <div className="text-sm truncate">{connection.name}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {pluginRegistry.getPluginMetadata(connection.pluginId)?.name || connection.pluginId} ·{' '}
+                  {usages > 0 ? `${usages} widget(s)` : 'unused'}
+                </div>
+              </div>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100 flex-shrink-0">
+                <button
+                  onClick={() => startEditing(connection)}
+                  className="p-1 rounded hover:bg-primary/20 transition-colors"
+                  title="Edit connection"
+                  type="button"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(connection)}
+                  className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors"
+                  title="Delete connection"
+                  type="button"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {plugins.length > 0 && (
+        <button
+          onClick={() => startEditing()}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+          type="button"
+        >
+          <Plus className="w-4 h-4" />
+          New Connection
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, WifiOff } from 'lucide-react';
+import { isOnline, subscribeToConnectivity } from '@/lib/connectivity';
+import { getQueuedWrites, replayQueuedWrites, subscribeToWriteQueue } from '@/lib/offline-queue';
+
+/**
+ * Whether the dashboard is online, see connectivity.ts
+ */
+export function useIsOnline(): boolean {
+  const [online, setOnline] = useState(isOnline);
+
+  useEffect(() => {
+    setOnline(isOnline());
+    return subscribeToConnectivity(setOnline);
+  }, []);
+
+  return online;
+}
+
+/**
+ * Banner shown while offline, or while changes made offline wait to be sent
+ */
+export function ConnectivityBanner() {
+  const online = useIsOnline();
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    getQueuedWrites().then((writes) => setQueuedCount(writes.length));
+    return subscribeToWriteQueue((writes) => setQueuedCount(writes.length));
+  }, []);
+
+  if (online && queuedCount === 0) {
+    return null;
+  }
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    await replayQueuedWrites();
+    setIsRetrying(false);
+  };
+
+  const changes = `${queuedCount} change${queuedCount > 1 ? 's' : ''}`;
+
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 py-1.5 text-xs bg-amber-500/15 text-amber-700 dark:text-amber-300 border-b border-amber-500/30">
+      {online ? (
+        <>
+          <span>{changes} made offline waiting to be sent</span>
+          <button
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="flex items-center gap-1 font-medium hover:underline disabled:opacity-50"
+            type="button"
+          >
+            <RefreshCw className={`w-3 h-3 ${isRetrying ? 'animate-spin' : ''}`} />
+            Retry
+          </button>
+        </>
+      ) : (
+        <>
+          <WifiOff className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>
+            You are offline. Widgets show their last loaded data
+            {queuedCount > 0 && `, and ${changes} will be sent once back online`}.
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, Trash2 } from 'lucide-react';
+import {
+  deleteCredential,
+  getCredentialRefs,
+  getVaultStatus,
+  listCredentials,
+  lockVault,
+  setVaultPassphrase,
+  subscribeToVault,
+  type CredentialInfo,
+  type VaultStatus,
+} from '@/lib/vault';
+import type { SpaceData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { createLogger } from '@/lib/logger';
+import { VaultUnlockForm } from './VaultUnlockForm';
+
+const logger = createLogger('Vault');
+
+interface CredentialVaultSettingsProps {
+  spaces: SpaceData[];
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+function countUsages(spaces: SpaceData[], credentialId: string): number {
+  return spaces.reduce((total, space) => total + space.frames.filter((frame) =>
+    Object.values(getCredentialRefs(frame.config)).includes(credentialId)
+  ).length, 0);
+}
+
+export function CredentialVaultSettings({ spaces }: CredentialVaultSettingsProps) {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [credentials, setCredentials] = useState<CredentialInfo[]>([]);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const refresh = async () => {
+      setStatus(await getVaultStatus());
+      setCredentials((await listCredentials()) || []);
+    };
+    refresh();
+    return subscribeToVault(refresh);
+  }, []);
+
+  const passphraseError = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmation
+      ? 'Passphrases do not match'
+      : null;
+
+  const handleSetPassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphraseError) return;
+
+    setIsSaving(true);
+    try {
+      await setVaultPassphrase(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      logger.error('Failed to set vault passphrase:', error);
+      alert('Failed to set the passphrase');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemovePassphrase = async () => {
+    if (!confirm('Remove the passphrase? Credentials will no longer need to be unlocked.')) {
+      return;
+    }
+    try {
+      await setVaultPassphrase(null);
+    } catch (error) {
+      logger.error('Failed to remove vault passphrase:', error);
+      alert('Failed to remove the passphrase');
+    }
+  };
+
+  const handleDelete = async (credential: CredentialInfo) => {
+    const usages = countUsages(spaces, credential.id);
+    const message = usages > 0
+      ? `"${credential.label}" is used by ${usages} widget(s), which will need new credentials. Delete it?`
+      : `Delete "${credential.label}"?`;
+    if (!confirm(message)) {
+      return;
+    }
+    try {
+      await deleteCredential(credential.id);
+    } catch (error) {
+      logger.error('Failed to delete credential:', error);
+      alert('Failed to delete credential');
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Credentials
+      </div>
+
+      {status.isLocked ? (
+        <VaultUnlockForm />
+      ) : (
+        <>
+          {credentials.length === 0 && (
+            <p className="px-3 py-2 text-xs text-muted-foreground">
+              No credentials yet. Tokens entered in widget settings are stored here.
+            </p>
+          )}
+          <div className="max-h-48 overflow-y-auto">
+            {credentials.map((credential) => {
+              const usages = countUsages(spaces, credential.id);
+              return (
+                <div key={credential.id} className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-accent group">
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{credential.label}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {pluginRegistry.getPluginMetadata(credential.pluginId)?.name || credential.pluginId} · {credential.field} ·{' '}
+                      {usages > 0 ? `${usages} widget(s)` : 'unused'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(credential)}
+                    className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
+                    title="Delete credential"
+                    type="button"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="border-t border-border my-1"></div>
+          <form onSubmit={handleSetPassphrase} className="px-3 py-2 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {status.hasPassphrase
+                ? 'Protected by a passphrase, asked once per browser session.'
+                : 'Set a passphrase to keep credentials locked until you unlock them.'}
+            </p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={status.hasPassphrase ? 'New passphrase' : 'Passphrase'}
+              className="w-full px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
+              autoComplete="new-password"
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder="Confirm passphrase"
+              className="w-full px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
+              autoComplete="new-password"
+            />
+            {passphrase && passphraseError && <p className="text-xs text-destructive">{passphraseError}</p>}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={!!passphraseError || isSaving}
+                className="flex-1 px-3 py-1 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {status.hasPassphrase ? 'Change' : 'Set passphrase'}
+              </button>
+              {status.hasPassphrase && (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleRemovePassphrase}
+                    className="px-3 py-1 text-sm rounded border border-input hover:bg-accent transition-colors"
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => lockVault()}
+                    className="p-1.5 rounded border border-input hover:bg-accent transition-colors"
+                    title="Lock now"
+                  >
+                    <Lock className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,57 @@
-import { DashboardData, FrameData, SpaceData, deleteSpace, saveSpaceFrames, setActiveSpace, loadTheme, saveTheme } from '@/lib/storage';
-import { Layout, WidthProvider } from 'react-grid-layout';
+import { DashboardData, FrameData, SpaceData, loadDashboardData, saveDashboardData, saveSpaces, setActiveSpace, loadTheme, saveTheme, subscribeToDashboardData } from '@/lib/storage';
+import { Layout, Responsive, WidthProvider } from 'react-grid-layout';
+import { CURRENT_SCHEMA_VERSION, getCurrentPluginVersion, migrateDashboardData } from '@/lib/migrations';
 import { useEffect, useRef, useState } from 'react';
-
+import { Lock } from 'lucide-react';
+import { mergeSpaces } from '@/lib/dashboard-merge';
+import { CommandHistory, getTouchedSpaceIds, type HistoryEntry } from '@/lib/history';
+import { VaultLockedError, getVaultStatus, resolveSpacesCredentials, subscribeToVault } from '@/lib/vault';
+import { resolveSpacesConnections } from '@/lib/connections';
+import { detachConnectionFields, storeConfigSecrets, storeSpacesSecrets } from '@/lib/plugin-credentials';
+import {
+  BREAKPOINTS,
+  BREAKPOINT_LABELS,
+  collidesWithFrames,
+  doRectsOverlap,
+  findAvailablePosition,
+  getBreakpointCols,
+  getBreakpointLayout,
+  getSpaceLayout,
+  isBreakpointTuned,
+  rescaleFrames,
+  resetBreakpointLayout,
+  setBreakpointLayout,
+  type Breakpoint,
+  type SpaceLayoutSettings,
+} from '@/lib/layout';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { ImportMode, ImportSelection, ParsedImport, SecretExportMode, applyImport, buildDashboardExport, countSecrets, parseDashboardImport } from '@/lib/import-export';
+import { clearCache, collectOrphanCaches, copyCache } from '@/lib/cache';
+import { replayQueuedWrites } from '@/lib/offline-queue';
+import { Snapshot, createPeriodicSnapshotIfDue, createSnapshot, restoreSnapshot, PERIODIC_SNAPSHOT_INTERVAL_MS } from '@/lib/snapshots';
+import { createLogger } from '@/lib/logger';
+import { subscribeToDataBackend } from '@/lib/storage-backends';
+import { getLockStatus, isSpaceLocked, subscribeToLock, unlockSpace, type LockStatus } from '@/lib/lock';
+
+import { AutoArrangeDialog } from './AutoArrangeDialog';
+import { ConnectivityBanner } from './ConnectivityBanner';
 import { DeleteSpaceModal } from './DeleteSpaceModal';
 import { EmptyDashboard } from './EmptyDashboard';
+import { ExportDialog } from './ExportDialog';
 import { Frame } from './Frame';
-import GridLayout from 'react-grid-layout';
+import type { SpaceTransferMode } from './FrameSpaceMenu';
+import { ImportWizard } from './ImportWizard';
 import { PluginSelector } from './PluginSelector';
 import { SettingsMenu } from './SettingsMenu';
+import { SpaceLayoutDialog } from './SpaceLayoutDialog';
 import { SpaceTabs } from './SpaceTabs';
+import { UndoToast } from './UndoToast';
+import { UnlockDialog } from './UnlockDialog';
 import { WelcomeModal } from './WelcomeModal';
 
-const FixedGridLayout = WidthProvider(GridLayout);
+const logger = createLogger('Dashboard');
+
+const ResponsiveGridLayout = WidthProvider(Responsive);
 
 interface DashboardContentProps {
   initialData: DashboardData;
@@ -26,28 +66,228 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
   const [showWelcomeModal, setShowWelcomeModal] = useState(false);
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [spaceToDelete, setSpaceToDelete] = useState<SpaceData | null>(null);
+  const [spaceToLayOut, setSpaceToLayOut] = useState<SpaceData | null>(null);
+  const [showAutoArrange, setShowAutoArrange] = useState(false);
+  // onExpire runs when the toast closes without undoing, e.g. to free the caches of deleted widgets
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string; onExpire?: () => void } | null>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedImport | null>(null);
+  // Number of credentials to protect, the export dialog is shown while set
+  const [exportSecretCount, setExportSecretCount] = useState<number | null>(null);
   const lastAddedFrameId = useRef<string | null>(null);
+  // Breakpoint of the dashboard width, also kept in a ref: react-grid-layout reports the
+  // layout of a new breakpoint right after announcing it, before the state is updated
+  const [breakpoint, setBreakpoint] = useState<Breakpoint>('lg');
+  const breakpointRef = useRef<Breakpoint>('lg');
+  const historyRef = useRef(new CommandHistory());
+  // Unlocked until loaded, see lock.ts
+  const [lockStatus, setLockStatus] = useState<LockStatus | null>(null);
+  const [showUnlockDialog, setShowUnlockDialog] = useState(false);
+  // Space tab under the widget being dragged
+  const [dropTargetSpaceId, setDropTargetSpaceId] = useState<string | null>(null);
+  // Set when a widget is dropped on a tab: the layout change reported right after is stale
+  const droppedOnTabRef = useRef(false);
   
   const activeSpace = spaces.find((s) => s.id === activeSpaceId) || spaces[0];
   const frames = activeSpace?.frames || [];
+  const spaceLayout = getSpaceLayout(activeSpace);
+  const breakpointCols = getBreakpointCols(spaceLayout.cols);
+  const isLocked = !!lockStatus && !!activeSpace && isSpaceLocked(lockStatus, activeSpace.id);
+  // Spaces widgets can be moved or duplicated to
+  const unlockedSpaces = spaces.filter((space) => !lockStatus || !isSpaceLocked(lockStatus, space.id));
+
+  // Spaces as last read from or written to storage, used as merge base for cross-tab edits
+  const syncedSpacesRef = useRef<SpaceData[]>(initialData.spaces);
+
+  // Persist new spaces, merging back edits saved meanwhile by another tab
+  const commitSpaces = (nextSpaces: SpaceData[]) => {
+    const baseSpaces = syncedSpacesRef.current;
+    setSpaces(nextSpaces);
+    saveSpaces(nextSpaces, baseSpaces)
+      .then((savedSpaces) => {
+        syncedSpacesRef.current = savedSpaces;
+        setSpaces((prevSpaces) => mergeSpaces(nextSpaces, prevSpaces, savedSpaces));
+      })
+      .catch((error) => {
+        logger.error('Failed to save spaces:', error);
+        // Revert the edit onto the current state, keeping edits made meanwhile
+        setSpaces((prevSpaces) => mergeSpaces(nextSpaces, prevSpaces, syncedSpacesRef.current));
+        alert('Failed to save your changes, they were undone.');
+      });
+  };
+
+  // Apply an edit and record it in the undo history
+  const recordEdit = (label: string, nextSpaces: SpaceData[]) => {
+    historyRef.current.push({ label, before: spaces, after: nextSpaces });
+    commitSpaces(nextSpaces);
+  };
 
   // Helper function to update frames of the active space
-  const updateActiveSpaceFrames = (newFrames: FrameData[]) => {
-    setSpaces((prevSpaces) => {
-      return prevSpaces.map((space) => {
-        if (space.id === activeSpaceId) {
-          return { ...space, frames: newFrames };
-        }
-        return space;
-      });
-    });
-    saveSpaceFrames(activeSpaceId, newFrames);
+  const updateActiveSpaceFrames = (newFrames: FrameData[], label: string) => {
+    // react-grid-layout reports unchanged layouts on every render
+    if (JSON.stringify(newFrames) === JSON.stringify(frames)) return;
+
+    recordEdit(
+      label,
+      spaces.map((space) => (space.id === activeSpaceId ? { ...space, frames: newFrames } : space))
+    );
+  };
+
+  // An edit can't be undone or redone while a space it changed is locked
+  const isEntryLocked = (entry: HistoryEntry) =>
+    !!lockStatus && getTouchedSpaceIds(entry).some((spaceId) => isSpaceLocked(lockStatus, spaceId));
+
+  const handleUndo = () => {
+    const entry = historyRef.current.peekUndo();
+    if (!entry || isEntryLocked(entry)) return;
+    historyRef.current.undo();
+    commitSpaces(mergeSpaces(entry.after, spaces, entry.before));
+    setUndoToast(null);
+  };
+
+  const handleRedo = () => {
+    const entry = historyRef.current.peekRedo();
+    if (!entry || isEntryLocked(entry)) return;
+    historyRef.current.redo();
+    commitSpaces(mergeSpaces(entry.before, spaces, entry.after));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+  const undoRedoRef = useRef({ undo: handleUndo, redo: handleRedo });
+  undoRedoRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        undoRedoRef.current.redo();
+      } else {
+        undoRedoRef.current.undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const refresh = () =>
+      getLockStatus()
+        .then(setLockStatus)
+        .catch((error) => logger.error('Failed to load lock status:', error));
+    refresh();
+    return subscribeToLock(refresh);
+  }, []);
+
+  // Unlocks the active space and the whole dashboard, asking the PIN when one is set
+  const handleUnlockRequest = () => {
+    if (lockStatus?.hasPin) {
+      setShowUnlockDialog(true);
+      return;
+    }
+    unlockSpace(activeSpaceId).catch((error) => logger.error('Failed to unlock:', error));
   };
 
-  // Debug: log initial data
-  console.log('DashboardContent - initialData:', initialData);
-  console.log('DashboardContent - activeSpaceId:', activeSpaceId);
-  console.log('DashboardContent - frames:', frames);
+  const handleUnlock = async (pin: string) => {
+    await unlockSpace(activeSpaceId, pin);
+    setShowUnlockDialog(false);
+  };
+
+  // Replace the local state with spaces freshly read from storage
+  const applyStoredSpaces = (storedSpaces: SpaceData[]) => {
+    syncedSpacesRef.current = storedSpaces;
+    setSpaces(storedSpaces);
+  };
+
+  // The stored data couldn't be read and the default dashboard is shown, see loadDashboardData
+  useEffect(() => {
+    if (initialData.isFallback) {
+      alert('The saved dashboard could not be read, a default one is shown instead. Reload the page to try again: changes are only saved once it can be read.');
+    }
+  }, [initialData.isFallback]);
+
+  // Merge edits saved by other tabs
+  useEffect(() => {
+    return subscribeToDashboardData((remoteData) => {
+      const baseSpaces = syncedSpacesRef.current;
+      syncedSpacesRef.current = remoteData.spaces;
+      setSpaces((localSpaces) => mergeSpaces(baseSpaces, localSpaces, remoteData.spaces));
+    });
+  }, []);
+
+  // Another tab switched the storage backend, the data shown here belongs to the previous one
+  useEffect(() => {
+    return subscribeToDataBackend(() => window.location.reload());
+  }, []);
+
+  // Move plaintext secrets to the vault, e.g. from data saved before the vault existed.
+  // Runs at startup and whenever the vault is unlocked.
+  const spacesRef = useRef(spaces);
+  spacesRef.current = spaces;
+
+  useEffect(() => {
+    const moveSecretsToVault = async () => {
+      if ((await getVaultStatus()).isLocked) return;
+      const currentSpaces = spacesRef.current;
+      const storedSpaces = await storeSpacesSecrets(currentSpaces);
+      if (storedSpaces !== currentSpaces && spacesRef.current === currentSpaces) {
+        commitSpaces(storedSpaces);
+      }
+    };
+    // Saving credentials notifies vault listeners, don't start over meanwhile
+    let isRunning = false;
+    const run = () => {
+      if (isRunning) return;
+      isRunning = true;
+      moveSecretsToVault()
+        .catch((error) => logger.error('Failed to move credentials to the vault:', error))
+        .finally(() => {
+          isRunning = false;
+        });
+    };
+    run();
+    return subscribeToVault(run);
+  }, []);
+
+  // Automatic snapshots, checked at startup and then hourly while the tab stays open
+  useEffect(() => {
+    const snapshotIfDue = () => {
+      loadDashboardData()
+        .then(createPeriodicSnapshotIfDue)
+        .catch((error) => logger.error('Failed to create periodic snapshot:', error));
+    };
+    snapshotIfDue();
+    const interval = setInterval(snapshotIfDue, Math.min(PERIODIC_SNAPSHOT_INTERVAL_MS, 60 * 60 * 1000));
+    return () => clearInterval(interval);
+  }, []);
+
+  // Caches of frames deleted from another tab, or before deletions cleared them.
+  // Skipped when the stored data couldn't be read, or has no frames: every cache would look orphaned.
+  useEffect(() => {
+    if (initialData.isFallback) return;
+    const frameIds = spacesRef.current.flatMap((space) => space.frames.map((frame) => frame.id));
+    if (frameIds.length === 0) return;
+    collectOrphanCaches(frameIds)
+      .then((freed) => {
+        if (freed > 0) logger.info(`Removed ${freed} bytes of caches of deleted widgets`);
+      })
+      .catch((error) => logger.error('Failed to remove caches of deleted widgets:', error));
+  }, []);
+
+  // Writes queued offline by a previous session
+  useEffect(() => {
+    replayQueuedWrites();
+  }, []);
+
+  // The active space may have been deleted from another tab
+  useEffect(() => {
+    if (spaces.length > 0 && !spaces.some((s) => s.id === activeSpaceId)) {
+      setActiveSpaceId(spaces[0].id);
+    }
+  }, [spaces, activeSpaceId]);
 
   useEffect(() => {
     if (frames.length === 0) {
@@ -128,7 +368,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
               rect.right < 0 || 
               rect.left > viewportWidth;
 
-            console.log(`[Scroll Debug] Frame ${frameId}:`, {
+            logger.debug(`Position of frame ${frameId}:`, {
               found: true,
               rect: { top: rect.top, bottom: rect.bottom, left: rect.left, right: rect.right, width: rect.width, height: rect.height },
               center: { x: elementCenterX, y: elementCenterY },
@@ -139,7 +379,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
 
             // Scroll if center is outside viewport or element is completely outside
             if (isCenterOutsideViewport || isCompletelyOutside) {
-              console.log(`[Scroll Debug] Scrolling to frame ${frameId}`);
+              logger.debug(`Scrolling to frame ${frameId}`);
               
               // Scroll the element into view, centering it
               targetElement.scrollIntoView({ 
@@ -148,18 +388,18 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
                 inline: 'center'
               });
             } else {
-              console.log(`[Scroll Debug] Frame ${frameId} center is already visible`);
+              logger.debug(`Frame ${frameId} center is already visible`);
             }
             lastAddedFrameId.current = null;
             return true;
           } else {
-            console.log(`[Scroll Debug] Frame ${frameId} found but not rendered yet (dimensions: ${rect.width}x${rect.height})`);
+            logger.debug(`Frame ${frameId} found but not rendered yet (dimensions: ${rect.width}x${rect.height})`);
           }
         } else {
-          console.log(`[Scroll Debug] Frame ${frameId} not found in DOM (retries left: ${retries})`);
+          logger.debug(`Frame ${frameId} not found in DOM (retries left: ${retries})`);
           // Log all grid items for debugging
           const allGridItems = document.querySelectorAll('.react-grid-item');
-          console.log(`[Scroll Debug] Found ${allGridItems.length} grid items in total`);
+          logger.debug(`Found ${allGridItems.length} grid items in total`);
         }
         
         // If element not found or not rendered yet, and we have retries left, try again
@@ -167,7 +407,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
           setTimeout(() => attemptScroll(retries - 1), 100);
         } else {
           // Give up after max retries
-          console.warn(`[Scroll Debug] Could not scroll to frame ${frameId} after multiple attempts`);
+          logger.warn(`Could not scroll to frame ${frameId} after multiple attempts`);
           lastAddedFrameId.current = null;
         }
         return false;
@@ -175,7 +415,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
 
       // Start attempting to scroll after a delay to allow react-grid-layout to render
       setTimeout(() => {
-        console.log(`[Scroll Debug] Starting scroll attempt for frame ${frameId}`);
+        logger.debug(`Starting scroll attempt for frame ${frameId}`);
         attemptScroll();
       }, 300);
     }
@@ -185,7 +425,12 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
     if (spaceId === activeSpaceId) return;
     
     setIsTransitioning(true);
-    await setActiveSpace(spaceId);
+    try {
+      await setActiveSpace(spaceId);
+    } catch (error) {
+      // The space still opens, it just won't be the one restored on the next load
+      logger.error('Failed to save the active space:', error);
+    }
     // Small delay for animation
     setTimeout(() => {
       setActiveSpaceId(spaceId);
@@ -200,60 +445,100 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
     }
   };
 
-  const handleSpaceDeleteConfirm = async () => {
+  // Caches of deleted widgets are kept while their deletion can be undone from the toast.
+  // Widgets restored afterwards refetch their data; caches missed here are collected at startup.
+  const clearDeletedFrameCaches = (frameIds: string[]) => {
+    const remainingIds = new Set(spacesRef.current.flatMap((space) => space.frames.map((frame) => frame.id)));
+    frameIds.filter((frameId) => !remainingIds.has(frameId)).forEach((frameId) => clearCache(frameId));
+  };
+
+  const handleSpaceDeleteConfirm = () => {
     if (!spaceToDelete) return;
-    
-    try {
-      await deleteSpace(spaceToDelete.id);
-      const newData = await import('@/lib/storage').then((m) => m.loadDashboardData());
-      setSpaces(newData.spaces);
-      setActiveSpaceId(newData.activeSpaceId);
-      setSpaceToDelete(null);
-    } catch (error) {
-      console.error('Failed to delete space:', error);
-      if (error instanceof Error) {
-        alert(error.message);
-      }
+
+    if (spaces.length <= 1) {
+      alert('Cannot delete the last space');
       setSpaceToDelete(null);
+      return;
     }
-  };
 
-  // Helper function to check if two rectangles overlap
-  const doRectsOverlap = (
-    x1: number, y1: number, w1: number, h1: number,
-    x2: number, y2: number, w2: number, h2: number
-  ): boolean => {
-    return !(x1 + w1 <= x2 || x2 + w2 <= x1 || y1 + h1 <= y2 || y2 + h2 <= y1);
-  };
-
-  // Helper function to find the first available position for a new widget
-  const findAvailablePosition = (newWidth: number, newHeight: number): { x: number; y: number } => {
-    const cols = 12;
-    const maxY = frames.length > 0 
-      ? Math.max(...frames.map(f => f.y + f.h)) + 1 
-      : 0;
-
-    // Try positions from top to bottom, left to right
-    for (let y = 0; y <= maxY; y++) {
-      for (let x = 0; x <= cols - newWidth; x++) {
-        const hasCollision = frames.some((frame) => {
-          return doRectsOverlap(
-            x, y, newWidth, newHeight,
-            frame.x, frame.y, frame.w, frame.h
-          );
-        });
+    recordEdit(`Delete space "${spaceToDelete.name}"`, spaces.filter((s) => s.id !== spaceToDelete.id));
+    const frameIds = spaceToDelete.frames.map((frame) => frame.id);
+    setUndoToast({
+      id: Date.now(),
+      message: `Space "${spaceToDelete.name}" deleted`,
+      onExpire: () => clearDeletedFrameCaches(frameIds),
+    });
+    setSpaceToDelete(null);
+  };
 
-        if (!hasCollision) {
-          return { x, y };
-        }
-      }
+  const handleSpaceLayoutRequest = (spaceId: string) => {
+    const space = spaces.find((s) => s.id === spaceId);
+    if (space) {
+      setSpaceToLayOut(space);
     }
+  };
+
+  // Widgets are rescaled when the number of columns changes
+  const handleSpaceLayoutSave = (settings: SpaceLayoutSettings) => {
+    if (!spaceToLayOut) return;
+
+    const currentCols = getSpaceLayout(spaceToLayOut).cols;
+    recordEdit(
+      `Edit layout of space "${spaceToLayOut.name}"`,
+      spaces.map((space) =>
+        space.id === spaceToLayOut.id
+          ? { ...space, layout: settings, frames: rescaleFrames(space.frames, currentCols, settings.cols) }
+          : space
+      )
+    );
+    setSpaceToLayOut(null);
+  };
+
+  // Arranges the layout of the current breakpoint, the wide one moves the widgets themselves
+  const handleAutoArrange = (arrangedFrames: FrameData[]) => {
+    updateActiveSpaceFrames(arrangedFrames, 'Auto-arrange widgets');
+    setShowAutoArrange(false);
+    setUndoToast({ id: Date.now(), message: 'Widgets arranged' });
+  };
 
-    // If no position found, place it below all existing widgets
-    return { x: 0, y: maxY };
+  const handleBreakpointChange = (newBreakpoint: string) => {
+    breakpointRef.current = newBreakpoint as Breakpoint;
+    setBreakpoint(newBreakpoint as Breakpoint);
+  };
+
+  // Moving or resizing a widget on a narrower grid adjusts the layout of that breakpoint only
+  const handleBreakpointLayoutChange = (layoutBreakpoint: Exclude<Breakpoint, 'lg'>, layout: Layout[]) => {
+    const currentLayout = getBreakpointLayout(frames, layoutBreakpoint, spaceLayout.cols);
+    const changedItems = layout.filter((item) => {
+      const rect = currentLayout[item.i];
+      return rect && (rect.x !== item.x || rect.y !== item.y || rect.w !== item.w || rect.h !== item.h);
+    });
+    if (changedItems.length === 0) return;
+
+    const isResize = changedItems.some((item) => {
+      const rect = currentLayout[item.i];
+      return rect.w !== item.w || rect.h !== item.h;
+    });
+    const nextLayout = Object.fromEntries(layout.map(({ i, x, y, w, h }) => [i, { x, y, w, h }]));
+    updateActiveSpaceFrames(
+      setBreakpointLayout(frames, layoutBreakpoint, nextLayout),
+      `${isResize ? 'Resize' : 'Move'} widget (${BREAKPOINT_LABELS[layoutBreakpoint]} layout)`
+    );
+  };
+
+  const handleResetBreakpointLayout = () => {
+    if (breakpoint === 'lg') return;
+    updateActiveSpaceFrames(resetBreakpointLayout(frames, breakpoint), `Reset ${BREAKPOINT_LABELS[breakpoint]} layout`);
   };
 
   const handleLayoutChange = (layout: Layout[]) => {
+    if (droppedOnTabRef.current) return;
+    const layoutBreakpoint = breakpointRef.current;
+    if (layoutBreakpoint !== 'lg') {
+      handleBreakpointLayoutChange(layoutBreakpoint, layout);
+      return;
+    }
+
     // Find which item was moved by comparing with current layout
     const currentLayout: Layout[] = frames.map((frame) => ({
       i: frame.id,
@@ -270,7 +555,8 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
       return oldItem.x !== newItem.x || oldItem.y !== newItem.y;
     });
 
-    if (!movedItem) {
+    // Compaction may move other items too, keep the whole layout
+    if (!movedItem || spaceLayout.compaction !== 'none') {
       // No item was moved, might be a resize
       const updatedFrames = frames.map((frame) => {
         const layoutItem = layout.find((item) => item.i === frame.id);
@@ -285,7 +571,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
         }
         return frame;
       });
-      updateActiveSpaceFrames(updatedFrames);
+      updateActiveSpaceFrames(updatedFrames, movedItem ? 'Move widget' : 'Resize widget');
       return;
     }
 
@@ -322,13 +608,14 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
       return frame;
     });
 
-    updateActiveSpaceFrames(updatedFrames);
+    updateActiveSpaceFrames(updatedFrames, 'Move widget');
   };
 
   const handleAddFrame = (pluginId: string) => {
-    const newWidth = 4;
-    const newHeight = 4;
-    const position = findAvailablePosition(newWidth, newHeight);
+    const size = pluginRegistry.getDefaultSize(pluginId);
+    const newWidth = Math.min(size.w, spaceLayout.cols);
+    const newHeight = size.h;
+    const position = findAvailablePosition(frames, newWidth, newHeight, spaceLayout.cols);
     
     const newFrame: FrameData = {
       id: `frame-${Date.now()}`,
@@ -337,12 +624,13 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
       y: position.y,
       w: newWidth,
       h: newHeight,
-      config: {},
+      config: pluginRegistry.getDefaultConfig(pluginId),
+      pluginVersion: getCurrentPluginVersion(pluginId),
     };
 
     lastAddedFrameId.current = newFrame.id;
     const newFrames = [...frames, newFrame];
-    updateActiveSpaceFrames(newFrames);
+    updateActiveSpaceFrames(newFrames, 'Add widget');
     setShowPluginSelector(false);
     setShowWelcomeModal(false);
   };
@@ -360,56 +648,169 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
 
   const handleDeleteFrame = (frameId: string) => {
     const newFrames = frames.filter((f) => f.id !== frameId);
-    updateActiveSpaceFrames(newFrames);
+    updateActiveSpaceFrames(newFrames, 'Delete widget');
+    setUndoToast({ id: Date.now(), message: 'Widget deleted', onExpire: () => clearDeletedFrameCaches([frameId]) });
   };
 
-  const handleConfigChange = (frameId: string, config: Record<string, unknown>) => {
-    console.log('handleConfigChange - frameId:', frameId, 'config:', config);
+  const applyConfigChange = (frameId: string, config: Record<string, unknown>) => {
+    logger.debug(`Config of frame ${frameId} changed`, config);
+    // Saving settings also releases a frame from quarantine
     const newFrames = frames.map((f) =>
-      f.id === frameId ? { ...f, config } : f
+      f.id === frameId ? { ...f, config, quarantine: undefined } : f
     );
-    console.log('handleConfigChange - newFrames:', newFrames);
-    updateActiveSpaceFrames(newFrames);
+    updateActiveSpaceFrames(newFrames, 'Edit widget settings');
+  };
+
+  // Applied once secrets are in the vault, to the frames as they are by then
+  const applyConfigChangeRef = useRef(applyConfigChange);
+  applyConfigChangeRef.current = applyConfigChange;
+
+  const handleConfigChange = (frameId: string, config: Record<string, unknown>) => {
+    const frame = frames.find((f) => f.id === frameId);
+    if (!frame) return;
+
+    // Secrets are never saved in the dashboard data: without the vault, the change is refused
+    detachConnectionFields(frame.pluginId, config)
+      .then((detachedConfig) => storeConfigSecrets(frame.pluginId, detachedConfig))
+      .then((storedConfig) => applyConfigChangeRef.current(frameId, storedConfig))
+      .catch((error) => {
+        logger.error('Failed to store credentials in the vault:', error);
+        alert(
+          error instanceof VaultLockedError
+            ? 'Unlock the credential vault (Settings → Credentials) to save these settings.'
+            : 'Failed to store credentials, the settings were not saved.'
+        );
+      });
   };
 
   const handleNameChange = (frameId: string, name: string) => {
     const newFrames = frames.map((f) =>
       f.id === frameId ? { ...f, name: name.trim() || undefined } : f
     );
-    updateActiveSpaceFrames(newFrames);
+    updateActiveSpaceFrames(newFrames, 'Rename widget');
   };
 
   const handleNsfwToggle = (frameId: string, isNsfw: boolean) => {
     const newFrames = frames.map((f) =>
       f.id === frameId ? { ...f, isNsfw } : f
     );
-    updateActiveSpaceFrames(newFrames);
+    updateActiveSpaceFrames(newFrames, isNsfw ? 'Hide widget content' : 'Show widget content');
   };
 
-  const handleExport = async () => {
-    const theme = await loadTheme();
-    const exportData = {
-      version: '1.0.4',
-      exportDate: new Date().toISOString(),
-      theme,
-      spaces: spaces.map((space) => ({
-        id: space.id,
-        name: space.name,
-        frames: space.frames.map((frame) => ({
-          id: frame.id,
-          pluginId: frame.pluginId,
-          name: frame.name,
-          x: frame.x,
-          y: frame.y,
-          w: frame.w,
-          h: frame.h,
-          config: frame.config,
-          isNsfw: frame.isNsfw,
-        })),
-      })),
-      activeSpaceId,
+  // Requested by plugin views through their frame context
+  const handleResizeRequest = (frameId: string, size: { w?: number; h?: number }) => {
+    const frame = frames.find((f) => f.id === frameId);
+    if (!frame || isLocked) return;
+
+    const minSize = pluginRegistry.getMinSize(frame.pluginId);
+    const w = Math.max(Math.min(minSize.w, spaceLayout.cols), Math.min(size.w ?? frame.w, spaceLayout.cols - frame.x));
+    const h = Math.max(minSize.h, size.h ?? frame.h);
+    const others = frames.filter((f) => f.id !== frameId);
+    if ((w === frame.w && h === frame.h) || collidesWithFrames(others, frame.x, frame.y, w, h)) {
+      return;
+    }
+
+    updateActiveSpaceFrames(frames.map((f) => (f.id === frameId ? { ...f, w, h } : f)), 'Resize widget');
+  };
+
+  // A moved widget keeps its id, so its cache and queued writes follow it; a duplicate
+  // gets a copy of the cache. Both take the first free slot of the target space.
+  const handleSpaceTransfer = (frameId: string, targetSpaceId: string, mode: SpaceTransferMode) => {
+    const frame = frames.find((f) => f.id === frameId);
+    const targetSpace = spaces.find((space) => space.id === targetSpaceId);
+    if (!frame || !targetSpace || (mode === 'move' && targetSpaceId === activeSpaceId)) return;
+
+    const targetCols = getSpaceLayout(targetSpace).cols;
+    const w = Math.min(frame.w, targetCols);
+    const position = findAvailablePosition(targetSpace.frames, w, frame.h, targetCols);
+    // Layouts adjusted for narrower screens don't apply to the other grid
+    const copy: FrameData = {
+      ...frame,
+      ...position,
+      w,
+      layouts: undefined,
+      id: mode === 'move' ? frame.id : `frame-${Date.now()}`,
     };
 
+    recordEdit(
+      `${mode === 'move' ? 'Move' : 'Duplicate'} widget to space "${targetSpace.name}"`,
+      spaces.map((space) => {
+        if (space.id === targetSpaceId) return { ...space, frames: [...space.frames, copy] };
+        if (space.id === activeSpaceId && mode === 'move') {
+          return { ...space, frames: space.frames.filter((f) => f.id !== frameId) };
+        }
+        return space;
+      })
+    );
+    if (mode === 'duplicate') {
+      copyCache(frame.id, copy.id);
+    }
+    setUndoToast({
+      id: Date.now(),
+      message: `Widget ${mode === 'move' ? 'moved' : 'duplicated'} to "${targetSpace.name}"`,
+    });
+  };
+
+  // Unlocked space tab under the pointer while dragging a widget, other than the active space.
+  // The dragged widget itself is under the pointer too, so every element there is looked at.
+  const getDropTargetSpaceId = (e: MouseEvent): string | null => {
+    const tab = document
+      .elementsFromPoint(e.clientX, e.clientY)
+      .map((element) => element.closest<HTMLElement>('[data-space-tab]'))
+      .find((element) => !!element);
+    const spaceId = tab?.dataset.spaceTab;
+    return spaceId && spaceId !== activeSpaceId && unlockedSpaces.some((space) => space.id === spaceId)
+      ? spaceId
+      : null;
+  };
+
+  const handleDrag = (_layout: Layout[], _oldItem: Layout, _newItem: Layout, _placeholder: Layout, e: MouseEvent) => {
+    const spaceId = getDropTargetSpaceId(e);
+    if (spaceId !== dropTargetSpaceId) setDropTargetSpaceId(spaceId);
+  };
+
+  const handleDragStop = (_layout: Layout[], _oldItem: Layout, newItem: Layout, _placeholder: Layout, e: MouseEvent) => {
+    setDropTargetSpaceId(null);
+    const spaceId = getDropTargetSpaceId(e);
+    if (spaceId) {
+      droppedOnTabRef.current = true;
+      handleSpaceTransfer(newItem.i, spaceId, 'move');
+    }
+  };
+
+  // The stale layout change of a drop on a tab has been reported by now
+  useEffect(() => {
+    droppedOnTabRef.current = false;
+  });
+
+  // Ask how to handle credentials only when there are some to protect
+  const handleExportRequest = async () => {
+    const secretCount = countSecrets(await resolveSpacesConnections(spaces));
+    if (secretCount > 0) {
+      setExportSecretCount(secretCount);
+    } else {
+      handleExport('plain');
+    }
+  };
+
+  const handleExport = async (secretMode: SecretExportMode, passphrase?: string) => {
+    const theme = await loadTheme();
+    const connectedSpaces = await resolveSpacesConnections(spaces);
+    const exportedSpaces = secretMode === 'omit' ? connectedSpaces : await resolveSpacesCredentials(connectedSpaces);
+    if (!exportedSpaces) {
+      alert('Unlock the credential vault to export credentials.');
+      return;
+    }
+
+    let exportData;
+    try {
+      exportData = await buildDashboardExport(exportedSpaces, activeSpaceId, theme, secretMode, passphrase);
+    } catch (error) {
+      logger.error('Export error:', error);
+      alert('Failed to export dashboard');
+      return;
+    }
+
     const dataStr = JSON.stringify(exportData, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
@@ -420,6 +821,7 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
+    setExportSecretCount(null);
   };
 
   const handleImport = () => {
@@ -431,113 +833,13 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
       if (!file) return;
 
       const reader = new FileReader();
-      reader.onload = async (event) => {
+      reader.onload = (event) => {
         try {
           const content = event.target?.result as string;
-          const importData = JSON.parse(content);
-
-          let importedSpaces: SpaceData[] = [];
-          let importedActiveSpaceId: string = '';
-          let importedTheme: string | undefined;
-
-          // Handle new format (v1.0.4+) with spaces and theme
-          if (importData.spaces && Array.isArray(importData.spaces)) {
-            importedSpaces = importData.spaces.map((space: any) => ({
-              id: space.id,
-              name: space.name,
-              frames: space.frames || [],
-            }));
-
-            importedActiveSpaceId = importData.activeSpaceId || importedSpaces[0]?.id || '';
-            importedTheme = importData.theme;
-
-            // Validate spaces
-            if (importedSpaces.length === 0) {
-              alert('No valid spaces found in the import file.');
-              return;
-            }
-
-            // Validate active space exists
-            if (!importedActiveSpaceId || !importedSpaces.find((s: SpaceData) => s.id === importedActiveSpaceId)) {
-              importedActiveSpaceId = importedSpaces[0].id;
-            }
-
-            // Confirm import
-            const spaceCount = importedSpaces.length;
-            const frameCount = importedSpaces.reduce((total, space) => total + space.frames.length, 0);
-
-            if (!confirm(`This will replace all your current spaces with ${spaceCount} space(s) containing ${frameCount} widget(s) in total. Continue?`)) {
-              return;
-            }
-          }
-          // Handle legacy format (frames only)
-          else if (importData.frames && Array.isArray(importData.frames)) {
-            // Validate each frame has required fields
-            const validFrames = importData.frames.filter((frame: FrameData) =>
-              frame.id && frame.pluginId && typeof frame.x === 'number' &&
-              typeof frame.y === 'number' && typeof frame.w === 'number' &&
-              typeof frame.h === 'number' && frame.config
-            );
-
-            if (validFrames.length === 0) {
-              alert('No valid frames found in the import file.');
-              return;
-            }
-
-            // Confirm import
-            if (!confirm(`This will replace your current space with ${validFrames.length} frame(s). Continue?`)) {
-              return;
-            }
-
-            // Create a default space with imported frames
-            importedSpaces = [{
-              id: 'imported-space',
-              name: 'Imported',
-              frames: validFrames,
-            }];
-            importedActiveSpaceId = 'imported-space';
-          } else {
-            alert('Invalid export file format. Expected "spaces" array or legacy "frames" array.');
-            return;
-          }
-
-          // Update dashboard data
-          const newDashboardData: DashboardData = {
-            spaces: importedSpaces,
-            activeSpaceId: importedActiveSpaceId,
-          };
-
-          // Save the new dashboard data
-          await new Promise<void>((resolve) => {
-            if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-              chrome.storage.local.set({ 'dashboard_data': JSON.stringify(newDashboardData) }, () => {
-                resolve();
-              });
-            } else {
-              localStorage.setItem('dashboard_data', JSON.stringify(newDashboardData));
-              resolve();
-            }
-          });
-
-          // Update local state
-          setSpaces(importedSpaces);
-          setActiveSpaceId(importedActiveSpaceId);
-
-          // Save theme if provided
-          if (importedTheme && (importedTheme === 'light' || importedTheme === 'dark')) {
-            await saveTheme(importedTheme as 'light' | 'dark');
-            // Apply theme immediately to the DOM
-            if (importedTheme === 'dark') {
-              document.documentElement.classList.add('dark');
-            } else {
-              document.documentElement.classList.remove('dark');
-            }
-          }
-
-          alert('Dashboard imported successfully!');
+          setPendingImport(parseDashboardImport(content));
         } catch (error) {
-          console.error('Import error:', error);
-          alert('Failed to import dashboard. The file may be corrupted or invalid.');
+          logger.error('Import error:', error);
+          alert(error instanceof Error ? error.message : 'Failed to import dashboard. The file may be corrupted or invalid.');
         }
       };
       reader.readAsText(file);
@@ -545,71 +847,193 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
     input.click();
   };
 
+  const handleImportConfirm = async (selections: ImportSelection[], mode: ImportMode) => {
+    if (!pendingImport) return;
+
+    try {
+      const importedSpaces = await storeSpacesSecrets(applyImport(spaces, selections, mode));
+      const importedActiveSpaceId = mode === 'replace'
+        ? importedSpaces.find((s) => s.id === pendingImport.activeSpaceId)?.id ?? importedSpaces[0].id
+        : activeSpaceId;
+
+      // Update dashboard data, upgrading frames exported by older plugin versions
+      const newDashboardData: DashboardData = migrateDashboardData({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        spaces: importedSpaces,
+        activeSpaceId: importedActiveSpaceId,
+      });
+
+      // Keep a way back, then save the new dashboard data
+      await createSnapshot({ spaces, activeSpaceId }, 'pre-import');
+      await saveDashboardData(newDashboardData);
+
+      // Update local state
+      historyRef.current.push({ label: 'Import dashboard', before: spaces, after: newDashboardData.spaces });
+      applyStoredSpaces(newDashboardData.spaces);
+      setActiveSpaceId(newDashboardData.activeSpaceId);
+      setPendingImport(null);
+
+      // Save theme if provided, merging keeps the current theme
+      const importedTheme = pendingImport.theme;
+      if (mode === 'replace' && (importedTheme === 'light' || importedTheme === 'dark')) {
+        await saveTheme(importedTheme);
+        // Apply theme immediately to the DOM
+        if (importedTheme === 'dark') {
+          document.documentElement.classList.add('dark');
+        } else {
+          document.documentElement.classList.remove('dark');
+        }
+      }
+
+      alert('Dashboard imported successfully!');
+    } catch (error) {
+      logger.error('Import error:', error);
+      alert(
+        error instanceof VaultLockedError
+          ? 'Unlock the credential vault (Settings → Credentials) to import credentials.'
+          : 'Failed to import dashboard. The file may be corrupted or invalid.'
+      );
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: Snapshot) => {
+    try {
+      const restoredData = await restoreSnapshot(snapshot, { spaces, activeSpaceId });
+      historyRef.current.push({ label: 'Restore snapshot', before: spaces, after: restoredData.spaces });
+      applyStoredSpaces(restoredData.spaces);
+      setActiveSpaceId(restoredData.activeSpaceId);
+    } catch (error) {
+      logger.error('Failed to restore snapshot:', error);
+      alert('Failed to restore snapshot, your dashboard was left unchanged.');
+    }
+  };
+
+  // Spaces created or renamed from the settings menu, already saved
   const handleSpacesUpdate = (updatedSpaces: SpaceData[]) => {
-    setSpaces(updatedSpaces);
+    const label = updatedSpaces.length > spaces.length ? 'Create space' : 'Rename space';
+    historyRef.current.push({ label, before: spaces, after: updatedSpaces });
+    applyStoredSpaces(updatedSpaces);
   };
 
-  const layout: Layout[] = frames.map((frame) => ({
-    i: frame.id,
-    x: frame.x,
-    y: frame.y,
-    w: frame.w,
-    h: frame.h,
-    minW: 2,
-    minH: 2,
-  }));
+  const layouts = Object.fromEntries(
+    (Object.keys(BREAKPOINTS) as Breakpoint[]).map((layoutBreakpoint) => {
+      const rects = getBreakpointLayout(frames, layoutBreakpoint, spaceLayout.cols);
+      const layout: Layout[] = frames.map((frame) => {
+        const minSize = pluginRegistry.getMinSize(frame.pluginId);
+        return {
+          i: frame.id,
+          ...rects[frame.id],
+          minW: Math.min(minSize.w, breakpointCols[layoutBreakpoint]),
+          minH: minSize.h,
+        };
+      });
+      return [layoutBreakpoint, layout];
+    })
+  );
 
   const isEmpty = frames.length === 0;
 
   return (
-    <div className="min-h-screen bg-background">
+    <div className="min-h-screen bg-background" style={{ background: spaceLayout.background }}>
+      <ConnectivityBanner />
+
       {/* Space Tabs */}
       <SpaceTabs
         spaces={spaces}
         activeSpaceId={activeSpaceId}
         onSpaceSelect={handleSpaceSelect}
+        dropTargetSpaceId={dropTargetSpaceId}
       />
 
-      {/* Floating settings button */}
-      <div className="fixed top-2 right-2 z-50">
+      {/* Floating settings button, with the unlock button while locked */}
+      <div className="fixed top-2 right-2 z-50 flex items-center gap-1">
+        {isLocked && (
+          <button
+            onClick={handleUnlockRequest}
+            className="p-1.5 rounded-full bg-card border-2 border-amber-500/40 shadow-lg hover:bg-amber-500/10 hover:border-amber-500/60 transition-colors"
+            aria-label="Unlock"
+            title={lockStatus?.isDashboardLocked ? 'Dashboard locked, click to unlock' : 'Space locked, click to unlock'}
+          >
+            <Lock className="w-3.5 h-3.5 text-amber-500" />
+          </button>
+        )}
         <SettingsMenu 
           onAddWidget={() => setShowPluginSelector(true)}
-          onExport={handleExport}
+          onExport={handleExportRequest}
           onImport={handleImport}
           spaces={spaces}
           onSpacesUpdate={handleSpacesUpdate}
           onDeleteSpaceRequest={handleSpaceDeleteRequest}
+          onSpaceLayoutRequest={handleSpaceLayoutRequest}
+          onAutoArrange={isEmpty || isLocked ? undefined : () => setShowAutoArrange(true)}
+          onRestoreSnapshot={handleRestoreSnapshot}
+          lockStatus={lockStatus ?? undefined}
+          isLocked={isLocked}
         />
       </div>
 
-      <div className={`p-2 transition-opacity duration-300 ${isTransitioning ? 'opacity-50' : 'opacity-100'}`}>
+      <div
+        className={`p-2 mx-auto transition-opacity duration-300 ${isTransitioning ? 'opacity-50' : 'opacity-100'}`}
+        style={{ maxWidth: spaceLayout.maxWidth }}
+      >
         {isEmpty ? (
-          <EmptyDashboard onAddWidget={() => setShowPluginSelector(true)} />
+          <EmptyDashboard onAddWidget={isLocked ? undefined : () => setShowPluginSelector(true)} />
         ) : (
-          <FixedGridLayout
-            className="layout"
-            layout={layout}
-            cols={12}
-            rowHeight={60}
-            onLayoutChange={(layout) => handleLayoutChange(layout as Layout[])}
-            isDraggable={true}
-            isResizable={true}
-            draggableHandle=".drag-handle"
-            compactType={null}
-            preventCollision={true}
-          >
-            {frames.map((frame) => (
-              <div key={frame.id} data-grid-id={frame.id}>
-                <Frame
-                  frame={frame}
-                  onDelete={handleDeleteFrame}
-                  onConfigChange={handleConfigChange}
-                  onNameChange={handleNameChange}
-                  onNsfwToggle={handleNsfwToggle}
-                />
+          <>
+            {breakpoint !== 'lg' && (
+              <div className="flex items-center justify-center gap-2 px-2 pb-1 text-xs text-muted-foreground">
+                <span>
+                  {BREAKPOINT_LABELS[breakpoint]} layout, {breakpointCols[breakpoint]} columns ·{' '}
+                  {isBreakpointTuned(frames, breakpoint)
+                    ? 'adjusted by hand'
+                    : 'derived from the wide layout, move a widget to adjust it'}
+                </span>
+                {isBreakpointTuned(frames, breakpoint) && (
+                  <button
+                    onClick={handleResetBreakpointLayout}
+                    className="text-primary hover:underline"
+                    type="button"
+                  >
+                    Reset
+                  </button>
+                )}
               </div>
-            ))}
-          </FixedGridLayout>
+            )}
+            <ResponsiveGridLayout
+              className="layout"
+              layouts={layouts}
+              breakpoints={BREAKPOINTS}
+              cols={breakpointCols}
+              rowHeight={spaceLayout.rowHeight}
+              margin={[spaceLayout.gap, spaceLayout.gap]}
+              onBreakpointChange={handleBreakpointChange}
+              onLayoutChange={(layout) => handleLayoutChange(layout as Layout[])}
+              onDrag={handleDrag}
+              onDragStop={handleDragStop}
+              isDraggable={!isLocked}
+              isResizable={!isLocked}
+              draggableHandle=".drag-handle"
+              compactType={spaceLayout.compaction === 'none' ? null : spaceLayout.compaction}
+              preventCollision={spaceLayout.compaction === 'none'}
+            >
+              {frames.map((frame) => (
+                <div key={frame.id} data-grid-id={frame.id}>
+                  <Frame
+                    frame={frame}
+                    onDelete={handleDeleteFrame}
+                    onConfigChange={handleConfigChange}
+                    onNameChange={handleNameChange}
+                    onNsfwToggle={handleNsfwToggle}
+                    onResizeRequest={handleResizeRequest}
+                    isLocked={isLocked}
+                    spaces={unlockedSpaces}
+                    spaceId={activeSpaceId}
+                    onSpaceTransfer={handleSpaceTransfer}
+                  />
+                </div>
+              ))}
+            </ResponsiveGridLayout>
+          </>
         )}
       </div>
 
@@ -627,6 +1051,62 @@ export function DashboardContent({ initialData }: DashboardContentProps) {
         />
       )}
 
+      {undoToast && (
+        <UndoToast
+          key={undoToast.id}
+          message={undoToast.message}
+          onUndo={handleUndo}
+          onClose={() => {
+            undoToast.onExpire?.();
+            setUndoToast(null);
+          }}
+        />
+      )}
+
+      {exportSecretCount !== null && (
+        <ExportDialog
+          secretCount={exportSecretCount}
+          onExport={handleExport}
+          onCancel={() => setExportSecretCount(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportWizard
+          importData={pendingImport}
+          currentSpaces={spaces}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {spaceToLayOut && (
+        <SpaceLayoutDialog
+          space={spaceToLayOut}
+          onSave={handleSpaceLayoutSave}
+          onCancel={() => setSpaceToLayOut(null)}
+        />
+      )}
+
+      {showAutoArrange && (
+        <AutoArrangeDialog
+          frames={frames}
+          breakpoint={breakpoint}
+          gridCols={spaceLayout.cols}
+          cols={breakpointCols[breakpoint]}
+          onApply={handleAutoArrange}
+          onCancel={() => setShowAutoArrange(false)}
+        />
+      )}
+
+      {showUnlockDialog && (
+        <UnlockDialog
+          target={lockStatus?.isDashboardLocked ? 'the dashboard' : `"${activeSpace?.name}"`}
+          onUnlock={handleUnlock}
+          onCancel={() => setShowUnlockDialog(false)}
+        />
+      )}
+
       {spaceToDelete && (
         <DeleteSpaceModal
           spaceName={spaceToDelete.name}
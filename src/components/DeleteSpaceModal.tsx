@@ -18,8 +18,8 @@ export function DeleteSpaceModal({ spaceName, onConfirm, onCancel }: DeleteSpace
             <div className="flex-1">
               <h3 className="text-lg font-semibold mb-2">Delete Space</h3>
               <p className="text-sm text-muted-foreground mb-4">
-                Are you sure you want to delete the space &quot;{spaceName}&quot;? 
-                This action cannot be undone and all widgets in this space will be permanently deleted.
+                Are you sure you want to delete the space &quot;{spaceName}&quot;?
+                All widgets in this space will be deleted. You can undo this with Ctrl+Z.
               </p>
               <div className="flex gap-2 justify-end">
                 <button
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Download, Loader2, X } from 'lucide-react';
+import type { SecretExportMode } from '@/lib/import-export';
+
+interface ExportDialogProps {
+  secretCount: number;
+  onExport: (secretMode: SecretExportMode, passphrase?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const secretModeOptions: { mode: SecretExportMode; label: string; description: string }[] = [
+  { mode: 'omit', label: 'Omit secrets', description: 'You will be asked for them again on import' },
+  { mode: 'encrypt', label: 'Encrypt secrets', description: 'Protected by a passphrase you choose' },
+  { mode: 'plain', label: 'Include in plain text', description: 'Anyone with the file can read them' },
+];
+
+export function ExportDialog({ secretCount, onExport, onCancel }: ExportDialogProps) {
+  const [secretMode, setSecretMode] = useState<SecretExportMode>('omit');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const passphraseError = secretMode !== 'encrypt'
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation
+        ? 'Passphrases do not match'
+        : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphraseError) return;
+
+    setIsExporting(true);
+    try {
+      await onExport(secretMode, secretMode === 'encrypt' ? passphrase : undefined);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Export Dashboard</h2>
+          <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" type="button">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Your widgets contain {secretCount} credential(s) such as API tokens. How should they be exported?
+          </p>
+
+          <div className="space-y-2">
+            {secretModeOptions.map((option) => (
+              <label
+                key={option.mode}
+                className={`flex items-start gap-2 p-3 border rounded-md cursor-pointer ${secretMode === option.mode ? 'border-primary' : 'border-input'}`}
+              >
+                <input
+                  type="radio"
+                  name="secretMode"
+                  checked={secretMode === option.mode}
+                  onChange={() => setSecretMode(option.mode)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {secretMode === 'encrypt' && (
+            <div className="space-y-2">
+              <div>
+                <label htmlFor="exportPassphrase" className="block text-sm font-medium mb-1">
+                  Passphrase
+                </label>
+                <input
+                  id="exportPassphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                  autoComplete="new-password"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label htmlFor="exportPassphraseConfirm" className="block text-sm font-medium mb-1">
+                  Confirm passphrase
+                </label>
+                <input
+                  id="exportPassphraseConfirm"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                  autoComplete="new-password"
+                />
+              </div>
+              {passphrase && passphraseError && (
+                <p className="text-xs text-destructive">{passphraseError}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The passphrase cannot be recovered. Without it, credentials will have to be entered again.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!!passphraseError || isExporting}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Export
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
@@ -1,9 +1,22 @@
-import { Eye, EyeOff, Pencil, RefreshCw, Settings, X } from 'lucide-react';
-import { useEffect, useRef, useState } from 'react';
+import { Activity, AlertCircle, AlertTriangle, Eye, EyeOff, Loader2, Lock, Pencil, RefreshCw, Settings, ShieldAlert, WifiOff, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
-import { FrameData } from '@/lib/storage';
+import { FrameData, SpaceData } from '@/lib/storage';
 import { pluginRegistry } from '@/lib/plugin-registry';
 import { clearCache } from '@/lib/cache';
+import { getCredentialRefs, subscribeToVault } from '@/lib/vault';
+import { getConnectionId, resolveFrameConfig, subscribeToConnections } from '@/lib/connections';
+import { formatTimeAgo } from '@/lib/format';
+import { createLogger } from '@/lib/logger';
+import { getConfigOrigins, requestHostPermissions } from '@/lib/host-permissions';
+import type { FrameContextValue, FrameStatus, PluginComponentProps, PluginConfig } from '@/types/plugin';
+import { VaultUnlockForm } from './VaultUnlockForm';
+import { PluginConfigEditView } from './PluginConfigForm';
+import { FrameContext } from './FrameContext';
+import { FrameDiagnostics } from './FrameDiagnostics';
+import { useIsOnline } from './ConnectivityBanner';
+import { formatOrigin, useMissingOrigins } from './HostPermissionNotice';
+import { FrameSpaceMenu, type SpaceTransferMode } from './FrameSpaceMenu';
 
 interface FrameProps {
   frame: FrameData;
@@ -11,16 +24,111 @@ interface FrameProps {
   onConfigChange: (frameId: string, config: Record<string, unknown>) => void;
   onNameChange: (frameId: string, name: string) => void;
   onNsfwToggle: (frameId: string, isNsfw: boolean) => void;
+  onResizeRequest?: (frameId: string, size: { w?: number; h?: number }) => void;
+  /** Header and editing hidden, config changes ignored, see lock.ts */
+  isLocked?: boolean;
+  /** Spaces the frame can be moved or duplicated to, with the space it is in */
+  spaces?: Pick<SpaceData, 'id' | 'name'>[];
+  spaceId?: string;
+  onSpaceTransfer?: (frameId: string, spaceId: string, mode: SpaceTransferMode) => void;
 }
 
-export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwToggle }: FrameProps) {
+const logger = createLogger('Frame');
+
+const INITIAL_STATUS: FrameStatus = { isLoading: false, error: null, lastUpdated: null };
+
+export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwToggle, onResizeRequest, isLocked = false, spaces = [], spaceId, onSpaceTransfer }: FrameProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const [isEditingName, setIsEditingName] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [frameName, setFrameName] = useState(frame.name || '');
   const [refreshKey, setRefreshKey] = useState(0);
   const nameInputRef = useRef<HTMLInputElement>(null);
   const plugin = pluginRegistry.getPlugin(frame.pluginId);
+  const online = useIsOnline();
+  const hasReferences = Object.keys(getCredentialRefs(frame.config)).length > 0 || !!getConnectionId(frame.config);
+  // Config with connection and credential values, null while the vault is locked or when they can't be read
+  const [resolved, setResolved] = useState<{ source: PluginConfig; config: PluginConfig | null; failed?: boolean } | null>(null);
+  const [resolveAttempt, setResolveAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!hasReferences) return;
+
+    let cancelled = false;
+    const resolve = () => {
+      resolveFrameConfig(frame.config)
+        .then((config) => {
+          if (!cancelled) setResolved({ source: frame.config, config });
+        })
+        .catch((error) => {
+          logger.error(`Failed to resolve the credentials of frame ${frame.id}:`, error);
+          if (!cancelled) setResolved({ source: frame.config, config: null, failed: true });
+        });
+    };
+    resolve();
+    const unsubscribeVault = subscribeToVault(resolve);
+    const unsubscribeConnections = subscribeToConnections(resolve);
+    return () => {
+      cancelled = true;
+      unsubscribeVault();
+      unsubscribeConnections();
+    };
+  }, [frame.config, frame.id, hasReferences, resolveAttempt]);
+
+  // undefined while references are being resolved
+  const viewConfig = !hasReferences
+    ? frame.config
+    : resolved?.source === frame.config ? resolved.config : undefined;
+  const resolveFailed = viewConfig === null && !!resolved?.failed;
+
+  // Servers of the config the extension has no access to yet, see host-permissions.ts
+  const missingOrigins = useMissingOrigins(viewConfig ? getConfigOrigins(plugin?.hostFields, viewConfig) : []);
+  const hasMissingOrigins = !!missingOrigins && missingOrigins.length > 0;
+  const hadMissingOriginsRef = useRef(false);
+
+  const [status, setStatus] = useState<FrameStatus>(INITIAL_STATUS);
+  const [badge, setBadge] = useState<number | null>(null);
+  const refreshRef = useRef<(() => void | Promise<void>) | null>(null);
+  const onResizeRequestRef = useRef(onResizeRequest);
+  onResizeRequestRef.current = onResizeRequest;
+  // Re-render every minute so the last update time stays current
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!status.lastUpdated) return;
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [status.lastUpdated]);
+
+  const frameContext = useMemo<FrameContextValue>(() => ({
+    frameId: frame.id,
+    registerRefresh: (refresh) => {
+      refreshRef.current = refresh;
+      return () => {
+        if (refreshRef.current === refresh) refreshRef.current = null;
+      };
+    },
+    setStatus: (next) => setStatus((prev) => ({ ...prev, ...next })),
+    setBadge,
+    requestResize: (size) => onResizeRequestRef.current?.(frame.id, size),
+  }), [frame.id]);
+
+  // Reload the view once access is granted, its last load failed without it
+  useEffect(() => {
+    if (hadMissingOriginsRef.current && !hasMissingOrigins) {
+      setRefreshKey((prev) => prev + 1);
+    }
+    hadMissingOriginsRef.current = hasMissingOrigins;
+  }, [hasMissingOrigins]);
+
+  // Leave edit mode and close the drawer, their buttons are hidden while locked
+  useEffect(() => {
+    if (!isLocked) return;
+    setIsEditing(false);
+    setIsEditingName(false);
+    setShowDiagnostics(false);
+  }, [isLocked]);
 
   // Update frameName when frame.name changes externally
   useEffect(() => {
@@ -35,15 +143,11 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
     }
   }, [isEditingName]);
 
-  if (!plugin) {
-    return (
-      <div className="w-full h-full bg-card border border-border rounded-lg p-4">
-        <p className="text-muted-foreground">Plugin not found: {frame.pluginId}</p>
-      </div>
-    );
-  }
-
   const handleConfigChange = (config: Record<string, unknown>) => {
+    if (isLocked) return;
+    // Still within the click saving the config, so the browser can prompt.
+    // Servers of a connection were requested when it was saved.
+    requestHostPermissions(getConfigOrigins(plugin?.hostFields, config));
     onConfigChange(frame.id, config);
   };
 
@@ -56,7 +160,6 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
     e.stopPropagation();
     const newEditingState = !isEditing;
     setIsEditing(newEditingState);
-    console.log('Frame - handleEditClick: isEditing changed to', newEditingState);
   };
 
   const handleNameEditClick = (e: React.MouseEvent) => {
@@ -85,6 +188,12 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
     onDelete(frame.id);
   };
 
+  const handleDiagnosticsClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setShowDiagnostics((prev) => !prev);
+  };
+
   const handleNsfwClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -95,21 +204,65 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
     e.preventDefault();
     e.stopPropagation();
 
-    // Clear the cache for this frame
-    await clearCache(frame.id);
-
-    // Call the plugin's onRefresh callback if it exists
-    // This will trigger the plugin to force reload its data
-    const refreshCallback = (globalThis as any)[`__pluginRefresh_${frame.id}`];
-    if (refreshCallback) {
-      await refreshCallback();
+    // Let the plugin force reload its data, see FrameContextValue.registerRefresh.
+    // Its cache is kept as last good copy in case the reload fails.
+    if (refreshRef.current) {
+      try {
+        await refreshRef.current();
+      } catch {
+        // The plugin view shows its own error
+      }
+      return;
     }
 
-    // Trigger a refresh by incrementing the refresh key
+    // Otherwise clear the cache for this frame and remount the view
+    await clearCache(frame.id);
     setRefreshKey(prev => prev + 1);
   };
 
+  // Keep frames of unknown plugins (removed, or from a newer version) so they can be moved or deleted
+  if (!plugin) {
+    return (
+      <div className="w-full h-full bg-card border border-border rounded-lg overflow-hidden flex flex-col">
+        {!isLocked && (
+          <div className="drag-handle flex items-center justify-between px-2 py-1 border-b border-border bg-muted/50">
+            <div className="flex items-center gap-2 flex-1 min-w-0">
+              <AlertTriangle className="w-3 h-3 text-destructive flex-shrink-0" />
+              <h3 className="text-xs font-medium truncate">{frame.name || 'Unknown widget'}</h3>
+            </div>
+            <button
+              onClick={handleDeleteClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="p-1 rounded hover:bg-destructive hover:text-destructive-foreground transition-colors"
+              title="Delete widget"
+              type="button"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        <div className="flex flex-col items-center justify-center flex-1 p-4 text-center">
+          <AlertTriangle className="w-10 h-10 text-muted-foreground mb-3 opacity-50" />
+          <p className="text-sm text-muted-foreground mb-1">
+            Unknown widget type <code className="px-1 rounded bg-muted">{frame.pluginId}</code>
+          </p>
+          <p className="text-xs text-muted-foreground opacity-70">
+            It may come from a newer version or a removed plugin. Its settings are kept.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Plugins without an EditView get a form generated from their config fields
   const ViewComponent = isEditing ? plugin.EditView : plugin.DashboardView;
+  const viewProps: Omit<PluginComponentProps, 'config'> = {
+    isEditing,
+    onConfigChange: handleConfigChange,
+    onExitEditMode: handleExitEditMode,
+    frameId: frame.id,
+    onRefresh: () => setRefreshKey(prev => prev + 1),
+  };
 
   return (
     <div
@@ -117,97 +270,145 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
-      <div className="drag-handle flex items-center justify-between px-2 py-1 border-b border-border bg-muted/50">
-        <div className="flex items-center gap-2 flex-1 min-w-0">
-          {plugin.IconComponent && (
-            <plugin.IconComponent className="w-3 h-3 text-muted-foreground flex-shrink-0" />
-          )}
-          {isEditingName ? (
-            <input
-              ref={nameInputRef}
-              type="text"
-              value={frameName}
-              onChange={(e) => setFrameName(e.target.value)}
-              onBlur={handleNameBlur}
-              onKeyDown={handleNameKeyDown}
-              className="text-xs font-medium flex-1 bg-background border border-input rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-primary min-w-0"
-              placeholder={plugin.metadata.name}
-              onMouseDown={(e) => e.stopPropagation()}
-            />
-          ) : (
-            <div className="flex items-center gap-1 min-w-0 group max-w-full">
-              <h3
-                className="text-xs font-medium truncate max-w-full"
-                title={frame.name || plugin.metadata.name}
-              >
-                {frame.name || plugin.metadata.name}
-              </h3>
-              <button
-                onClick={handleNameEditClick}
+      {!isLocked && (
+        <div className="drag-handle flex items-center justify-between px-2 py-1 border-b border-border bg-muted/50">
+          <div className="flex items-center gap-2 flex-1 min-w-0">
+            {plugin.IconComponent && (
+              <plugin.IconComponent className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+            )}
+            {isEditingName ? (
+              <input
+                ref={nameInputRef}
+                type="text"
+                value={frameName}
+                onChange={(e) => setFrameName(e.target.value)}
+                onBlur={handleNameBlur}
+                onKeyDown={handleNameKeyDown}
+                className="text-xs font-medium flex-1 bg-background border border-input rounded px-2 py-0.5 focus:outline-none focus:ring-2 focus:ring-primary min-w-0"
+                placeholder={plugin.metadata.name}
                 onMouseDown={(e) => e.stopPropagation()}
-                className="p-0.5 rounded hover:bg-accent transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
-                title="Edit name"
-                type="button"
+              />
+            ) : (
+              <div className="flex items-center gap-1 min-w-0 group max-w-full">
+                <h3
+                  className="text-xs font-medium truncate max-w-full"
+                  title={frame.name || plugin.metadata.name}
+                >
+                  {frame.name || plugin.metadata.name}
+                </h3>
+                <button
+                  onClick={handleNameEditClick}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  className="p-0.5 rounded hover:bg-accent transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
+                  title="Edit name"
+                  type="button"
+                >
+                  <Pencil className="w-3 h-3 text-muted-foreground" />
+                </button>
+              </div>
+            )}
+            {!!badge && badge > 0 && (
+              <span className="px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-medium leading-4 flex-shrink-0">
+                {badge > 99 ? '99+' : badge}
+              </span>
+            )}
+            {status.error && online && (
+              <span
+                title={status.lastUpdated
+                  ? `${status.error}\nShowing data from ${formatTimeAgo(status.lastUpdated)}`
+                  : status.error}
+                className="flex-shrink-0"
               >
-                <Pencil className="w-3 h-3 text-muted-foreground" />
-              </button>
-            </div>
-          )}
-        </div>
-        <div className="flex items-center gap-1" onMouseDown={(e) => e.stopPropagation()}>
-          <button
-            onClick={handleRefreshClick}
-            onMouseDown={(e) => e.stopPropagation()}
-            className={`p-1 rounded hover:bg-accent transition-colors ${
-              isHovered || isEditing ? 'opacity-100' : 'opacity-0'
-            }`}
-            title="Refresh widget data"
-            type="button"
-            disabled={frame.isNsfw}
-          >
-            <RefreshCw className="w-4 h-4" />
-          </button>
-          <button
-            onClick={handleNsfwClick}
-            onMouseDown={(e) => e.stopPropagation()}
-            className={`p-1 rounded hover:bg-accent transition-colors ${
-              isHovered || frame.isNsfw ? 'opacity-100' : 'opacity-0'
-            } ${frame.isNsfw ? 'text-amber-500' : ''}`}
-            title={frame.isNsfw ? 'Show content' : 'Hide content (NSFW)'}
-            type="button"
-          >
-            {frame.isNsfw ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-          </button>
-          <button
-            onClick={handleEditClick}
-            onMouseDown={(e) => e.stopPropagation()}
-            className={`p-1 rounded hover:bg-accent transition-colors ${
-              isHovered || isEditing ? 'opacity-100' : 'opacity-0'
-            }`}
-            title={isEditing ? 'View mode' : 'Edit mode'}
-            type="button"
-            disabled={frame.isNsfw}
-          >
-            <Settings className="w-4 h-4" />
-          </button>
-          <button
-            onClick={handleDeleteClick}
-            onMouseDown={(e) => e.stopPropagation()}
-            className={`p-1 rounded hover:bg-destructive hover:text-destructive-foreground transition-colors ${
-              isHovered ? 'opacity-100' : 'opacity-0'
-            }`}
-            title="Delete widget"
-            type="button"
-          >
-            <X className="w-4 h-4" />
-          </button>
+                <AlertCircle className="w-3 h-3 text-destructive" />
+              </span>
+            )}
+            {!online && (
+              <span title="Offline" className="flex-shrink-0">
+                <WifiOff className="w-3 h-3 text-muted-foreground" />
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1" onMouseDown={(e) => e.stopPropagation()}>
+            {status.lastUpdated && online && (isHovered || status.error) && (
+              <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                {formatTimeAgo(status.lastUpdated)}
+              </span>
+            )}
+            <button
+              onClick={handleRefreshClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`p-1 rounded hover:bg-accent transition-colors ${
+                isHovered || isEditing ? 'opacity-100' : 'opacity-0'
+              }`}
+              title={status.lastUpdated
+                ? `Refresh widget data (updated ${new Date(status.lastUpdated).toLocaleTimeString()})`
+                : 'Refresh widget data'}
+              type="button"
+              disabled={frame.isNsfw || !!frame.quarantine}
+            >
+              <RefreshCw className={`w-4 h-4 ${status.isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={handleDiagnosticsClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`p-1 rounded hover:bg-accent transition-colors ${
+                isHovered || showDiagnostics ? 'opacity-100' : 'opacity-0'
+              } ${showDiagnostics ? 'text-primary' : ''}`}
+              title={showDiagnostics ? 'Hide diagnostics' : 'Show diagnostics'}
+              type="button"
+            >
+              <Activity className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleNsfwClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`p-1 rounded hover:bg-accent transition-colors ${
+                isHovered || frame.isNsfw ? 'opacity-100' : 'opacity-0'
+              } ${frame.isNsfw ? 'text-amber-500' : ''}`}
+              title={frame.isNsfw ? 'Show content' : 'Hide content (NSFW)'}
+              type="button"
+            >
+              {frame.isNsfw ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            {onSpaceTransfer && spaceId && (
+              <FrameSpaceMenu
+                spaces={spaces}
+                currentSpaceId={spaceId}
+                onSelect={(targetSpaceId, mode) => onSpaceTransfer(frame.id, targetSpaceId, mode)}
+                className={isHovered ? 'opacity-100' : 'opacity-0'}
+              />
+            )}
+            <button
+              onClick={handleEditClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`p-1 rounded hover:bg-accent transition-colors ${
+                isHovered || isEditing ? 'opacity-100' : 'opacity-0'
+              }`}
+              title={isEditing ? 'View mode' : 'Edit mode'}
+              type="button"
+              disabled={frame.isNsfw || !!frame.quarantine}
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+            <button
+              onClick={handleDeleteClick}
+              onMouseDown={(e) => e.stopPropagation()}
+              className={`p-1 rounded hover:bg-destructive hover:text-destructive-foreground transition-colors ${
+                isHovered ? 'opacity-100' : 'opacity-0'
+              }`}
+              title="Delete widget"
+              type="button"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       <div 
         className="flex-1 overflow-y-auto overflow-x-hidden min-h-0"
         style={{ 
-          height: 'calc(100% - 28px)',
+          height: isLocked ? '100%' : 'calc(100% - 28px)',
           position: 'relative'
         }}
         onMouseDown={(e) => {
@@ -224,24 +425,110 @@ export function Frame({ frame, onDelete, onConfigChange, onNameChange, onNsfwTog
           }
         }}
       >
-        {frame.isNsfw ? (
+        {!online && status.lastUpdated && !frame.quarantine && !frame.isNsfw && (
+          <div className="sticky top-0 z-10 px-2 py-0.5 text-[10px] text-center bg-muted text-muted-foreground border-b border-border">
+            Offline, data from {new Date(status.lastUpdated).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </div>
+        )}
+        {frame.quarantine ? (
+          <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+            <AlertTriangle className="w-10 h-10 text-amber-500 mb-3 opacity-70" />
+            <p className="text-sm text-muted-foreground mb-1">Invalid settings, widget disabled</p>
+            <ul className="text-xs text-muted-foreground opacity-70 mb-3 break-words">
+              {frame.quarantine.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+            {!isLocked && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onConfigChange(frame.id, pluginRegistry.getDefaultConfig(frame.pluginId))}
+                  className="px-3 py-1 text-xs font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+                  type="button"
+                >
+                  Reset settings
+                </button>
+                <button
+                  onClick={() => onConfigChange(frame.id, frame.config)}
+                  className="px-3 py-1 text-xs font-medium border border-input rounded-md hover:bg-accent"
+                  type="button"
+                  title="Enable the widget with its current settings"
+                >
+                  Keep anyway
+                </button>
+              </div>
+            )}
+          </div>
+        ) : frame.isNsfw ? (
           <div className="flex flex-col items-center justify-center h-full p-4 text-center">
             <EyeOff className="w-12 h-12 text-muted-foreground mb-3 opacity-50" />
             <p className="text-sm text-muted-foreground mb-1">Content hidden</p>
-            <p className="text-xs text-muted-foreground opacity-70">Click the eye icon to reveal</p>
+            <p className="text-xs text-muted-foreground opacity-70">
+              {isLocked ? 'Unlock the dashboard to reveal' : 'Click the eye icon to reveal'}
+            </p>
+          </div>
+        ) : resolveFailed ? (
+          <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+            <AlertCircle className="w-10 h-10 text-muted-foreground mb-3 opacity-50" />
+            <p className="text-sm text-muted-foreground mb-1">Credentials needed</p>
+            <p className="text-xs text-muted-foreground opacity-70 mb-3">
+              Its saved credentials could not be read, check them in Settings → Credentials.
+            </p>
+            <button
+              onClick={() => setResolveAttempt((prev) => prev + 1)}
+              className="px-3 py-1 text-xs font-medium border border-input rounded-md hover:bg-accent"
+              type="button"
+            >
+              Retry
+            </button>
+          </div>
+        ) : viewConfig === null ? (
+          <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+            <Lock className="w-10 h-10 text-muted-foreground mb-3 opacity-50" />
+            <p className="text-sm text-muted-foreground mb-2">Credentials locked</p>
+            <VaultUnlockForm compact />
+          </div>
+        ) : viewConfig === undefined || missingOrigins === null ? (
+          <div className="flex items-center justify-center h-full">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : hasMissingOrigins && !isEditing ? (
+          <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+            <ShieldAlert className="w-10 h-10 text-muted-foreground mb-3 opacity-50" />
+            <p className="text-sm text-muted-foreground mb-1">Access needed</p>
+            <p className="text-xs text-muted-foreground opacity-70 mb-3 break-all">
+              {missingOrigins.map(formatOrigin).join(', ')}
+            </p>
+            <button
+              onClick={() => requestHostPermissions(missingOrigins)}
+              className="px-3 py-1 text-xs font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+              type="button"
+            >
+              Allow
+            </button>
           </div>
         ) : (
-          <ViewComponent
-            key={refreshKey}
-            config={frame.config}
-            isEditing={isEditing}
-            onConfigChange={handleConfigChange}
-            onExitEditMode={handleExitEditMode}
-            frameId={frame.id}
-            onRefresh={() => setRefreshKey(prev => prev + 1)}
-          />
+          <FrameContext.Provider value={frameContext}>
+            {ViewComponent ? (
+              <ViewComponent key={refreshKey} config={viewConfig} {...viewProps} />
+            ) : (
+              <PluginConfigEditView plugin={plugin} config={viewConfig} {...viewProps} />
+            )}
+          </FrameContext.Provider>
         )}
       </div>
+
+      {showDiagnostics && (
+        <div className="absolute inset-x-0 bottom-0 top-7 z-20 border-t border-border">
+          <FrameDiagnostics
+            frameId={frame.id}
+            pluginId={frame.pluginId}
+            config={viewConfig ?? frame.config}
+            status={status}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,104 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import type { FrameContextValue, QueuedWrite } from '@/types/plugin';
+import { scheduleRefresh } from '@/lib/refresh-scheduler';
+import { getQueuedWrites, subscribeToWriteQueue } from '@/lib/offline-queue';
+import { recordFrameError } from '@/lib/diagnostics';
+
+const noop = () => {};
+
+// Record the failure of a load in the frame diagnostics, and rethrow it
+async function runRecordingErrors(frameId: string, load: () => void | Promise<void>): Promise<void> {
+  try {
+    await load();
+  } catch (e) {
+    if (frameId) recordFrameError(frameId, e);
+    throw e;
+  }
+}
+
+// Used when a plugin view is rendered outside of a Frame, e.g. in a preview
+const DEFAULT_FRAME_CONTEXT: FrameContextValue = {
+  frameId: '',
+  registerRefresh: () => noop,
+  setStatus: noop,
+  setBadge: noop,
+  requestResize: noop,
+};
+
+export const FrameContext = createContext<FrameContextValue>(DEFAULT_FRAME_CONTEXT);
+
+/**
+ * Access the frame hosting a plugin view: refresh registration, header status,
+ * badge and resize requests
+ */
+export function useFrameContext(): FrameContextValue {
+  return useContext(FrameContext);
+}
+
+/**
+ * Register the function called by the frame refresh button
+ * The latest function is always called, so it can use the current props and state.
+ * Its failures are recorded in the frame diagnostics.
+ */
+export function useFrameRefresh(refresh: () => void | Promise<void>): void {
+  const { frameId, registerRefresh } = useFrameContext();
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+
+  useEffect(
+    () => registerRefresh(() => runRecordingErrors(frameId, () => refreshRef.current())),
+    [frameId, registerRefresh]
+  );
+}
+
+/**
+ * Report the loading state of a plugin view to its frame header
+ * @param lastUpdated - Time the shown data was fetched, e.g. from the cache (see
+ *   staleWhileRevalidate); when omitted, each load ending without error updates it
+ */
+export function useFrameStatus(isLoading: boolean, error: string | null, lastUpdated?: number | null): void {
+  const { setStatus } = useFrameContext();
+
+  useEffect(() => {
+    if (lastUpdated !== undefined) {
+      setStatus({ isLoading, error, lastUpdated });
+    } else {
+      setStatus(isLoading || error ? { isLoading, error } : { isLoading, error, lastUpdated: Date.now() });
+    }
+  }, [setStatus, isLoading, error, lastUpdated]);
+}
+
+/**
+ * Load the plugin data now and whenever it is due, see refresh-scheduler.ts
+ * Failed loads are recorded in the frame diagnostics.
+ * @param load - Loads the data, from the frame cache while it is valid; rejects on failure
+ * @param key - Identity of the request, see createRequestKey; a new key loads right away
+ * @param cacheDuration - Frame cache duration in seconds, used as refresh interval
+ */
+export function useScheduledRefresh(load: () => Promise<void>, key: string, cacheDuration: number | undefined): void {
+  const { frameId } = useFrameContext();
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  useEffect(
+    () => scheduleRefresh({ key, interval: cacheDuration ?? 0, run: () => runRecordingErrors(frameId, () => loadRef.current()) }),
+    [key, cacheDuration, frameId]
+  );
+}
+
+/**
+ * Writes of the frame queued while offline, see offline-queue.ts
+ * Views show them as done until they are sent and the data is reloaded.
+ */
+export function useQueuedWrites(): QueuedWrite[] {
+  const { frameId } = useFrameContext();
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+
+  useEffect(() => {
+    const update = (queued: QueuedWrite[]) => setWrites(queued.filter((write) => write.frameId === frameId));
+    getQueuedWrites().then(update);
+    return subscribeToWriteQueue(update);
+  }, [frameId]);
+
+  return writes;
+}
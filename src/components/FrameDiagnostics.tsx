@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { Database, Trash2, X } from 'lucide-react';
+import {
+  clearFrameDiagnostics,
+  getFrameDiagnostics,
+  subscribeToFrameDiagnostics,
+  type FrameActivity,
+  type FrameDiagnostics as FrameDiagnosticsData,
+} from '@/lib/diagnostics';
+import { formatTimeAgo } from '@/lib/format';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import type { FrameStatus, PluginConfig } from '@/types/plugin';
+import { RequestLogItem } from './RequestLogSettings';
+
+interface FrameDiagnosticsProps {
+  frameId: string;
+  pluginId: string;
+  /** Config used by the view, with connection and credential values when resolved */
+  config: PluginConfig;
+  status: FrameStatus;
+  onClose: () => void;
+}
+
+const CACHE_RESULT_LABELS: Record<'hit' | 'stale' | 'miss', string> = {
+  hit: 'Cache hit',
+  stale: 'Cache hit, expired',
+  miss: 'Cache miss',
+};
+
+// Config shown in the drawer, secret values masked
+function maskSecrets(pluginId: string, config: PluginConfig): PluginConfig {
+  const masked = { ...config };
+  pluginRegistry.getSecretFields(pluginId).forEach((key) => {
+    if (masked[key]) masked[key] = '••••••';
+  });
+  return masked;
+}
+
+function CacheActivityItem({ activity }: { activity: Extract<FrameActivity, { type: 'cache' }> }) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 text-xs">
+      <Database className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+      <span className={activity.result === 'miss' ? 'text-muted-foreground' : ''}>
+        {CACHE_RESULT_LABELS[activity.result]}
+      </span>
+      <span className="ml-auto text-[10px] text-muted-foreground whitespace-nowrap">
+        {activity.age !== undefined && `saved ${formatTimeAgo(activity.time - activity.age * 1000, activity.time)} · `}
+        {new Date(activity.time).toLocaleTimeString()}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Drawer of a frame listing its recent requests and cache reads, its last error
+ * and its config, see diagnostics.ts
+ */
+export function FrameDiagnostics({ frameId, pluginId, config, status, onClose }: FrameDiagnosticsProps) {
+  const [diagnostics, setDiagnostics] = useState<FrameDiagnosticsData>(() => getFrameDiagnostics(frameId));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDiagnostics(getFrameDiagnostics(frameId));
+    return subscribeToFrameDiagnostics(frameId, () => setDiagnostics(getFrameDiagnostics(frameId)));
+  }, [frameId]);
+
+  const { activity, lastError } = diagnostics;
+
+  return (
+    <div className="h-full flex flex-col bg-card" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-border">
+        <span className="text-xs font-semibold text-muted-foreground uppercase">Diagnostics</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => clearFrameDiagnostics(frameId)}
+            className="p-1 rounded hover:bg-accent transition-colors"
+            title="Clear diagnostics"
+            type="button"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-accent transition-colors"
+            title="Close diagnostics"
+            type="button"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 pb-2">
+        <div className="px-3 py-2 text-[10px] text-muted-foreground">
+          {pluginId} · {frameId}
+          {status.lastUpdated && ` · updated ${formatTimeAgo(status.lastUpdated)}`}
+        </div>
+
+        <div className="px-3 pt-1 text-xs font-medium">Last error</div>
+        {lastError ? (
+          <div className="px-3 py-1 text-xs">
+            <div className="text-destructive break-words">
+              {lastError.name}: {lastError.message}
+            </div>
+            <div className="text-[10px] text-muted-foreground">{new Date(lastError.time).toLocaleString()}</div>
+            {lastError.stack && (
+              <details className="mt-1">
+                <summary className="text-[10px] text-muted-foreground cursor-pointer">Stack</summary>
+                <pre className="mt-1 p-2 text-[10px] leading-tight bg-muted rounded overflow-x-auto whitespace-pre">
+                  {lastError.stack}
+                </pre>
+              </details>
+            )}
+          </div>
+        ) : (
+          <p className="px-3 py-1 text-xs text-muted-foreground">
+            {status.error ?? 'No error'}
+          </p>
+        )}
+
+        <div className="px-3 pt-2 text-xs font-medium">Recent activity</div>
+        {activity.length === 0 && (
+          <p className="px-3 py-1 text-xs text-muted-foreground">No requests since this tab was opened</p>
+        )}
+        {activity.map((item, index) =>
+          item.type === 'request' ? (
+            <RequestLogItem
+              key={item.request.traceId}
+              entry={item.request}
+              isExpanded={expandedId === item.request.traceId}
+              onToggle={() => setExpandedId(expandedId === item.request.traceId ? null : item.request.traceId)}
+            />
+          ) : (
+            <CacheActivityItem key={`cache-${item.time}-${index}`} activity={item} />
+          )
+        )}
+
+        <div className="px-3 pt-2 text-xs font-medium">Config</div>
+        <pre className="mx-3 mt-1 p-2 text-[10px] leading-tight bg-muted rounded overflow-x-auto">
+          {JSON.stringify(maskSecrets(pluginId, config), null, 2)}
+        </pre>
+      </div>
+    </div>
+  );
+}
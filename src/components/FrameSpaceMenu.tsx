@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Copy, FolderInput } from 'lucide-react';
+import type { SpaceData } from '@/lib/storage';
+
+export type SpaceTransferMode = 'move' | 'duplicate';
+
+interface FrameSpaceMenuProps {
+  /** Spaces that can receive the frame, locked ones left out */
+  spaces: Pick<SpaceData, 'id' | 'name'>[];
+  currentSpaceId: string;
+  onSelect: (spaceId: string, mode: SpaceTransferMode) => void;
+  /** Classes of the header button, e.g. to show it on hover only */
+  className?: string;
+}
+
+/**
+ * "Move to space" and "Duplicate to space" menu of a frame header
+ * Rendered in a portal, as the frame clips its overflow.
+ */
+export function FrameSpaceMenu({ spaces, currentSpaceId, onSelect, className = '' }: FrameSpaceMenuProps) {
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const moveTargets = spaces.filter((space) => space.id !== currentSpaceId);
+
+  useEffect(() => {
+    if (!position) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
+        setPosition(null);
+      }
+    };
+    const handleClose = () => setPosition(null);
+    document.addEventListener('mousedown', handleClickOutside);
+    window.addEventListener('resize', handleClose);
+    window.addEventListener('scroll', handleClose, true);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      window.removeEventListener('resize', handleClose);
+      window.removeEventListener('scroll', handleClose, true);
+    };
+  }, [position]);
+
+  const handleToggle = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (position || !buttonRef.current) {
+      setPosition(null);
+      return;
+    }
+    const rect = buttonRef.current.getBoundingClientRect();
+    setPosition({ top: rect.bottom + 4, right: window.innerWidth - rect.right });
+  };
+
+  const handleSelect = (spaceId: string, mode: SpaceTransferMode) => {
+    setPosition(null);
+    onSelect(spaceId, mode);
+  };
+
+  const renderSection = (title: string, targets: Pick<SpaceData, 'id' | 'name'>[], mode: SpaceTransferMode) => (
+    <>
+      <div className="px-3 py-1.5 text-xs font-semibold text-muted-foreground uppercase">{title}</div>
+      {targets.map((space) => (
+        <button
+          key={space.id}
+          onClick={() => handleSelect(space.id, mode)}
+          className="w-full flex items-center gap-2 px-3 py-1.5 text-sm rounded-md hover:bg-accent transition-colors text-left"
+          type="button"
+        >
+          {mode === 'move' ? <FolderInput className="w-4 h-4 flex-shrink-0" /> : <Copy className="w-4 h-4 flex-shrink-0" />}
+          <span className="truncate">
+            {space.name}
+            {space.id === currentSpaceId && <span className="text-muted-foreground"> (this space)</span>}
+          </span>
+        </button>
+      ))}
+    </>
+  );
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={handleToggle}
+        onMouseDown={(e) => e.stopPropagation()}
+        className={`p-1 rounded hover:bg-accent transition-colors ${position ? 'opacity-100' : className}`}
+        title="Move or duplicate to a space"
+        type="button"
+      >
+        <FolderInput className="w-4 h-4" />
+      </button>
+      {position &&
+        createPortal(
+          <div
+            ref={menuRef}
+            className="fixed w-56 p-1 bg-popover border border-border rounded-md shadow-lg z-[60] max-h-80 overflow-y-auto"
+            style={{ top: position.top, right: position.right }}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            {moveTargets.length > 0 && (
+              <>
+                {renderSection('Move to space…', moveTargets, 'move')}
+                <div className="border-t border-border my-1"></div>
+              </>
+            )}
+            {renderSection('Duplicate to space…', spaces, 'duplicate')}
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import {
+  getOriginPattern,
+  hasHostPermission,
+  requestHostPermissions,
+  subscribeToHostPermissions,
+} from '@/lib/host-permissions';
+
+/**
+ * Origin patterns of the URLs the extension has no access to, kept current as
+ * permissions are granted or revoked
+ * @returns null while checking
+ */
+export function useMissingOrigins(urls: string[]): string[] | null {
+  const [missing, setMissing] = useState<string[] | null>(null);
+  const patterns = Array.from(
+    new Set(urls.map((url) => getOriginPattern(url.trim())).filter((pattern): pattern is string => !!pattern))
+  );
+  const patternsKey = patterns.join(' ');
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = async () => {
+      const granted = await Promise.all(patterns.map(hasHostPermission));
+      if (!cancelled) setMissing(patterns.filter((_pattern, index) => !granted[index]));
+    };
+    check();
+    const unsubscribe = subscribeToHostPermissions(check);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [patternsKey]);
+
+  return patterns.length === 0 ? [] : missing;
+}
+
+/**
+ * Host name shown for an origin pattern, e.g. "youtrack.example.com"
+ */
+export function formatOrigin(pattern: string): string {
+  return pattern.replace(/^https?:\/\//, '').replace(/\/\*$/, '');
+}
+
+interface HostPermissionNoticeProps {
+  /** Server URLs of the config being edited */
+  urls: string[];
+}
+
+/**
+ * Notice of config modals asking access to the configured servers, hidden once granted
+ */
+export function HostPermissionNotice({ urls }: HostPermissionNoticeProps) {
+  const missing = useMissingOrigins(urls);
+
+  if (!missing || missing.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 text-xs rounded-md border border-amber-500/30 bg-amber-500/15 text-amber-700 dark:text-amber-300">
+      <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+      <span className="flex-1 min-w-0 break-words">
+        The extension needs access to {missing.map(formatOrigin).join(', ')}
+      </span>
+      <button
+        type="button"
+        onClick={() => requestHostPermissions(missing)}
+        className="px-2 py-1 font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 flex-shrink-0"
+      >
+        Allow
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AlertTriangle, KeyRound, Loader2, Upload, X } from 'lucide-react';
+import type { SpaceData } from '@/lib/storage';
+import {
+  getMissingSecrets,
+  unlockImportSecrets,
+  type ImportMode,
+  type ImportSelection,
+  type ParsedImport,
+} from '@/lib/import-export';
+import { pluginRegistry } from '@/lib/plugin-registry';
+
+interface ImportWizardProps {
+  importData: ParsedImport;
+  currentSpaces: SpaceData[];
+  onConfirm: (selections: ImportSelection[], mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const NEW_SPACE = '__new__';
+
+// Frame ids of an export file are not guaranteed unique across spaces
+const frameKey = (spaceId: string, frameId: string) => `${spaceId}/${frameId}`;
+
+export function ImportWizard({ importData: initialImportData, currentSpaces, onConfirm, onCancel }: ImportWizardProps) {
+  const [importData, setImportData] = useState(initialImportData);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [skipUnlock, setSkipUnlock] = useState(false);
+  // Values entered for secrets missing from the file, by frame key then config key
+  const [secretValues, setSecretValues] = useState<Record<string, Record<string, string>>>({});
+  const [selectedSpaceIds, setSelectedSpaceIds] = useState<Set<string>>(
+    () => new Set(importData.spaces.map((space) => space.id))
+  );
+  const [selectedFrameIds, setSelectedFrameIds] = useState<Set<string>>(
+    () => new Set(importData.spaces.flatMap((space) => space.frames
+      // Invalid frames are opt-in
+      .filter((frame) => !frame.quarantine)
+      .map((frame) => frameKey(space.id, frame.id))))
+  );
+  // Merge imported spaces into the existing space with the same name by default
+  const [targets, setTargets] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      importData.spaces.map((space) => [
+        space.id,
+        currentSpaces.find((s) => s.name === space.name)?.id ?? NEW_SPACE,
+      ])
+    )
+  );
+
+  const toggleSpace = (space: SpaceData) => {
+    const isSelected = selectedSpaceIds.has(space.id);
+    const nextSpaces = new Set(selectedSpaceIds);
+    const nextFrames = new Set(selectedFrameIds);
+
+    if (isSelected) {
+      nextSpaces.delete(space.id);
+      space.frames.forEach((frame) => nextFrames.delete(frameKey(space.id, frame.id)));
+    } else {
+      nextSpaces.add(space.id);
+      space.frames.forEach((frame) => nextFrames.add(frameKey(space.id, frame.id)));
+    }
+    setSelectedSpaceIds(nextSpaces);
+    setSelectedFrameIds(nextFrames);
+  };
+
+  const toggleFrame = (space: SpaceData, frameId: string) => {
+    const key = frameKey(space.id, frameId);
+    const nextFrames = new Set(selectedFrameIds);
+    if (nextFrames.has(key)) {
+      nextFrames.delete(key);
+    } else {
+      nextFrames.add(key);
+      setSelectedSpaceIds(new Set(selectedSpaceIds).add(space.id));
+    }
+    setSelectedFrameIds(nextFrames);
+  };
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setUnlockError(null);
+    try {
+      setImportData(await unlockImportSecrets(importData, passphrase));
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Failed to decrypt credentials.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const isLocked = !!importData.encryptedSecrets && !skipUnlock;
+
+  const selectedSpaces = importData.spaces
+    .filter((space) => selectedSpaceIds.has(space.id))
+    .map((space) => ({
+      ...space,
+      frames: space.frames.filter((frame) => selectedFrameIds.has(frameKey(space.id, frame.id))),
+    }));
+
+  const missingSecrets = isLocked
+    ? []
+    : selectedSpaces.flatMap((space) => space.frames
+      .map((frame) => ({ key: frameKey(space.id, frame.id), frame, fields: getMissingSecrets(frame) }))
+      .filter((entry) => entry.fields.length > 0));
+
+  const selections: ImportSelection[] = selectedSpaces.map((space) => ({
+    space: {
+      ...space,
+      frames: space.frames.map((frame) => {
+        const values = Object.entries(secretValues[frameKey(space.id, frame.id)] || {}).filter(([, value]) => value);
+        return values.length > 0 ? { ...frame, config: { ...frame.config, ...Object.fromEntries(values) } } : frame;
+      }),
+    },
+    targetSpaceId: mode === 'merge' && targets[space.id] !== NEW_SPACE ? targets[space.id] : undefined,
+  }));
+
+  const widgetCount = selections.reduce((total, selection) => total + selection.space.frames.length, 0);
+  const quarantineCount = selections.reduce(
+    (total, selection) => total + selection.space.frames.filter((frame) => frame.quarantine).length,
+    0
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selections.length === 0 || isLocked) return;
+
+    if (
+      mode === 'replace' &&
+      !confirm(`This will replace all your current spaces with ${selections.length} space(s) containing ${widgetCount} widget(s) in total. Continue?`)
+    ) {
+      return;
+    }
+    onConfirm(selections, mode);
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg shadow-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Import Dashboard</h2>
+          <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" type="button">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isLocked && (
+            <div className="p-3 border border-input rounded-md space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <KeyRound className="w-4 h-4" />
+                This file contains encrypted credentials
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleUnlock();
+                    }
+                  }}
+                  placeholder="Passphrase"
+                  className="flex-1 px-3 py-2 text-sm border border-input rounded-md bg-background"
+                  autoComplete="off"
+                  autoFocus
+                />
+                <button
+                  type="button"
+                  onClick={handleUnlock}
+                  disabled={!passphrase || isUnlocking}
+                  className="flex items-center gap-2 px-3 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Unlock
+                </button>
+              </div>
+              {unlockError && <p className="text-xs text-destructive">{unlockError}</p>}
+              <button
+                type="button"
+                onClick={() => setSkipUnlock(true)}
+                className="text-xs text-muted-foreground hover:text-foreground underline"
+              >
+                Continue without the encrypted credentials
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <label className={`flex-1 flex items-start gap-2 p-3 border rounded-md cursor-pointer ${mode === 'merge' ? 'border-primary' : 'border-input'}`}>
+              <input
+                type="radio"
+                name="mode"
+                checked={mode === 'merge'}
+                onChange={() => setMode('merge')}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium">Merge</span>
+                <span className="block text-xs text-muted-foreground">Add to my current dashboard</span>
+              </span>
+            </label>
+            <label className={`flex-1 flex items-start gap-2 p-3 border rounded-md cursor-pointer ${mode === 'replace' ? 'border-primary' : 'border-input'}`}>
+              <input
+                type="radio"
+                name="mode"
+                checked={mode === 'replace'}
+                onChange={() => setMode('replace')}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium">Replace</span>
+                <span className="block text-xs text-muted-foreground">Remove my current spaces</span>
+              </span>
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            {importData.spaces.map((space) => (
+              <div key={space.id} className="border border-border rounded-md">
+                <div className="flex items-center gap-2 px-3 py-2 bg-muted/50">
+                  <input
+                    type="checkbox"
+                    id={`import-space-${space.id}`}
+                    checked={selectedSpaceIds.has(space.id)}
+                    onChange={() => toggleSpace(space)}
+                  />
+                  <label htmlFor={`import-space-${space.id}`} className="flex-1 text-sm font-medium truncate">
+                    {space.name}
+                  </label>
+                  {mode === 'merge' && (
+                    <select
+                      value={targets[space.id]}
+                      onChange={(e) => setTargets({ ...targets, [space.id]: e.target.value })}
+                      disabled={!selectedSpaceIds.has(space.id)}
+                      className="px-2 py-1 text-xs border border-input rounded bg-background max-w-[45%]"
+                      aria-label={`Destination of ${space.name}`}
+                    >
+                      <option value={NEW_SPACE}>New space</option>
+                      {currentSpaces.map((target) => (
+                        <option key={target.id} value={target.id}>
+                          Into "{target.name}"
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                {space.frames.length === 0 ? (
+                  <p className="px-3 py-2 text-xs text-muted-foreground">No widgets</p>
+                ) : (
+                  <ul className="px-3 py-2 space-y-1">
+                    {space.frames.map((frame) => {
+                      const plugin = pluginRegistry.getPlugin(frame.pluginId);
+                      return (
+                        <li key={frame.id} className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              id={`import-frame-${space.id}-${frame.id}`}
+                              checked={selectedFrameIds.has(frameKey(space.id, frame.id))}
+                              onChange={() => toggleFrame(space, frame.id)}
+                            />
+                            {plugin?.IconComponent && <plugin.IconComponent className="w-3 h-3 text-muted-foreground" />}
+                            <label htmlFor={`import-frame-${space.id}-${frame.id}`} className="flex-1 truncate">
+                              {frame.name || plugin?.metadata.name || frame.pluginId}
+                            </label>
+                            {!plugin && <span className="text-xs text-destructive">Unknown widget</span>}
+                            {frame.quarantine && (
+                              <span className="text-xs text-amber-600 dark:text-amber-400">Invalid settings</span>
+                            )}
+                          </div>
+                          {frame.quarantine && (
+                            <ul className="ml-5 text-xs text-muted-foreground break-words">
+                              {frame.quarantine.map((error, index) => (
+                                <li key={index}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {importData.skippedFrames.length > 0 && (
+            <details className="p-3 border border-destructive/50 rounded-md text-sm">
+              <summary className="flex items-center gap-2 cursor-pointer">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                {importData.skippedFrames.length} widget(s) could not be read and will be skipped
+              </summary>
+              <ul className="mt-2 space-y-1 text-xs text-muted-foreground break-words">
+                {importData.skippedFrames.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          {quarantineCount > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {quarantineCount} selected widget(s) have invalid settings. They will be imported in quarantine and stay
+              disabled until you fix or reset their settings.
+            </p>
+          )}
+
+          {missingSecrets.length > 0 && (
+            <div className="space-y-3">
+              <div>
+                <h3 className="text-sm font-medium">Missing credentials</h3>
+                <p className="text-xs text-muted-foreground">
+                  These widgets were exported without their credentials. Fill them in now or later from the widget settings.
+                </p>
+              </div>
+              {missingSecrets.map(({ key, frame, fields }) => (
+                <div key={key} className="space-y-1">
+                  <div className="text-sm truncate">
+                    {frame.name || pluginRegistry.getPluginMetadata(frame.pluginId)?.name || frame.pluginId}
+                  </div>
+                  {fields.map((field) => (
+                    <input
+                      key={field}
+                      type="password"
+                      value={secretValues[key]?.[field] ?? ''}
+                      onChange={(e) => setSecretValues({
+                        ...secretValues,
+                        [key]: { ...secretValues[key], [field]: e.target.value },
+                      })}
+                      placeholder={field}
+                      aria-label={`${field} of ${frame.name || frame.pluginId}`}
+                      className="w-full px-3 py-2 text-sm border border-input rounded-md bg-background"
+                      autoComplete="off"
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-2">
+            <span className="text-xs text-muted-foreground">
+              {selections.length} space(s), {widgetCount} widget(s) selected
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={selections.length === 0 || isLocked}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Lock, Unlock } from 'lucide-react';
+import {
+  PIN_PATTERN,
+  getLockStatus,
+  setDashboardLocked,
+  setLockPin,
+  setSpaceLocked,
+  subscribeToLock,
+  type LockStatus,
+} from '@/lib/lock';
+import type { SpaceData } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import { UnlockDialog } from './UnlockDialog';
+
+const logger = createLogger('Lock');
+
+interface LockSettingsProps {
+  spaces: SpaceData[];
+}
+
+interface PendingUnlock {
+  target: string;
+  unlock: (pin: string) => Promise<void>;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Lock toggles of the dashboard and each space, and the PIN asked to unlock them, see lock.ts
+ */
+export function LockSettings({ spaces }: LockSettingsProps) {
+  const [status, setStatus] = useState<LockStatus | null>(null);
+  const [pendingUnlock, setPendingUnlock] = useState<PendingUnlock | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const refresh = () =>
+      getLockStatus()
+        .then(setStatus)
+        .catch((error) => logger.error('Failed to load lock status:', error));
+    refresh();
+    return subscribeToLock(refresh);
+  }, []);
+
+  const handleToggle = async (target: string, isLocked: boolean, setLocked: (locked: boolean, pin?: string) => Promise<void>) => {
+    if (isLocked && status?.hasPin) {
+      setPendingUnlock({
+        target,
+        unlock: async (pin) => {
+          await setLocked(false, pin);
+          setPendingUnlock(null);
+        },
+      });
+      return;
+    }
+    try {
+      await setLocked(!isLocked);
+    } catch (error) {
+      logger.error('Failed to change lock:', error);
+      alert('Failed to change the lock');
+    }
+  };
+
+  const handleSavePin = async (pin: string | null) => {
+    setIsSaving(true);
+    setPinError(null);
+    try {
+      await setLockPin(pin, currentPin);
+      setCurrentPin('');
+      setNewPin('');
+    } catch (error) {
+      setPinError(error instanceof Error ? error.message : 'Failed to save the PIN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const renderToggle = (
+    key: string,
+    label: string,
+    target: string,
+    isLocked: boolean,
+    setLocked: (locked: boolean, pin?: string) => Promise<void>,
+    disabled = false
+  ) => (
+    <div key={key} className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-accent">
+      <span className={`text-sm truncate ${disabled ? 'text-muted-foreground' : ''}`}>{label}</span>
+      <button
+        onClick={() => handleToggle(target, isLocked, setLocked)}
+        disabled={disabled}
+        className={`flex items-center gap-1 text-xs flex-shrink-0 hover:underline disabled:opacity-50 disabled:no-underline ${
+          isLocked ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'
+        }`}
+        title={disabled ? 'Locked with the whole dashboard' : isLocked ? 'Unlock' : 'Lock'}
+        type="button"
+      >
+        {isLocked ? <Lock className="w-3.5 h-3.5" /> : <Unlock className="w-3.5 h-3.5" />}
+        {isLocked ? 'Locked' : 'Unlocked'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Lock
+      </div>
+      <p className="px-3 pb-2 text-xs text-muted-foreground">
+        Locked widgets can't be moved, resized, deleted or configured. The lock applies to this device only.
+      </p>
+      {renderToggle('dashboard', 'Whole dashboard', 'the dashboard', status.isDashboardLocked, setDashboardLocked)}
+      <div className="max-h-48 overflow-y-auto">
+        {spaces.map((space) =>
+          renderToggle(
+            space.id,
+            space.name,
+            `"${space.name}"`,
+            status.isDashboardLocked || status.lockedSpaceIds.includes(space.id),
+            (locked, pin) => setSpaceLocked(space.id, locked, pin),
+            status.isDashboardLocked
+          )
+        )}
+      </div>
+
+      <div className="border-t border-border my-1"></div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (PIN_PATTERN.test(newPin)) handleSavePin(newPin);
+        }}
+        className="px-3 py-2 space-y-2"
+      >
+        <p className="text-xs text-muted-foreground">
+          {status.hasPin
+            ? 'A PIN is asked to unlock.'
+            : 'Set a PIN to ask for it before unlocking, e.g. on a shared screen.'}
+        </p>
+        {status.hasPin && (
+          <input
+            type="password"
+            inputMode="numeric"
+            value={currentPin}
+            onChange={(e) => setCurrentPin(e.target.value)}
+            placeholder="Current PIN"
+            className={inputClassName}
+            autoComplete="off"
+          />
+        )}
+        <input
+          type="password"
+          inputMode="numeric"
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value)}
+          placeholder={status.hasPin ? 'New PIN' : 'PIN, 4 to 12 digits'}
+          className={inputClassName}
+          autoComplete="off"
+        />
+        {newPin && !PIN_PATTERN.test(newPin) && <p className="text-xs text-destructive">Use 4 to 12 digits</p>}
+        {pinError && <p className="text-xs text-destructive">{pinError}</p>}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={!PIN_PATTERN.test(newPin) || (status.hasPin && !currentPin) || isSaving}
+            className="flex-1 px-3 py-1 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {status.hasPin ? 'Change PIN' : 'Set PIN'}
+          </button>
+          {status.hasPin && (
+            <button
+              type="button"
+              onClick={() => handleSavePin(null)}
+              disabled={!currentPin || isSaving}
+              className="px-3 py-1 text-sm rounded border border-input hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </form>
+
+      {pendingUnlock && (
+        <UnlockDialog
+          target={pendingUnlock.target}
+          onUnlock={pendingUnlock.unlock}
+          onCancel={() => setPendingUnlock(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { resolveConnection } from '@/lib/connections';
+import {
+  getConfigOrigins,
+  getGrantedOrigins,
+  hasHostPermission,
+  requestHostPermissions,
+  revokeHostPermission,
+  subscribeToHostPermissions,
+} from '@/lib/host-permissions';
+import type { SpaceData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { createLogger } from '@/lib/logger';
+import { formatOrigin } from './HostPermissionNotice';
+
+const logger = createLogger('Permissions');
+
+interface PermissionSettingsProps {
+  spaces: SpaceData[];
+}
+
+interface OriginUsage {
+  /** Origin pattern, e.g. "https://youtrack.example.com/*" */
+  origin: string;
+  isGranted: boolean;
+  /** Widget and space names of the frames requesting the origin */
+  widgets: string[];
+}
+
+// Origins requested by the frames of every space, with their connection values
+async function getOriginUsages(spaces: SpaceData[]): Promise<OriginUsage[]> {
+  const widgetsByOrigin = new Map<string, string[]>();
+  for (const space of spaces) {
+    for (const frame of space.frames) {
+      const plugin = pluginRegistry.getPlugin(frame.pluginId);
+      if (!plugin?.hostFields) continue;
+
+      const config = await resolveConnection(frame.config);
+      const widgetName = frame.name || plugin.metadata.name;
+      getConfigOrigins(plugin.hostFields, config).forEach((origin) => {
+        widgetsByOrigin.set(origin, [...(widgetsByOrigin.get(origin) ?? []), `${widgetName} · ${space.name}`]);
+      });
+    }
+  }
+
+  const granted = await getGrantedOrigins();
+  // Origins covered by the manifest can't be revoked and are left out
+  const missing: string[] = [];
+  for (const origin of widgetsByOrigin.keys()) {
+    if (!granted.includes(origin) && !(await hasHostPermission(origin))) missing.push(origin);
+  }
+  return [...granted, ...missing].sort().map((origin) => ({
+    origin,
+    isGranted: granted.includes(origin),
+    widgets: widgetsByOrigin.get(origin) ?? [],
+  }));
+}
+
+/**
+ * Servers the extension was given access to, with the widgets using them, see host-permissions.ts
+ */
+export function PermissionSettings({ spaces }: PermissionSettingsProps) {
+  const [usages, setUsages] = useState<OriginUsage[] | null>(null);
+
+  useEffect(() => {
+    const refresh = () =>
+      getOriginUsages(spaces)
+        .then(setUsages)
+        .catch((error) => logger.error('Failed to load permissions:', error));
+    refresh();
+    return subscribeToHostPermissions(refresh);
+  }, [spaces]);
+
+  const handleRevoke = async (usage: OriginUsage) => {
+    if (
+      usage.widgets.length > 0 &&
+      !confirm(
+        `Revoke access to ${formatOrigin(usage.origin)}? ${usage.widgets.length} widget(s) will ask for it again.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await revokeHostPermission(usage.origin);
+    } catch (error) {
+      logger.error('Failed to revoke permission:', error);
+      alert('Failed to revoke access');
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Host Permissions
+      </div>
+      {usages === null ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {usages.length === 0 && (
+            <p className="px-3 py-2 text-xs text-muted-foreground">No server configured yet</p>
+          )}
+          <div className="max-h-80 overflow-y-auto">
+            {usages.map((usage) => (
+              <div key={usage.origin} className="px-3 py-2 hover:bg-accent flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm truncate" title={usage.origin}>{formatOrigin(usage.origin)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {usage.widgets.length > 0 ? usage.widgets.join(', ') : 'Not used by any widget'}
+                  </div>
+                </div>
+                {usage.isGranted ? (
+                  <button
+                    onClick={() => handleRevoke(usage)}
+                    className="text-xs text-destructive hover:underline flex-shrink-0"
+                    type="button"
+                  >
+                    Revoke
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => requestHostPermissions([usage.origin])}
+                    className="text-xs text-primary hover:underline flex-shrink-0"
+                    type="button"
+                  >
+                    Allow
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="px-3 py-2 text-xs text-muted-foreground">
+            Access to a server is asked when a widget or connection using it is saved.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
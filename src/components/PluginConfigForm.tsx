@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import type { Plugin, PluginComponentProps, PluginConfig, PluginConfigField } from '@/types/plugin';
+import { normalizeConfigValue, validateConfigFields } from '@/lib/plugin-config';
+import { CONNECTION_ID_KEY, getConnectionId } from '@/lib/connections';
+import { CacheDurationField } from './CacheDurationField';
+import { ConnectionPicker } from './ConnectionPicker';
+
+interface PluginConfigModalProps {
+  plugin: Plugin;
+  config: PluginConfig;
+  onSave: (config: PluginConfig) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-input rounded-md bg-background';
+
+function getInitialValue(field: PluginConfigField, config: PluginConfig): unknown {
+  const value = config[field.key] ?? field.default;
+  if (field.type === 'boolean') return !!value;
+  return value ?? '';
+}
+
+/**
+ * Config modal generated from the config fields of a plugin
+ * Fields provided by a connection are hidden while one is selected.
+ */
+export function PluginConfigModal({ plugin, config, onSave, onClose }: PluginConfigModalProps) {
+  const fields = plugin.configFields || [];
+  const [values, setValues] = useState<PluginConfig>(() =>
+    Object.fromEntries(fields.map((field) => [field.key, getInitialValue(field, config)]))
+  );
+  const [connectionId, setConnectionId] = useState<string | undefined>(getConnectionId(config));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const connectionKeys = connectionId ? (plugin.connection?.fields || []).map((field) => field.key) : [];
+  const visibleFields = fields.filter((field) => !connectionKeys.includes(field.key));
+
+  const setValue = (key: string, value: unknown) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const handleConnectionChange = (id: string | undefined, connectionValues: PluginConfig | null) => {
+    setConnectionId(id);
+    // Switching back to custom settings starts from the connection values
+    if (connectionValues) {
+      setValues((prev) => ({ ...prev, ...connectionValues }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const next: PluginConfig = { ...config, [CONNECTION_ID_KEY]: connectionId };
+    fields.forEach((field) => {
+      next[field.key] = normalizeConfigValue(field, values[field.key]);
+    });
+
+    const nextErrors = validateConfigFields(fields, next, connectionKeys);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) {
+      onSave(next);
+    }
+  };
+
+  const renderInput = (field: PluginConfigField) => {
+    const value = values[field.key];
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            id={field.key}
+            value={String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            rows={3}
+            className={inputClassName}
+          />
+        );
+      case 'boolean':
+        return (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              id={field.key}
+              type="checkbox"
+              checked={!!value}
+              onChange={(e) => setValue(field.key, e.target.checked)}
+            />
+            {field.label}
+          </label>
+        );
+      case 'select':
+        return (
+          <select
+            id={field.key}
+            value={String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            className={inputClassName}
+          >
+            {(field.options || []).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'number':
+      case 'integer':
+        return (
+          <input
+            id={field.key}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.type === 'integer' ? 1 : 'any'}
+            value={value as number | ''}
+            onChange={(e) => setValue(field.key, e.target.value === '' ? '' : Number(e.target.value))}
+            placeholder={field.placeholder}
+            className={inputClassName}
+          />
+        );
+      default:
+        return (
+          <input
+            id={field.key}
+            type={field.secret ? 'password' : field.type === 'url' ? 'url' : 'text'}
+            value={String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            autoComplete={field.secret ? 'new-password' : undefined}
+            className={inputClassName}
+          />
+        );
+    }
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-lg shadow-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Configure {plugin.metadata.name}</h2>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          {plugin.connection && (
+            <ConnectionPicker pluginId={plugin.metadata.id} value={connectionId} onChange={handleConnectionChange} />
+          )}
+
+          {visibleFields.map((field) =>
+            field.type === 'cacheDuration' ? (
+              <CacheDurationField
+                key={field.key}
+                value={Number(values[field.key]) || 0}
+                onChange={(value) => setValue(field.key, value)}
+                label={field.label}
+                helpText={field.description}
+              />
+            ) : (
+              <div key={field.key}>
+                {field.type !== 'boolean' && (
+                  <label htmlFor={field.key} className="text-sm font-medium mb-2 block">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </label>
+                )}
+                {renderInput(field)}
+                {errors[field.key] ? (
+                  <p className="text-xs text-destructive mt-1">{errors[field.key]}</p>
+                ) : field.description ? (
+                  <p className="text-xs text-muted-foreground mt-1">{field.description}</p>
+                ) : null}
+              </div>
+            )
+          )}
+
+          <div className="flex gap-2 justify-end pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
+
+/**
+ * Edit view of plugins declaring configFields without an EditView
+ */
+export function PluginConfigEditView({ plugin, config, onConfigChange, isEditing, onExitEditMode }: PluginComponentProps & { plugin: Plugin }) {
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    if (isEditing) {
+      setShowModal(true);
+    }
+  }, [isEditing]);
+
+  const handleSave = (newConfig: PluginConfig) => {
+    onConfigChange(newConfig);
+    setShowModal(false);
+    onExitEditMode();
+  };
+
+  const handleClose = () => {
+    setShowModal(false);
+    onExitEditMode();
+  };
+
+  if (!showModal) {
+    return (
+      <div className="flex items-center justify-center h-full p-4">
+        <p className="text-sm text-muted-foreground">Click the gear icon to configure</p>
+      </div>
+    );
+  }
+
+  return <PluginConfigModal plugin={plugin} config={config} onSave={handleSave} onClose={handleClose} />;
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { clearRequestLog, getRequestLog, subscribeToRequestLog, type RequestLogEntry } from '@/lib/http-client';
+import { formatUrlPath } from '@/lib/format';
+import { isDebugLogging, setDebugLogging } from '@/lib/logger';
+
+function getStatusClassName(entry: RequestLogEntry): string {
+  if (entry.error) return 'text-destructive';
+  return entry.attempts > 1 ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400';
+}
+
+interface RequestLogItemProps {
+  entry: RequestLogEntry;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * Request of the log, expanded to show its full URL, trace id and error
+ */
+export function RequestLogItem({ entry, isExpanded, onToggle }: RequestLogItemProps) {
+  return (
+    <button
+      onClick={onToggle}
+      className="w-full px-3 py-1.5 text-left rounded-md hover:bg-accent transition-colors"
+      type="button"
+    >
+      <div className="flex items-center gap-2 text-xs">
+        <span className={`font-mono flex-shrink-0 ${getStatusClassName(entry)}`}>
+          {entry.status ?? 'ERR'}
+        </span>
+        <span className="font-mono text-muted-foreground flex-shrink-0">{entry.method}</span>
+        <span className="truncate" title={entry.url}>{formatUrlPath(entry.url)}</span>
+      </div>
+      <div className="text-[10px] text-muted-foreground">
+        {entry.source} · {new Date(entry.startedAt).toLocaleTimeString()} · {entry.durationMs} ms
+        {entry.attempts > 1 && ` · ${entry.attempts} attempts`}
+      </div>
+      {isExpanded && (
+        <div className="mt-1 space-y-0.5 text-[10px] text-muted-foreground break-all">
+          <div>{entry.url}</div>
+          <div>Trace id: <span className="font-mono">{entry.traceId}</span></div>
+          {entry.error && <div className="text-destructive">{entry.error}</div>}
+        </div>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Requests made by the plugins of this tab, see http-client.ts, and the debug logging toggle
+ */
+export function RequestLogSettings() {
+  const [entries, setEntries] = useState<RequestLogEntry[]>(getRequestLog);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [debugLogging, setDebugLoggingState] = useState(isDebugLogging);
+
+  useEffect(() => subscribeToRequestLog(() => setEntries(getRequestLog())), []);
+
+  const handleDebugLoggingChange = (enabled: boolean) => {
+    setDebugLogging(enabled);
+    setDebugLoggingState(enabled);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-3 py-2">
+        <span className="text-xs font-semibold text-muted-foreground uppercase">Request Log</span>
+        {entries.length > 0 && (
+          <button
+            onClick={clearRequestLog}
+            className="p-1 rounded hover:bg-accent transition-colors"
+            title="Clear log"
+            type="button"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      {entries.length === 0 && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">No requests yet</p>
+      )}
+      <div className="max-h-80 overflow-y-auto">
+        {entries.map((entry) => (
+          <RequestLogItem
+            key={entry.traceId}
+            entry={entry}
+            isExpanded={expandedId === entry.traceId}
+            onToggle={() => setExpandedId(expandedId === entry.traceId ? null : entry.traceId)}
+          />
+        ))}
+      </div>
+      <div className="border-t border-border my-1"></div>
+      <label className="flex items-center gap-2 px-3 py-2 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={debugLogging}
+          onChange={(e) => handleDebugLoggingChange(e.target.checked)}
+        />
+        Debug logs in the browser console
+      </label>
+    </div>
+  );
+}
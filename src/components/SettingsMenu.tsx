@@ -1,6 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
-import { Settings, Plus, Moon, Sun, Monitor, Download, Upload, FolderPlus, Trash2, Pencil } from 'lucide-react';
+import { Settings, Plus, Moon, Sun, Monitor, Download, Upload, FolderPlus, Trash2, Pencil, Database, History, KeyRound, Plug, Activity, ShieldCheck, SlidersHorizontal, LayoutGrid, Lock } from 'lucide-react';
 import { loadTheme, saveTheme, type Theme, type SpaceData, createSpace, loadDashboardData, renameSpace } from '../lib/storage';
+import { StorageSettings } from './StorageSettings';
+import { CacheSettings } from './CacheSettings';
+import { RequestLogSettings } from './RequestLogSettings';
+import { SnapshotSettings } from './SnapshotSettings';
+import { CredentialVaultSettings } from './CredentialVaultSettings';
+import { ConnectionSettings } from './ConnectionSettings';
+import { PermissionSettings } from './PermissionSettings';
+import { LockSettings } from './LockSettings';
+import type { Snapshot } from '../lib/snapshots';
+import { isSpaceLocked, type LockStatus } from '@/lib/lock';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Spaces');
+
+type MenuView = 'main' | 'spaces' | 'storage' | 'snapshots' | 'credentials' | 'connections' | 'permissions' | 'requests' | 'lock';
 
 interface SettingsMenuProps {
   onAddWidget: () => void;
@@ -9,11 +24,18 @@ interface SettingsMenuProps {
   spaces?: SpaceData[];
   onSpacesUpdate?: (spaces: SpaceData[]) => void;
   onDeleteSpaceRequest?: (spaceId: string) => void;
+  onSpaceLayoutRequest?: (spaceId: string) => void;
+  /** Hidden when undefined, e.g. for an empty space */
+  onAutoArrange?: () => void;
+  onRestoreSnapshot?: (snapshot: Snapshot) => Promise<void>;
+  /** Editing entries are hidden while the active space or the whole dashboard is locked */
+  lockStatus?: LockStatus;
+  isLocked?: boolean;
 }
 
-export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onSpacesUpdate, onDeleteSpaceRequest }: SettingsMenuProps) {
+export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onSpacesUpdate, onDeleteSpaceRequest, onSpaceLayoutRequest, onAutoArrange, onRestoreSnapshot, lockStatus, isLocked = false }: SettingsMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [showSpaces, setShowSpaces] = useState(false);
+  const [view, setView] = useState<MenuView>('main');
   const [theme, setTheme] = useState<Theme>('light');
   const [newSpaceName, setNewSpaceName] = useState('');
   const [editingSpaceId, setEditingSpaceId] = useState<string | null>(null);
@@ -56,7 +78,7 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
     function handleClickOutside(event: MouseEvent) {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
         setIsOpen(false);
-        setShowSpaces(false);
+        setView('main');
       }
     }
 
@@ -79,10 +101,10 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
         onSpacesUpdate(updatedData.spaces);
       }
       setNewSpaceName('');
-      setShowSpaces(false);
+      setView('main');
       setIsOpen(false);
     } catch (error) {
-      console.error('Failed to create space:', error);
+      logger.error('Failed to create space:', error);
       alert('Failed to create space');
     }
   };
@@ -124,7 +146,7 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
       setEditingSpaceId(null);
       setEditingSpaceName('');
     } catch (error) {
-      console.error('Failed to rename space:', error);
+      logger.error('Failed to rename space:', error);
       alert('Failed to rename space');
     }
   };
@@ -140,6 +162,7 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
   const themeBadges: Record<string, string> = { light: 'Light', dark: 'Dark', system: 'Auto' };
   const themeLabel = themeLabels[theme];
   const themeBadge = themeBadges[theme];
+  const isDashboardLocked = !!lockStatus?.isDashboardLocked;
 
   return (
     <div className="relative" ref={menuRef}>
@@ -154,27 +177,53 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
       {isOpen && (
         <div className="absolute right-0 top-full mt-2 w-64 bg-popover border border-border rounded-md shadow-lg z-50">
           <div className="p-1">
-            {!showSpaces ? (
+            {view === 'main' && (
               <>
+                {!isLocked && (
+                  <button
+                    onClick={() => {
+                      onAddWidget();
+                      setIsOpen(false);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Widget
+                  </button>
+                )}
+                {onAutoArrange && !isLocked && (
+                  <button
+                    onClick={() => {
+                      onAutoArrange();
+                      setIsOpen(false);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  >
+                    <LayoutGrid className="w-4 h-4" />
+                    Auto-arrange
+                  </button>
+                )}
+                {!isLocked && <div className="border-t border-border my-1"></div>}
+                {!isDashboardLocked && (
+                  <button
+                    onClick={() => {
+                      setView('spaces');
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  >
+                    <FolderPlus className="w-4 h-4" />
+                    Manage Spaces
+                  </button>
+                )}
                 <button
-                  onClick={() => {
-                    onAddWidget();
-                    setIsOpen(false);
-                  }}
-                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
-                >
-                  <Plus className="w-4 h-4" />
-                  Add Widget
-                </button>
-                <div className="border-t border-border my-1"></div>
-                <button
-                  onClick={() => {
-                    setShowSpaces(true);
-                  }}
-                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  onClick={() => setView('lock')}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
                 >
-                  <FolderPlus className="w-4 h-4" />
-                  Manage Spaces
+                  <span className="flex items-center gap-2">
+                    <Lock className="w-4 h-4" />
+                    Lock
+                  </span>
+                  {isLocked && <span className="text-xs text-muted-foreground">On</span>}
                 </button>
                 <div className="border-t border-border my-1"></div>
                 <button
@@ -202,25 +251,162 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
                   <Download className="w-4 h-4" />
                   Export Dashboard
                 </button>
+                {!isDashboardLocked && (
+                  <button
+                    onClick={() => {
+                      onImport();
+                      setIsOpen(false);
+                    }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import Dashboard
+                  </button>
+                )}
+                {onRestoreSnapshot && !isDashboardLocked && (
+                  <button
+                    onClick={() => setView('snapshots')}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                  >
+                    <History className="w-4 h-4" />
+                    Restore Snapshot
+                  </button>
+                )}
+                {!isDashboardLocked && (
+                  <>
+                    <button
+                      onClick={() => setView('credentials')}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      Credentials
+                    </button>
+                    <button
+                      onClick={() => setView('connections')}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                    >
+                      <Plug className="w-4 h-4" />
+                      Connections
+                    </button>
+                    <button
+                      onClick={() => setView('permissions')}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                    >
+                      <ShieldCheck className="w-4 h-4" />
+                      Permissions
+                    </button>
+                    <button
+                      onClick={() => setView('storage')}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
+                    >
+                      <Database className="w-4 h-4" />
+                      Storage
+                    </button>
+                  </>
+                )}
                 <button
-                  onClick={() => {
-                    onImport();
-                    setIsOpen(false);
-                  }}
+                  onClick={() => setView('requests')}
                   className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left"
                 >
-                  <Upload className="w-4 h-4" />
-                  Import Dashboard
+                  <Activity className="w-4 h-4" />
+                  Request Log
                 </button>
                 <div className="border-t border-border my-1"></div>
                 <div className="px-3 py-2 text-xs text-muted-foreground">
                   Dashboard v1.0.0
                 </div>
               </>
-            ) : (
+            )}
+            {view === 'storage' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <StorageSettings />
+                <div className="border-t border-border my-1"></div>
+                <CacheSettings spaces={spaces} />
+              </>
+            )}
+            {view === 'requests' && (
               <>
                 <button
-                  onClick={() => setShowSpaces(false)}
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <RequestLogSettings />
+              </>
+            )}
+            {view === 'credentials' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <CredentialVaultSettings spaces={spaces} />
+              </>
+            )}
+            {view === 'connections' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <ConnectionSettings spaces={spaces} />
+              </>
+            )}
+            {view === 'permissions' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <PermissionSettings spaces={spaces} />
+              </>
+            )}
+            {view === 'lock' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <LockSettings spaces={spaces} />
+              </>
+            )}
+            {view === 'snapshots' && onRestoreSnapshot && (
+              <>
+                <button
+                  onClick={() => setView('main')}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
+                >
+                  <span className="text-xs">← Back</span>
+                </button>
+                <div className="border-t border-border my-1"></div>
+                <SnapshotSettings spaces={spaces} onRestore={onRestoreSnapshot} />
+              </>
+            )}
+            {view === 'spaces' && (
+              <>
+                <button
+                  onClick={() => setView('main')}
                   className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left mb-1"
                 >
                   <span className="text-xs">← Back</span>
@@ -260,60 +446,82 @@ export function SettingsMenu({ onAddWidget, onExport, onImport, spaces = [], onS
                   Spaces ({spaces.length})
                 </div>
                 <div className="max-h-64 overflow-y-auto">
-                  {spaces.map((space) => (
-                    <div
-                      key={space.id}
-                      className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-accent group"
-                    >
-                      {editingSpaceId === space.id ? (
-                        <input
-                          ref={editingInputRef}
-                          type="text"
-                          value={editingSpaceName}
-                          onChange={(e) => setEditingSpaceName(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              handleSaveRename(space.id);
-                            } else if (e.key === 'Escape') {
-                              handleCancelRename();
-                            }
-                          }}
-                          onBlur={() => handleSaveRename(space.id)}
-                          className="flex-1 px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
-                          onClick={(e) => e.stopPropagation()}
-                        />
-                      ) : (
-                        <>
-                          <span className="text-sm flex-1 truncate">{space.name}</span>
-                          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleStartRename(space);
-                              }}
-                              className="p-1 rounded hover:bg-accent transition-colors"
-                              title="Rename space"
-                              type="button"
-                            >
-                              <Pencil className="w-3.5 h-3.5" />
-                            </button>
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeleteSpace(space.id);
-                              }}
-                              disabled={spaces.length <= 1}
-                              className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors disabled:opacity-0 disabled:cursor-not-allowed"
-                              title={spaces.length <= 1 ? 'Cannot delete the last space' : 'Delete space'}
-                              type="button"
-                            >
-                              <Trash2 className="w-3.5 h-3.5" />
-                            </button>
-                          </div>
-                        </>
-                      )}
-                    </div>
-                  ))}
+                  {spaces.map((space) => {
+                    const isLockedSpace = !!lockStatus && isSpaceLocked(lockStatus, space.id);
+                    return (
+                      <div
+                        key={space.id}
+                        className="flex items-center justify-between gap-2 px-3 py-2 hover:bg-accent group"
+                      >
+                        {editingSpaceId === space.id ? (
+                          <input
+                            ref={editingInputRef}
+                            type="text"
+                            value={editingSpaceName}
+                            onChange={(e) => setEditingSpaceName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                handleSaveRename(space.id);
+                              } else if (e.key === 'Escape') {
+                                handleCancelRename();
+                              }
+                            }}
+                            onBlur={() => handleSaveRename(space.id)}
+                            className="flex-1 px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
+                            onClick={(e) => e.stopPropagation()}
+                          />
+                        ) : (
+                          <>
+                            <span className="text-sm flex-1 truncate">{space.name}</span>
+                            {isLockedSpace && (
+                              <span title="Locked" className="flex-shrink-0">
+                                <Lock className="w-3.5 h-3.5 text-muted-foreground" />
+                              </span>
+                            )}
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleStartRename(space);
+                                }}
+                                className="p-1 rounded hover:bg-accent transition-colors"
+                                title="Rename space"
+                                type="button"
+                              >
+                                <Pencil className="w-3.5 h-3.5" />
+                              </button>
+                              {onSpaceLayoutRequest && !isLockedSpace && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onSpaceLayoutRequest(space.id);
+                                    setIsOpen(false);
+                                  }}
+                                  className="p-1 rounded hover:bg-accent transition-colors"
+                                  title="Layout settings"
+                                  type="button"
+                                >
+                                  <SlidersHorizontal className="w-3.5 h-3.5" />
+                                </button>
+                              )}
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteSpace(space.id);
+                                }}
+                                disabled={spaces.length <= 1 || isLockedSpace}
+                                className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors disabled:opacity-0 disabled:cursor-not-allowed"
+                                title={spaces.length <= 1 ? 'Cannot delete the last space' : isLockedSpace ? 'Unlock the space to delete it' : 'Delete space'}
+                                type="button"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </>
             )}
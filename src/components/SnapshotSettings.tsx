@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { GitCompare, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  deleteSnapshot,
+  diffSpaces,
+  listSnapshots,
+  loadSnapshot,
+  type Snapshot,
+  type SnapshotDiffEntry,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from '@/lib/snapshots';
+import type { SpaceData } from '@/lib/storage';
+import { pluginRegistry } from '@/lib/plugin-registry';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Snapshots');
+
+interface SnapshotSettingsProps {
+  spaces: SpaceData[];
+  onRestore: (snapshot: Snapshot) => Promise<void>;
+}
+
+const reasonLabels: Record<SnapshotReason, string> = {
+  periodic: 'Automatic',
+  'pre-import': 'Before import',
+  'pre-restore': 'Before restore',
+};
+
+const changeLabels: Record<SnapshotDiffEntry['change'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+const changeColors: Record<SnapshotDiffEntry['change'], string> = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-destructive',
+  changed: 'text-amber-600 dark:text-amber-400',
+};
+
+function describeDiffEntry(entry: SnapshotDiffEntry): string {
+  if (entry.target === 'space') {
+    return `Space "${entry.spaceName}"`;
+  }
+  const pluginName = entry.frame ? pluginRegistry.getPluginMetadata(entry.frame.pluginId)?.name : undefined;
+  const widgetName = entry.frame?.name || pluginName || entry.frame?.pluginId || 'Widget';
+  return `${widgetName} in "${entry.spaceName}"`;
+}
+
+export function SnapshotSettings({ spaces, onRestore }: SnapshotSettingsProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [comparedId, setComparedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiffEntry[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSnapshots().then(setSnapshots);
+  }, []);
+
+  const handleCompare = async (id: string) => {
+    if (comparedId === id) {
+      setComparedId(null);
+      return;
+    }
+    const snapshot = await loadSnapshot(id);
+    if (!snapshot) {
+      alert('This snapshot could not be read.');
+      return;
+    }
+    setDiff(diffSpaces(spaces, snapshot.data.spaces));
+    setComparedId(id);
+  };
+
+  const handleRestore = async (info: SnapshotInfo) => {
+    if (!confirm(`Restore the snapshot from ${new Date(info.createdAt).toLocaleString()}? Your current dashboard will be snapshotted first.`)) {
+      return;
+    }
+
+    setRestoringId(info.id);
+    try {
+      const snapshot = await loadSnapshot(info.id);
+      if (!snapshot) {
+        throw new Error('Snapshot not found');
+      }
+      await onRestore(snapshot);
+      setSnapshots(await listSnapshots());
+      setComparedId(null);
+    } catch (error) {
+      logger.error('Failed to restore snapshot:', error);
+      alert('Failed to restore snapshot');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteSnapshot(id);
+    setSnapshots(await listSnapshots());
+    if (comparedId === id) {
+      setComparedId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Restore Snapshot
+      </div>
+      {snapshots === null && (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {snapshots?.length === 0 && (
+        <p className="px-3 py-2 text-xs text-muted-foreground">No snapshots yet</p>
+      )}
+      <div className="max-h-80 overflow-y-auto">
+        {snapshots?.map((snapshot) => (
+          <div key={snapshot.id} className="px-3 py-2 hover:bg-accent group">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="text-sm truncate">{new Date(snapshot.createdAt).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">
+                  {reasonLabels[snapshot.reason]} · {snapshot.spaceCount} space(s) · {snapshot.widgetCount} widget(s)
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => handleCompare(snapshot.id)}
+                  className={`p-1 rounded hover:bg-background transition-colors ${comparedId === snapshot.id ? 'text-primary' : ''}`}
+                  title="Compare with current dashboard"
+                  type="button"
+                >
+                  <GitCompare className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={!!restoringId}
+                  className="p-1 rounded hover:bg-background transition-colors disabled:opacity-50"
+                  title="Restore snapshot"
+                  type="button"
+                >
+                  {restoringId === snapshot.id ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  )}
+                </button>
+                <button
+                  onClick={() => handleDelete(snapshot.id)}
+                  className="p-1 rounded hover:bg-destructive/20 hover:text-destructive transition-colors opacity-0 group-hover:opacity-100"
+                  title="Delete snapshot"
+                  type="button"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            {comparedId === snapshot.id && (
+              <ul className="mt-2 space-y-0.5 text-xs">
+                {diff.length === 0 && <li className="text-muted-foreground">Identical to the current dashboard</li>}
+                {diff.map((entry, index) => (
+                  <li key={index} className="flex gap-1">
+                    <span className={`font-mono ${changeColors[entry.change]}`}>{changeLabels[entry.change]}</span>
+                    <span className="truncate">{describeDiffEntry(entry)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
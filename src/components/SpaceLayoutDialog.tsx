@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import {
+  MAX_GRID_COLS,
+  MIN_GRID_COLS,
+  getSpaceLayout,
+  type CompactionMode,
+  type SpaceLayoutSettings,
+} from '@/lib/layout';
+import type { SpaceData } from '@/lib/storage';
+
+interface SpaceLayoutDialogProps {
+  space: SpaceData;
+  onSave: (settings: SpaceLayoutSettings) => void;
+  onCancel: () => void;
+}
+
+const MIN_ROW_HEIGHT = 20;
+const MAX_ROW_HEIGHT = 200;
+const MAX_GAP = 40;
+const MIN_MAX_WIDTH = 480;
+const DEFAULT_BACKGROUND = '#f1f5f9';
+
+const compactionOptions: { mode: CompactionMode; label: string }[] = [
+  { mode: 'none', label: 'None, widgets stay where they are dropped' },
+  { mode: 'vertical', label: 'Vertical, widgets move up to fill gaps' },
+  { mode: 'horizontal', label: 'Horizontal, widgets move left to fill gaps' },
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-input rounded-md bg-background';
+
+function isIntegerBetween(value: string, min: number, max: number): boolean {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isInteger(number) && number >= min && number <= max;
+}
+
+/**
+ * Grid settings of a space: columns, row height, gap, compaction, max width and background
+ */
+export function SpaceLayoutDialog({ space, onSave, onCancel }: SpaceLayoutDialogProps) {
+  const initial = getSpaceLayout(space);
+  const [cols, setCols] = useState(String(initial.cols));
+  const [rowHeight, setRowHeight] = useState(String(initial.rowHeight));
+  const [gap, setGap] = useState(String(initial.gap));
+  const [compaction, setCompaction] = useState<CompactionMode>(initial.compaction);
+  const [maxWidth, setMaxWidth] = useState(initial.maxWidth ? String(initial.maxWidth) : '');
+  const [background, setBackground] = useState(initial.background);
+
+  const errors: Record<string, string> = {};
+  if (!isIntegerBetween(cols, MIN_GRID_COLS, MAX_GRID_COLS)) {
+    errors.cols = `Between ${MIN_GRID_COLS} and ${MAX_GRID_COLS}`;
+  }
+  if (!isIntegerBetween(rowHeight, MIN_ROW_HEIGHT, MAX_ROW_HEIGHT)) {
+    errors.rowHeight = `Between ${MIN_ROW_HEIGHT} and ${MAX_ROW_HEIGHT} px`;
+  }
+  if (!isIntegerBetween(gap, 0, MAX_GAP)) {
+    errors.gap = `Between 0 and ${MAX_GAP} px`;
+  }
+  if (maxWidth.trim() !== '' && !isIntegerBetween(maxWidth, MIN_MAX_WIDTH, Number.MAX_SAFE_INTEGER)) {
+    errors.maxWidth = `At least ${MIN_MAX_WIDTH} px, or empty for the full width`;
+  }
+  const hasErrors = Object.keys(errors).length > 0;
+  const isRescaling = !errors.cols && Number(cols) !== initial.cols && space.frames.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasErrors) return;
+
+    onSave({
+      cols: Number(cols),
+      rowHeight: Number(rowHeight),
+      gap: Number(gap),
+      compaction,
+      maxWidth: maxWidth.trim() !== '' ? Number(maxWidth) : undefined,
+      background,
+    });
+  };
+
+  const renderNumberField = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    placeholder?: string
+  ) => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+      {errors[id] && <p className="text-xs text-destructive mt-1">{errors[id]}</p>}
+    </div>
+  );
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md shadow-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Layout of &quot;{space.name}&quot;</h2>
+          <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" type="button">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          <div className="grid grid-cols-3 gap-3">
+            {renderNumberField('cols', 'Columns', cols, setCols)}
+            {renderNumberField('rowHeight', 'Row height', rowHeight, setRowHeight)}
+            {renderNumberField('gap', 'Gap', gap, setGap)}
+          </div>
+          {isRescaling && (
+            <p className="text-xs text-muted-foreground">
+              Widgets will be rescaled from {initial.cols} to {cols} columns. Layouts adjusted for narrower
+              screens will be derived again.
+            </p>
+          )}
+
+          <div>
+            <label htmlFor="compaction" className="block text-sm font-medium mb-1">
+              Compaction
+            </label>
+            <select
+              id="compaction"
+              value={compaction}
+              onChange={(e) => setCompaction(e.target.value as CompactionMode)}
+              className={inputClassName}
+            >
+              {compactionOptions.map((option) => (
+                <option key={option.mode} value={option.mode}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {renderNumberField('maxWidth', 'Max width (px)', maxWidth, setMaxWidth, 'Full width')}
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium mb-1">
+              <input
+                type="checkbox"
+                checked={background !== undefined}
+                onChange={(e) => setBackground(e.target.checked ? DEFAULT_BACKGROUND : undefined)}
+              />
+              Custom background
+            </label>
+            {background !== undefined && (
+              <input
+                type="color"
+                value={background}
+                onChange={(e) => setBackground(e.target.value)}
+                className="w-16 h-8 border border-input rounded-md bg-background cursor-pointer"
+                aria-label="Background color"
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={hasErrors}
+              className="px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
@@ -4,9 +4,11 @@ interface SpaceTabsProps {
   spaces: SpaceData[];
   activeSpaceId: string;
   onSpaceSelect: (spaceId: string) => void;
+  /** Tab under a widget being dragged, which is moved to that space when dropped */
+  dropTargetSpaceId?: string | null;
 }
 
-export function SpaceTabs({ spaces, activeSpaceId, onSpaceSelect }: SpaceTabsProps) {
+export function SpaceTabs({ spaces, activeSpaceId, onSpaceSelect, dropTargetSpaceId }: SpaceTabsProps) {
   if (spaces.length <= 1) {
     return null; // Don't show tabs if there's only one space
   }
@@ -15,15 +17,18 @@ export function SpaceTabs({ spaces, activeSpaceId, onSpaceSelect }: SpaceTabsPro
     <div className="flex gap-1 px-2 pt-2 border-b border-border bg-muted/30">
       {spaces.map((space) => {
         const isActive = space.id === activeSpaceId;
+        const isDropTarget = space.id === dropTargetSpaceId;
         return (
           <div
             key={space.id}
+            data-space-tab={space.id}
             className={`
               flex items-center gap-2 px-4 py-2 rounded-t-lg cursor-pointer transition-all duration-200
               ${isActive 
                 ? 'bg-card border-t border-l border-r border-border shadow-sm' 
                 : 'bg-muted/50 hover:bg-muted border-t border-l border-r border-transparent hover:border-border'
               }
+              ${isDropTarget ? 'ring-2 ring-primary bg-primary/10' : ''}
             `}
             onClick={() => onSpaceSelect(space.id)}
           >
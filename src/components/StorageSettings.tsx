@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import {
+  findStoredKeys,
+  getAvailableBackends,
+  getSelectedBackendId,
+  switchDataBackend,
+  type StorageBackendId,
+} from '@/lib/storage-backends';
+import { STORAGE_KEY, THEME_KEY } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Storage');
+
+export function StorageSettings() {
+  const [selectedId, setSelectedId] = useState<StorageBackendId | null>(null);
+  const [switchingTo, setSwitchingTo] = useState<StorageBackendId | null>(null);
+  const options = getAvailableBackends();
+
+  useEffect(() => {
+    getSelectedBackendId().then(setSelectedId);
+  }, []);
+
+  // Backend to switch to which already holds a dashboard, waiting for the user to keep or replace it
+  const [conflictId, setConflictId] = useState<StorageBackendId | null>(null);
+
+  const switchTo = async (id: StorageBackendId, keepExisting: boolean) => {
+    setConflictId(null);
+    setSwitchingTo(id);
+    try {
+      await switchDataBackend(id, [STORAGE_KEY, THEME_KEY], keepExisting);
+      window.location.reload();
+    } catch (error) {
+      logger.error('Failed to switch storage backend:', error);
+      alert('Failed to switch storage. Your dashboard was left unchanged.');
+      setSwitchingTo(null);
+    }
+  };
+
+  const handleSelect = async (id: StorageBackendId) => {
+    if (id === selectedId || switchingTo) return;
+
+    let storedKeys: string[];
+    try {
+      storedKeys = await findStoredKeys(id, [STORAGE_KEY]);
+    } catch (error) {
+      logger.error('Failed to read the selected storage:', error);
+      alert('Failed to read the selected storage. Your dashboard was left unchanged.');
+      return;
+    }
+
+    if (storedKeys.length > 0) {
+      setConflictId(id);
+      return;
+    }
+
+    if (!confirm('Your dashboard will be copied to the selected storage and the page will reload. Continue?')) {
+      return;
+    }
+    await switchTo(id, false);
+  };
+
+  return (
+    <div>
+      <div className="px-3 py-2 text-xs font-semibold text-muted-foreground uppercase">
+        Dashboard Storage
+      </div>
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => handleSelect(option.id)}
+          disabled={!!switchingTo}
+          className="w-full flex items-start gap-2 px-3 py-2 text-sm rounded-md hover:bg-accent transition-colors text-left disabled:opacity-50"
+          type="button"
+        >
+          <span className="w-4 h-4 mt-0.5 flex-shrink-0">
+            {switchingTo === option.id && <Loader2 className="w-4 h-4 animate-spin" />}
+            {!switchingTo && selectedId === option.id && <Check className="w-4 h-4 text-primary" />}
+          </span>
+          <span className="flex-1">
+            <span className="block">{option.label}</span>
+            <span className="block text-xs text-muted-foreground">{option.description}</span>
+          </span>
+        </button>
+      ))}
+      {conflictId && (
+        <div className="mx-3 my-2 p-2 rounded-md border border-border text-xs">
+          <p className="mb-2">
+            The selected storage already holds a dashboard, e.g. saved on another machine. Which one do you want to keep?
+          </p>
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => switchTo(conflictId, true)}
+              className="px-2 py-1 rounded-md bg-primary text-primary-foreground hover:bg-primary/90"
+              type="button"
+            >
+              Keep the stored one
+            </button>
+            <button
+              onClick={() => switchTo(conflictId, false)}
+              className="px-2 py-1 rounded-md hover:bg-accent"
+              type="button"
+            >
+              Replace it with this one
+            </button>
+            <button
+              onClick={() => setConflictId(null)}
+              className="px-2 py-1 rounded-md hover:bg-accent"
+              type="button"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      <p className="px-3 py-2 text-xs text-muted-foreground">
+        Widget caches always stay on this machine.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+  duration?: number;
+}
+
+/**
+ * Toast shown after a destructive action, offering to undo it
+ * @param duration - Time in milliseconds before the toast closes itself
+ */
+export function UndoToast({ message, onUndo, onClose, duration = 6000 }: UndoToastProps) {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => onCloseRef.current(), duration);
+    return () => clearTimeout(timeout);
+  }, [duration]);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 bg-popover border border-border rounded-lg shadow-lg">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 px-2 py-1 text-sm font-medium rounded-md text-primary hover:bg-accent transition-colors"
+        type="button"
+      >
+        <Undo2 className="w-4 h-4" />
+        Undo
+      </button>
+      <button
+        onClick={onClose}
+        className="p-1 rounded hover:bg-accent transition-colors"
+        type="button"
+        aria-label="Close"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
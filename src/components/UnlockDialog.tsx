@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Loader2, Unlock, X } from 'lucide-react';
+
+interface UnlockDialogProps {
+  /** What is unlocked, e.g. 'the dashboard' */
+  target: string;
+  /** Rejects on a wrong PIN */
+  onUnlock: (pin: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * PIN prompt shown before unlocking, see lock.ts
+ */
+export function UnlockDialog({ target, onUnlock, onCancel }: UnlockDialogProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(pin);
+    } catch {
+      setError('Wrong PIN');
+      setPin('');
+      setIsUnlocking(false);
+    }
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[100]"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-xs shadow-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold">Unlock</h2>
+          <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" type="button">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <p className="text-sm text-muted-foreground">Enter the PIN to unlock {target}.</p>
+          <input
+            type="password"
+            inputMode="numeric"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            placeholder="PIN"
+            className="w-full px-3 py-2 border border-input rounded-md bg-background tracking-widest"
+            autoComplete="off"
+            autoFocus
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!pin || isUnlocking}
+              className="flex items-center gap-1 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+              Unlock
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+
+  return typeof document !== 'undefined' ? createPortal(modalContent, document.body) : null;
+}
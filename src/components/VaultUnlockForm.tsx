@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { unlockVault } from '@/lib/vault';
+
+interface VaultUnlockFormProps {
+  compact?: boolean;
+}
+
+export function VaultUnlockForm({ compact = false }: VaultUnlockFormProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+    } catch {
+      setError('Wrong passphrase');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={compact ? 'space-y-2' : 'px-3 py-2 space-y-2'}>
+      {!compact && (
+        <p className="text-xs text-muted-foreground">
+          Enter your passphrase to unlock credentials for this browser session.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onMouseDown={(e) => e.stopPropagation()}
+          placeholder="Passphrase"
+          className="flex-1 min-w-0 px-2 py-1 text-sm bg-background border border-input rounded focus:outline-none focus:ring-2 focus:ring-primary"
+          autoComplete="current-password"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Unlock credentials"
+        >
+          {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+          Unlock
+        </button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  );
+}
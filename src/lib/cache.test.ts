@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CACHE_QUOTA_BYTES,
+  clearCache,
+  collectOrphanCaches,
+  copyCache,
+  getCacheUsageReport,
+  loadFromCache,
+  readCache,
+  saveToCache,
+} from './cache';
+import { createMemoryBackend, setBackendsForTesting, type StorageBackend } from './storage-backends';
+
+const MINUTE = 60 * 1000;
+
+// Data taking about 40% of the quota, so that a third entry overflows it
+const largeData = 'x'.repeat(Math.floor(CACHE_QUOTA_BYTES * 0.4));
+
+let backend: StorageBackend;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(0);
+  backend = createMemoryBackend();
+  setBackendsForTesting(backend);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function saveAt(time: number, frameId: string, data: unknown) {
+  vi.setSystemTime(time);
+  await saveToCache(frameId, data);
+}
+
+describe('cache reads', () => {
+  it('returns cached data until it expires', async () => {
+    await saveToCache('frame-1', { value: 1 });
+
+    vi.setSystemTime(30 * 1000);
+    expect(await loadFromCache('frame-1', 60)).toEqual({ value: 1 });
+    expect(await readCache('frame-1', 60)).toEqual({ data: { value: 1 }, timestamp: 0, isStale: false });
+
+    vi.setSystemTime(MINUTE);
+    expect(await loadFromCache('frame-1', 60)).toBeNull();
+    expect(await readCache('frame-1', 60)).toMatchObject({ data: { value: 1 }, isStale: true });
+  });
+
+  it('always treats data as stale when caching is disabled', async () => {
+    await saveToCache('frame-1', { value: 1 });
+
+    expect(await readCache('frame-1', 0)).toMatchObject({ isStale: true });
+  });
+
+  it('reads entries stored as JSON strings', async () => {
+    await backend.set('plugin_cache_frame-1', JSON.stringify({ data: 'legacy', timestamp: 0 }));
+
+    expect(await loadFromCache('frame-1', 60)).toBe('legacy');
+  });
+
+  it('returns null when nothing is cached', async () => {
+    expect(await readCache('frame-1', 60)).toBeNull();
+  });
+});
+
+describe('cache eviction', () => {
+  it('evicts the least recently used entries beyond the quota', async () => {
+    await saveAt(0, 'a', largeData);
+    await saveAt(MINUTE, 'b', largeData);
+    await saveAt(2 * MINUTE, 'c', largeData);
+
+    expect(await readCache('a', 3600)).toBeNull();
+    expect(await loadFromCache('b', 3600)).toBe(largeData);
+    expect(await loadFromCache('c', 3600)).toBe(largeData);
+  });
+
+  it('counts reads as uses', async () => {
+    await saveAt(0, 'a', largeData);
+    await saveAt(MINUTE, 'b', largeData);
+    vi.setSystemTime(2 * MINUTE);
+    await readCache('a', 3600);
+    await saveAt(3 * MINUTE, 'c', largeData);
+
+    expect(await loadFromCache('a', 3600)).toBe(largeData);
+    expect(await readCache('b', 3600)).toBeNull();
+  });
+
+  it('does not cache data larger than the quota', async () => {
+    await saveToCache('a', 'x'.repeat(CACHE_QUOTA_BYTES));
+
+    expect(await backend.keys()).toEqual([]);
+  });
+});
+
+describe('cache maintenance', () => {
+  it('clears the entries of a frame, including suffixed ones', async () => {
+    await saveToCache('frame-1', 'data');
+    await saveToCache('frame-1_labels', 'labels');
+    await saveToCache('frame-10', 'other');
+
+    await clearCache('frame-1');
+
+    expect((await getCacheUsageReport(['frame-1', 'frame-10'])).frames).toEqual({
+      'frame-10': { size: expect.any(Number), lastAccessed: 0 },
+    });
+    expect(await loadFromCache('frame-10', 60)).toBe('other');
+  });
+
+  it('copies the entries of a frame, keeping their timestamp', async () => {
+    await saveToCache('frame-1', 'data');
+    await saveToCache('frame-1_labels', 'labels');
+
+    vi.setSystemTime(MINUTE);
+    await copyCache('frame-1', 'frame-2');
+
+    expect(await readCache('frame-2', 3600)).toMatchObject({ data: 'data', timestamp: 0 });
+    expect(await loadFromCache('frame-2_labels', 3600)).toBe('labels');
+    expect(await loadFromCache('frame-1', 3600)).toBe('data');
+  });
+
+  it('reports usage by frame and removes the entries of deleted frames', async () => {
+    await saveToCache('frame-1', 'data');
+    await saveToCache('deleted', 'orphan');
+    // Written before the cache index existed
+    await backend.set('plugin_cache_deleted_labels', { data: 'orphan', timestamp: 0 });
+
+    const report = await getCacheUsageReport(['frame-1']);
+    expect(Object.keys(report.frames)).toEqual(['frame-1']);
+    expect(report.orphaned.size).toBeGreaterThan(0);
+    expect(report.totalSize).toBe(report.frames['frame-1'].size + report.orphaned.size);
+
+    expect(await collectOrphanCaches(['frame-1'])).toBe(report.orphaned.size);
+    expect((await backend.keys()).filter((key) => key.startsWith('plugin_cache_'))).toEqual(['plugin_cache_frame-1']);
+    expect((await getCacheUsageReport(['frame-1'])).orphaned.size).toBe(0);
+  });
+});
@@ -1,14 +1,31 @@
 /**
  * Generic cache utility for plugins
- * Stores cached data in chrome.storage.local or localStorage
+ * Stores cached data in the cache storage backend (see storage-backends.ts).
+ * An index keeps the size and last access of each entry: beyond CACHE_QUOTA_BYTES,
+ * the least recently used entries are evicted.
  */
 
+import { recordCacheRead } from './diagnostics';
+import { createLogger } from './logger';
+import { getCacheBackend, type StorageBackend } from './storage-backends';
+
+const logger = createLogger('Cache');
+
 export interface CachedData<T> {
   data: T;
   timestamp: number;
 }
 
 const CACHE_PREFIX = 'plugin_cache_';
+const CACHE_INDEX_KEY = 'cache_index';
+
+/** Total size of the cached data, in bytes */
+export const CACHE_QUOTA_BYTES = 5 * 1024 * 1024;
+// Reads only update the last access time once it is older than this, to limit index writes
+const ACCESS_RESOLUTION_MS = 60 * 1000;
+
+/** Cache duration of frames that don't set one, in seconds */
+export const DEFAULT_CACHE_DURATION = 3600;
 
 /**
  * Generate cache key for a specific frame instance
@@ -17,6 +34,149 @@ function getCacheKey(frameId: string): string {
   return `${CACHE_PREFIX}${frameId}`;
 }
 
+/**
+ * Size and last use of a cache entry
+ */
+export interface CacheUsage {
+  /** Serialized size in bytes */
+  size: number;
+  /** Last time the entry was read or written, ms since epoch */
+  lastAccessed: number;
+}
+
+/**
+ * Cache usage of the frames of a dashboard
+ */
+export interface CacheUsageReport {
+  /** Usage by frame id; a frame may have several entries, e.g. `<frameId>_labels` */
+  frames: Record<string, CacheUsage>;
+  /** Usage of entries whose frame no longer exists */
+  orphaned: CacheUsage;
+  totalSize: number;
+}
+
+// Usage by cache id; plugins may cache several entries per frame, suffixed with `_<name>`
+type CacheIndex = Record<string, CacheUsage>;
+
+let pendingIndexUpdate: Promise<unknown> = Promise.resolve();
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function getCacheIds(keys: string[]): string[] {
+  return keys.filter((key) => key.startsWith(CACHE_PREFIX)).map((key) => key.slice(CACHE_PREFIX.length));
+}
+
+function belongsToFrame(cacheId: string, frameId: string): boolean {
+  return cacheId === frameId || cacheId.startsWith(`${frameId}_`);
+}
+
+async function loadIndex(backend: StorageBackend): Promise<CacheIndex> {
+  return (await backend.get<CacheIndex>(CACHE_INDEX_KEY)) || {};
+}
+
+/**
+ * Apply a change to the cache index, saved only if it changed
+ * Changes are serialized so concurrent updates from this tab don't overwrite each other.
+ */
+function updateIndex<T>(update: (index: CacheIndex) => T): Promise<T> {
+  const run = pendingIndexUpdate.then(async () => {
+    const backend = await getCacheBackend();
+    const index = await loadIndex(backend);
+    const before = JSON.stringify(index);
+    const result = update(index);
+    if (JSON.stringify(index) !== before) {
+      await backend.set(CACHE_INDEX_KEY, index);
+    }
+    return result;
+  });
+  pendingIndexUpdate = run.catch(() => undefined);
+  return run;
+}
+
+// Least recently used entries to remove so the cache fits the quota
+function selectEvictions(index: CacheIndex, keepId: string): string[] {
+  let totalSize = Object.values(index).reduce((sum, usage) => sum + usage.size, 0);
+  const candidates = Object.entries(index)
+    .filter(([id]) => id !== keepId)
+    .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+  const evicted: string[] = [];
+  for (const [id, usage] of candidates) {
+    if (totalSize <= CACHE_QUOTA_BYTES) break;
+    totalSize -= usage.size;
+    evicted.push(id);
+  }
+  return evicted;
+}
+
+async function removeEntries(cacheIds: string[]): Promise<void> {
+  if (cacheIds.length === 0) return;
+  const backend = await getCacheBackend();
+  await backend.remove(cacheIds.map(getCacheKey));
+  await updateIndex((index) => cacheIds.forEach((id) => delete index[id]));
+}
+
+function touchEntry(cacheId: string): void {
+  const now = Date.now();
+  updateIndex((index) => {
+    const usage = index[cacheId];
+    if (usage && now - usage.lastAccessed >= ACCESS_RESOLUTION_MS) {
+      usage.lastAccessed = now;
+    }
+  }).catch((e) => logger.error('Failed to update cache index:', e));
+}
+
+/**
+ * Bring the index in line with the stored entries: entries removed elsewhere are
+ * dropped, entries written before the index existed are measured
+ */
+async function syncIndex(): Promise<CacheIndex> {
+  const backend = await getCacheBackend();
+  const cacheIds = getCacheIds(await backend.keys());
+  const current = await loadIndex(backend);
+
+  const measured: CacheIndex = {};
+  for (const id of cacheIds.filter((id) => !current[id])) {
+    const stored = await readStoredData(id);
+    if (stored) {
+      measured[id] = { size: byteLength(stored), lastAccessed: stored.timestamp };
+    }
+  }
+
+  return updateIndex((index) => {
+    Object.keys(index).forEach((id) => {
+      if (!cacheIds.includes(id)) delete index[id];
+    });
+    Object.entries(measured).forEach(([id, usage]) => {
+      if (!index[id]) index[id] = usage;
+    });
+    return { ...index };
+  });
+}
+
+/**
+ * Cached data of a frame, whatever its age
+ */
+export interface CacheEntry<T> {
+  data: T;
+  /** Time the data was saved, ms since epoch */
+  timestamp: number;
+  /** Older than the cache duration, to be fetched again */
+  isStale: boolean;
+}
+
+async function readStoredData<T>(frameId: string): Promise<CachedData<T> | null> {
+  const backend = await getCacheBackend();
+  const cached = await backend.get<CachedData<T> | string>(getCacheKey(frameId));
+  if (!cached) {
+    return null;
+  }
+  // Entries written before the storage backends were JSON strings
+  return typeof cached === 'string' ? JSON.parse(cached) : cached;
+}
+
 /**
  * Load cached data from storage
  * @param frameId - Unique frame identifier
@@ -27,74 +187,85 @@ export async function loadFromCache<T>(
   frameId: string,
   cacheDuration: number
 ): Promise<T | null> {
-  // Cache disabled
-  if (cacheDuration <= 0) {
+  const entry = await readCache<T>(frameId, cacheDuration);
+  return entry && !entry.isStale ? entry.data : null;
+}
+
+/**
+ * Load cached data from storage, including expired data
+ * Expired data is the last copy fetched successfully, shown while fetching again
+ * or when the network fails.
+ * @param frameId - Unique frame identifier
+ * @param cacheDuration - Cache duration in seconds (0 = disabled, data is always stale)
+ * @returns Cached entry, null if nothing is cached
+ */
+export async function readCache<T>(frameId: string, cacheDuration: number): Promise<CacheEntry<T> | null> {
+  try {
+    const stored = await readStoredData<T>(frameId);
+    if (!stored) {
+      recordCacheRead(frameId, 'miss');
+      return null;
+    }
+    touchEntry(frameId);
+    const age = (Date.now() - stored.timestamp) / 1000; // age in seconds
+    const isStale = cacheDuration <= 0 || age >= cacheDuration;
+    recordCacheRead(frameId, isStale ? 'stale' : 'hit', Math.round(age));
+    return { data: stored.data, timestamp: stored.timestamp, isStale };
+  } catch (e) {
+    logger.error('Failed to load cached data:', e);
     return null;
   }
+}
 
-  return new Promise((resolve) => {
-    const cacheKey = getCacheKey(frameId);
-
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.get([cacheKey], (result) => {
-        if (chrome.runtime.lastError) {
-          console.error('[Cache] Failed to load from chrome.storage:', chrome.runtime.lastError.message);
-          resolve(null);
-          return;
-        }
-
-        const cached = result[cacheKey];
-        if (!cached) {
-          resolve(null);
-          return;
-        }
-
-        try {
-          const parsedData: CachedData<T> = typeof cached === 'string' ? JSON.parse(cached) : cached;
-          const now = Date.now();
-          const age = (now - parsedData.timestamp) / 1000; // age in seconds
-
-          // Check if cache is still valid
-          if (age < cacheDuration) {
-            resolve(parsedData.data);
-          } else {
-            // Cache expired
-            resolve(null);
-          }
-        } catch (e) {
-          console.error('[Cache] Failed to parse cached data:', e);
-          resolve(null);
-        }
-      });
-    } else {
-      // Fallback to localStorage
-      try {
-        const cached = localStorage.getItem(cacheKey);
-        if (!cached) {
-          resolve(null);
-          return;
-        }
-
-        const parsedData: CachedData<T> = JSON.parse(cached);
-        const now = Date.now();
-        const age = (now - parsedData.timestamp) / 1000; // age in seconds
-
-        if (age < cacheDuration) {
-          resolve(parsedData.data);
-        } else {
-          // Cache expired
-          resolve(null);
-        }
-      } catch (e) {
-        console.error('[Cache] Failed to load from localStorage:', e);
-        resolve(null);
+/**
+ * Time the cached data of a frame was saved
+ * @param frameId - Unique frame identifier
+ * @returns Timestamp in ms, null if nothing is cached
+ */
+export async function getCacheTimestamp(frameId: string): Promise<number | null> {
+  try {
+    return (await readStoredData(frameId))?.timestamp ?? null;
+  } catch (e) {
+    logger.error('Failed to read cache timestamp:', e);
+    return null;
+  }
+}
+
+export interface RevalidateOptions<T> {
+  /** Cached data, usually readCache of the frame */
+  read: () => Promise<CacheEntry<T> | null>;
+  /** Fetch the data from the network and save it to the cache */
+  fetch: () => Promise<T>;
+  /** Receives the cached data first, then the fetched data, with the time it was fetched */
+  onData: (data: T, timestamp: number) => void;
+  /** Skip the cache and always fetch */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Load data stale-while-revalidate
+ * Cached data is passed on right away, even when expired, and fetched again only
+ * once expired. If the fetch fails, the cached data stays as last good copy and the
+ * error is rethrown.
+ */
+export async function staleWhileRevalidate<T>({ read, fetch, onData, forceRefresh = false }: RevalidateOptions<T>): Promise<void> {
+  if (!forceRefresh) {
+    const cached = await read();
+    if (cached) {
+      onData(cached.data, cached.timestamp);
+      if (!cached.isStale) {
+        return;
       }
     }
-  });
+  }
+
+  const data = await fetch();
+  onData(data, Date.now());
 }
 
 /**
  * Save data to cache
+ * Least recently used entries of other frames are evicted when the cache exceeds its quota.
  * @param frameId - Unique frame identifier
  * @param data - Data to cache
  */
@@ -102,100 +273,117 @@ export async function saveToCache<T>(
   frameId: string,
   data: T
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const cacheKey = getCacheKey(frameId);
-    const cacheData: CachedData<T> = {
-      data,
-      timestamp: Date.now(),
-    };
-
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.set({ [cacheKey]: JSON.stringify(cacheData) }, () => {
-        if (chrome.runtime.lastError) {
-          console.error('[Cache] Failed to save to chrome.storage:', chrome.runtime.lastError.message);
-          reject(new Error(chrome.runtime.lastError.message));
-        } else {
-          resolve();
-        }
-      });
-    } else {
-      // Fallback to localStorage
-      try {
-        localStorage.setItem(cacheKey, JSON.stringify(cacheData));
-        resolve();
-      } catch (e) {
-        console.error('[Cache] Failed to save to localStorage:', e);
-        reject(e);
-      }
+  const cacheData: CachedData<T> = {
+    data,
+    timestamp: Date.now(),
+  };
+
+  const size = byteLength(cacheData);
+  if (size > CACHE_QUOTA_BYTES) {
+    logger.warn(`Data of ${frameId} (${size} bytes) exceeds the cache quota, not cached`);
+    return;
+  }
+
+  try {
+    const backend = await getCacheBackend();
+    await backend.set(getCacheKey(frameId), cacheData);
+    const evicted = await updateIndex((index) => {
+      index[frameId] = { size, lastAccessed: cacheData.timestamp };
+      return selectEvictions(index, frameId);
+    });
+    if (evicted.length > 0) {
+      logger.info('Evicted least recently used entries:', evicted);
+      await removeEntries(evicted);
     }
-  });
+  } catch (e) {
+    logger.error('Failed to save to cache:', e);
+    throw e;
+  }
 }
 
 /**
- * Clear cache for a specific frame
+ * Clear cache for a specific frame, including its suffixed entries
  * @param frameId - Unique frame identifier
  */
 export async function clearCache(frameId: string): Promise<void> {
-  return new Promise((resolve) => {
-    const cacheKey = getCacheKey(frameId);
-
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      // Use set with undefined to delete the key
-      chrome.storage.local.set({ [cacheKey]: undefined }, () => {
-        if (chrome.runtime.lastError) {
-          console.error('[Cache] Failed to clear from chrome.storage:', chrome.runtime.lastError.message);
-        }
-        resolve();
+  try {
+    const backend = await getCacheBackend();
+    const cacheIds = getCacheIds(await backend.keys()).filter((id) => belongsToFrame(id, frameId));
+    await removeEntries(cacheIds);
+  } catch (e) {
+    logger.error('Failed to clear cache:', e);
+  }
+}
+
+/**
+ * Copy the cache entries of a frame to another one, e.g. a duplicated frame
+ * Entries keep their timestamp, so the copy is refreshed when the original would be.
+ */
+export async function copyCache(fromFrameId: string, toFrameId: string): Promise<void> {
+  try {
+    const backend = await getCacheBackend();
+    const cacheIds = getCacheIds(await backend.keys()).filter((id) => belongsToFrame(id, fromFrameId));
+    for (const cacheId of cacheIds) {
+      const cacheData = await backend.get<CachedData<unknown>>(getCacheKey(cacheId));
+      if (!cacheData) continue;
+
+      const copyId = `${toFrameId}${cacheId.slice(fromFrameId.length)}`;
+      await backend.set(getCacheKey(copyId), cacheData);
+      const evicted = await updateIndex((index) => {
+        index[copyId] = { size: byteLength(cacheData), lastAccessed: Date.now() };
+        return selectEvictions(index, copyId);
       });
-    } else {
-      // Fallback to localStorage
-      try {
-        localStorage.removeItem(cacheKey);
-        resolve();
-      } catch (e) {
-        console.error('[Cache] Failed to clear from localStorage:', e);
-        resolve();
-      }
+      await removeEntries(evicted);
     }
-  });
+  } catch (e) {
+    logger.error('Failed to copy cache:', e);
+  }
 }
 
 /**
  * Clear all plugin caches (for cleanup)
  */
 export async function clearAllPluginCaches(): Promise<void> {
-  return new Promise((resolve) => {
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.get(null, (items) => {
-        const keysToRemove = Object.keys(items).filter(key => key.startsWith(CACHE_PREFIX));
-        if (keysToRemove.length > 0) {
-          const clearObj: Record<string, undefined> = {};
-          keysToRemove.forEach(key => {
-            clearObj[key] = undefined;
-          });
-          chrome.storage.local.set(clearObj, () => {
-            resolve();
-          });
-        } else {
-          resolve();
-        }
-      });
-    } else {
-      // Fallback to localStorage
-      try {
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < localStorage.length; i++) {
-          const key = localStorage.key(i);
-          if (key && key.startsWith(CACHE_PREFIX)) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => localStorage.removeItem(key));
-        resolve();
-      } catch (e) {
-        console.error('[Cache] Failed to clear all caches from localStorage:', e);
-        resolve();
-      }
+  try {
+    const backend = await getCacheBackend();
+    const keys = await backend.keys();
+    const keysToRemove = keys.filter((key) => key.startsWith(CACHE_PREFIX));
+    if (keysToRemove.length > 0) {
+      await backend.remove(keysToRemove);
     }
+    await updateIndex((index) => Object.keys(index).forEach((id) => delete index[id]));
+  } catch (e) {
+    logger.error('Failed to clear all caches:', e);
+  }
+}
+
+/**
+ * Cache usage by frame
+ * @param frameIds - Ids of all frames of the dashboard, entries of other frames are orphaned
+ */
+export async function getCacheUsageReport(frameIds: string[]): Promise<CacheUsageReport> {
+  const index = await syncIndex();
+  const report: CacheUsageReport = { frames: {}, orphaned: { size: 0, lastAccessed: 0 }, totalSize: 0 };
+
+  Object.entries(index).forEach(([cacheId, usage]) => {
+    const frameId = frameIds.find((id) => belongsToFrame(cacheId, id));
+    const total = frameId ? (report.frames[frameId] ??= { size: 0, lastAccessed: 0 }) : report.orphaned;
+    total.size += usage.size;
+    total.lastAccessed = Math.max(total.lastAccessed, usage.lastAccessed);
+    report.totalSize += usage.size;
   });
+
+  return report;
+}
+
+/**
+ * Remove cache entries of frames that no longer exist, e.g. deleted from another tab
+ * @param frameIds - Ids of all frames of the dashboard
+ * @returns Number of bytes freed
+ */
+export async function collectOrphanCaches(frameIds: string[]): Promise<number> {
+  const index = await syncIndex();
+  const orphans = Object.keys(index).filter((cacheId) => !frameIds.some((id) => belongsToFrame(cacheId, id)));
+  await removeEntries(orphans);
+  return orphans.reduce((sum, id) => sum + index[id].size, 0);
 }
@@ -0,0 +1,157 @@
+/**
+ * Named connections shared by several frames
+ * A connection holds the server settings of a plugin (see Plugin.connection),
+ * e.g. a YouTrack URL and token. Frames reference it with `connectionId` in their
+ * config; its secret values live in the credential vault, so rotating a token in
+ * the connection updates every frame using it.
+ */
+
+import type { PluginConfig } from '@/types/plugin';
+import type { FrameData, SpaceData } from './storage';
+import { createLogger } from './logger';
+import { getLocalBackend } from './storage-backends';
+import {
+  CREDENTIAL_REFS_KEY,
+  getCredentialRefs,
+  resolveCredentials,
+} from './vault';
+
+const logger = createLogger('Connections');
+
+export interface Connection {
+  id: string;
+  pluginId: string;
+  name: string;
+  /** Non-secret values, by config key */
+  values: Record<string, string>;
+  /** Vault credential ids of secret values, by config key */
+  credentialRefs: Record<string, string>;
+  updatedAt: number;
+}
+
+/** Config key holding the connection id of a frame */
+export const CONNECTION_ID_KEY = 'connectionId';
+
+const CONNECTIONS_KEY = 'dashboard_connections';
+
+const listeners = new Set<() => void>();
+
+export function getConnectionId(config: PluginConfig): string | undefined {
+  const id = config[CONNECTION_ID_KEY];
+  return typeof id === 'string' && id ? id : undefined;
+}
+
+export async function loadConnections(): Promise<Connection[]> {
+  try {
+    return (await getLocalBackend().get<Connection[]>(CONNECTIONS_KEY)) || [];
+  } catch (e) {
+    logger.error('Failed to load connections:', e);
+    return [];
+  }
+}
+
+/**
+ * Replace the stored connections and notify listeners
+ */
+export async function saveConnections(connections: Connection[]): Promise<void> {
+  await getLocalBackend().set(CONNECTIONS_KEY, connections);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * List connections, optionally only those of a plugin
+ */
+export async function listConnections(pluginId?: string): Promise<Connection[]> {
+  const connections = await loadConnections();
+  return connections
+    .filter((connection) => !pluginId || connection.pluginId === pluginId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Delete a connection. Its credentials stay in the vault.
+ */
+export async function deleteConnection(id: string): Promise<void> {
+  const connections = await loadConnections();
+  await saveConnections(connections.filter((c) => c.id !== id));
+}
+
+/**
+ * Listen to connection changes, including from other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToConnections(listener: () => void): () => void {
+  listeners.add(listener);
+  const unsubscribe = getLocalBackend().subscribe((key) => {
+    if (key === CONNECTIONS_KEY) listener();
+  });
+  return () => {
+    listeners.delete(listener);
+    unsubscribe();
+  };
+}
+
+/**
+ * Replace the connection reference of a config with the connection values
+ * Secret values are added as credential references, see resolveCredentials.
+ */
+export async function resolveConnection(config: PluginConfig): Promise<PluginConfig> {
+  const connectionId = getConnectionId(config);
+  if (!connectionId) {
+    return config;
+  }
+
+  const connection = (await loadConnections()).find((c) => c.id === connectionId);
+  if (!connection) {
+    return config;
+  }
+
+  return {
+    ...config,
+    ...connection.values,
+    [CREDENTIAL_REFS_KEY]: { ...getCredentialRefs(config), ...connection.credentialRefs },
+  };
+}
+
+/**
+ * Resolve connection and credential references of a frame config
+ * @returns null if the config references credentials and the vault is locked
+ */
+export async function resolveFrameConfig(config: PluginConfig): Promise<PluginConfig | null> {
+  return resolveCredentials(await resolveConnection(config));
+}
+
+/**
+ * Resolve connection references of all frames, e.g. for an export
+ */
+export async function resolveSpacesConnections(spaces: SpaceData[]): Promise<SpaceData[]> {
+  const next: SpaceData[] = [];
+  for (const space of spaces) {
+    const frames: FrameData[] = [];
+    for (const frame of space.frames) {
+      const config = { ...(await resolveConnection(frame.config)) };
+      delete config[CONNECTION_ID_KEY];
+      frames.push({ ...frame, config });
+    }
+    next.push({ ...space, frames });
+  }
+  return next;
+}
+
+/**
+ * Count the frames using a connection
+ */
+export function countConnectionUsages(spaces: SpaceData[], connectionId: string): number {
+  return spaces.reduce(
+    (total, space) => total + space.frames.filter((frame) => getConnectionId(frame.config) === connectionId).length,
+    0
+  );
+}
+
+/**
+ * Get the values of a connection, with its secrets, e.g. to test it
+ * @returns null if the vault is locked
+ */
+export async function resolveConnectionValues(connection: Connection): Promise<PluginConfig | null> {
+  return resolveCredentials({ ...connection.values, [CREDENTIAL_REFS_KEY]: connection.credentialRefs });
+}
@@ -0,0 +1,121 @@
+/**
+ * Connectivity service
+ * The dashboard is offline when the browser says so, or when requests to several
+ * servers fail at the network level within a short time (e.g. a captive portal or
+ * a dropped VPN). Any response, even an HTTP error, brings it back online.
+ */
+
+import { NetworkError } from './http-errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('Connectivity');
+
+/**
+ * Request that could not reach its server, the dashboard being offline
+ */
+export class OfflineError extends NetworkError {
+  constructor(message = 'You are offline') {
+    super(message);
+    this.name = 'OfflineError';
+  }
+}
+
+// Network failures from this many servers within the window put the dashboard offline
+const FAILED_ORIGINS_THRESHOLD = 2;
+const FAILURE_WINDOW_MS = 30 * 1000;
+
+// Last network failure time by origin, while online
+const recentFailures = new Map<string, number>();
+let failedRequestsOffline = false;
+const listeners = new Set<(isOnline: boolean) => void>();
+
+function isBrowserOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+export function isOnline(): boolean {
+  return isBrowserOnline() && !failedRequestsOffline;
+}
+
+function setFailedRequestsOffline(offline: boolean): void {
+  const wasOnline = isOnline();
+  failedRequestsOffline = offline;
+  if (!offline) {
+    recentFailures.clear();
+  }
+  if (isOnline() !== wasOnline) {
+    listeners.forEach((listener) => listener(isOnline()));
+  }
+}
+
+function getOrigin(input: RequestInfo | URL): string {
+  const url = input instanceof Request ? input.url : String(input);
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+function reportNetworkFailure(origin: string): void {
+  const now = Date.now();
+  recentFailures.set(origin, now);
+  recentFailures.forEach((time, key) => {
+    if (now - time > FAILURE_WINDOW_MS) recentFailures.delete(key);
+  });
+  if (recentFailures.size >= FAILED_ORIGINS_THRESHOLD) {
+    logger.warn('Requests to several servers failed, going offline');
+    setFailedRequestsOffline(true);
+  }
+}
+
+/**
+ * fetch reporting its outcome to the connectivity service
+ * @throws OfflineError if the request fails at the network level while offline,
+ *   or right away if the browser is offline
+ */
+export async function monitoredFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  if (!isBrowserOnline()) {
+    throw new OfflineError();
+  }
+
+  const origin = getOrigin(input);
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (e) {
+    // Aborted and timed out requests say nothing about the network
+    if (e instanceof TypeError) {
+      reportNetworkFailure(origin);
+      if (!isOnline()) {
+        throw new OfflineError();
+      }
+    }
+    throw e;
+  }
+
+  recentFailures.delete(origin);
+  setFailedRequestsOffline(false);
+  return response;
+}
+
+/**
+ * Listen to the dashboard going offline or back online
+ * @returns Unsubscribe function
+ */
+export function subscribeToConnectivity(listener: (isOnline: boolean) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    // Failures seen before the network came back are outdated
+    recentFailures.clear();
+    failedRequestsOffline = false;
+    listeners.forEach((listener) => listener(isOnline()));
+  });
+  window.addEventListener('offline', () => listeners.forEach((listener) => listener(false)));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSalt,
+  decryptWithPassphrase,
+  deriveSecretKey,
+  encryptWithPassphrase,
+  hashSecret,
+  isEncryptedPayload,
+  verifySecret,
+} from './crypto';
+
+describe('encryptWithPassphrase', () => {
+  it('round-trips through decryptWithPassphrase', async () => {
+    const payload = await encryptWithPassphrase('secret token', 'passphrase');
+
+    expect(isEncryptedPayload(payload)).toBe(true);
+    expect(payload.data).not.toContain('secret');
+    expect(await decryptWithPassphrase(payload, 'passphrase')).toBe('secret token');
+  });
+
+  it('uses a new salt and iv for every encryption', async () => {
+    const first = await encryptWithPassphrase('secret token', 'passphrase');
+    const second = await encryptWithPassphrase('secret token', 'passphrase');
+
+    expect(second.salt).not.toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.data).not.toBe(first.data);
+  });
+
+  it('fails to decrypt with a wrong passphrase or modified data', async () => {
+    const payload = await encryptWithPassphrase('secret token', 'passphrase');
+    const tampered = { ...payload, data: `${payload.data.startsWith('A') ? 'B' : 'A'}${payload.data.slice(1)}` };
+
+    await expect(decryptWithPassphrase(payload, 'wrong')).rejects.toThrow('Wrong passphrase or corrupted data.');
+    await expect(decryptWithPassphrase(tampered, 'passphrase')).rejects.toThrow('Wrong passphrase or corrupted data.');
+  });
+});
+
+describe('deriveSecretKey', () => {
+  it('derives the same key from the same passphrase and salt only', async () => {
+    const salt = createSalt();
+    const key = await deriveSecretKey('passphrase', salt);
+
+    expect(await deriveSecretKey('passphrase', salt)).toBe(key);
+    expect(await deriveSecretKey('passphrase', createSalt())).not.toBe(key);
+    expect(await deriveSecretKey('other', salt)).not.toBe(key);
+  });
+});
+
+describe('hashSecret', () => {
+  it('verifies the hashed secret only', async () => {
+    const hash = await hashSecret('1234');
+
+    expect(hash.hash).not.toContain('1234');
+    expect(await verifySecret('1234', hash)).toBe(true);
+    expect(await verifySecret('4321', hash)).toBe(false);
+  });
+});
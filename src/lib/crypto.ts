@@ -0,0 +1,151 @@
+/**
+ * Passphrase-based encryption using WebCrypto
+ * A key is derived from the passphrase with PBKDF2 and used with AES-GCM, so a
+ * wrong passphrase or tampered data fails to decrypt instead of returning garbage.
+ * Short secrets that only need checking, like the lock PIN, are hashed with PBKDF2.
+ */
+
+export interface EncryptedPayload {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64 encoded */
+  salt: string;
+  /** Base64 encoded */
+  iv: string;
+  /** Base64 encoded ciphertext */
+  data: string;
+}
+
+const PBKDF2_ITERATIONS = 250000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  const payload = value as EncryptedPayload;
+  return !!payload && payload.algorithm === 'AES-GCM' && typeof payload.salt === 'string' &&
+    typeof payload.iv === 'string' && typeof payload.data === 'string';
+}
+
+/**
+ * Encrypt a string with a passphrase
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<EncryptedPayload> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    algorithm: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a payload produced by encryptWithPassphrase
+ * @throws Error if the passphrase is wrong or the payload was modified
+ */
+export async function decryptWithPassphrase(payload: EncryptedPayload, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations || PBKDF2_ITERATIONS);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Wrong passphrase or corrupted data.');
+  }
+}
+
+/**
+ * Salted hash of a short secret, e.g. a PIN, to check it without storing it
+ */
+export interface SecretHash {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  /** Base64 encoded */
+  salt: string;
+  /** Base64 encoded */
+  hash: string;
+}
+
+async function deriveHash(secret: string, salt: BufferSource, iterations: number): Promise<string> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, baseKey, 256);
+  return toBase64(new Uint8Array(bits));
+}
+
+/**
+ * Random salt for deriveSecretKey, base64 encoded
+ */
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Key derived from a passphrase with PBKDF2, base64 encoded
+ * Kept instead of the passphrase once unlocked, so the passphrase itself, which may be
+ * used elsewhere, is never stored.
+ */
+export async function deriveSecretKey(passphrase: string, salt: string): Promise<string> {
+  return deriveHash(passphrase, fromBase64(salt), PBKDF2_ITERATIONS);
+}
+
+export async function hashSecret(secret: string): Promise<SecretHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    hash: await deriveHash(secret, salt, PBKDF2_ITERATIONS),
+  };
+}
+
+/**
+ * Whether a secret matches a hash produced by hashSecret
+ */
+export async function verifySecret(secret: string, secretHash: SecretHash): Promise<boolean> {
+  const hash = await deriveHash(secret, fromBase64(secretHash.salt), secretHash.iterations || PBKDF2_ITERATIONS);
+  return hash === secretHash.hash;
+}
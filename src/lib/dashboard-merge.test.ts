@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { mergeFrames, mergeSpaces } from './dashboard-merge';
+import type { FrameData, SpaceData } from './storage';
+
+function createFrame(overrides: Partial<FrameData> = {}): FrameData {
+  return { id: 'frame-1', pluginId: 'clock', x: 0, y: 0, w: 4, h: 4, config: {}, ...overrides };
+}
+
+function createSpace(frames: FrameData[], overrides: Partial<SpaceData> = {}): SpaceData {
+  return { id: 'space-1', name: 'Work', frames, ...overrides };
+}
+
+describe('mergeFrames', () => {
+  it('keeps changes made to different properties on each side', () => {
+    const base = [createFrame()];
+    const local = [createFrame({ x: 4 })];
+    const remote = [createFrame({ config: { city: 'Paris' } })];
+
+    expect(mergeFrames(base, local, remote)).toEqual([createFrame({ x: 4, config: { city: 'Paris' } })]);
+  });
+
+  it('prefers the local value when both sides changed a property', () => {
+    expect(mergeFrames([createFrame()], [createFrame({ x: 4 })], [createFrame({ x: 8 })])).toEqual([
+      createFrame({ x: 4 }),
+    ]);
+  });
+
+  it('keeps additions from both sides, remote ones last', () => {
+    const base = [createFrame()];
+    const local = [createFrame(), createFrame({ id: 'local' })];
+    const remote = [createFrame(), createFrame({ id: 'remote' })];
+
+    expect(mergeFrames(base, local, remote).map((frame) => frame.id)).toEqual(['frame-1', 'local', 'remote']);
+  });
+
+  it('applies deletions of unchanged frames', () => {
+    const base = [createFrame(), createFrame({ id: 'frame-2' })];
+
+    expect(mergeFrames(base, [createFrame()], base).map((frame) => frame.id)).toEqual(['frame-1']);
+    expect(mergeFrames(base, base, [createFrame()]).map((frame) => frame.id)).toEqual(['frame-1']);
+  });
+
+  it('keeps a frame deleted on one side but modified on the other', () => {
+    const base = [createFrame()];
+
+    expect(mergeFrames(base, [createFrame({ x: 4 })], [])).toEqual([createFrame({ x: 4 })]);
+    expect(mergeFrames(base, [], [createFrame({ x: 4 })])).toEqual([createFrame({ x: 4 })]);
+  });
+
+  it('drops properties removed on one side', () => {
+    const base = [createFrame({ name: 'Clock' })];
+
+    expect(mergeFrames(base, [createFrame()], base)).toEqual([createFrame()]);
+  });
+});
+
+describe('mergeSpaces', () => {
+  it('merges space properties and their frames', () => {
+    const base = [createSpace([createFrame()])];
+    const local = [createSpace([createFrame({ x: 4 })], { name: 'Office' })];
+    const remote = [createSpace([createFrame(), createFrame({ id: 'frame-2' })])];
+
+    expect(mergeSpaces(base, local, remote)).toEqual([
+      createSpace([createFrame({ x: 4 }), createFrame({ id: 'frame-2' })], { name: 'Office' }),
+    ]);
+  });
+
+  it('reverts an edit when the edited state is used as base', () => {
+    // How undo and failed saves revert an edit while keeping the changes made since
+    const before = [createSpace([createFrame()])];
+    const after = [createSpace([createFrame(), createFrame({ id: 'frame-2' })])];
+    const current = [createSpace([createFrame({ x: 4 }), createFrame({ id: 'frame-2' })])];
+
+    expect(mergeSpaces(after, current, before)).toEqual([createSpace([createFrame({ x: 4 })])]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Three-way merge of dashboard spaces and frames
+ * Used to combine edits made in this tab with edits made concurrently in another
+ * tab. `base` is the last state both sides agreed on (as read from storage).
+ * Changes are merged per frame property, so moving a widget in one tab and
+ * editing its config in another keeps both. When both sides changed the same
+ * property, the local value wins.
+ */
+
+import type { FrameData, SpaceData } from './storage';
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge the properties of one object changed on either side
+ */
+function mergeProperties<T extends object>(base: T, local: T, remote: T): T {
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+  const baseRecord = base as Record<string, unknown>;
+  const localRecord = local as Record<string, unknown>;
+  const remoteRecord = remote as Record<string, unknown>;
+
+  keys.forEach((key) => {
+    const value = isEqual(localRecord[key], baseRecord[key]) ? remoteRecord[key] : localRecord[key];
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+
+  return merged as T;
+}
+
+/**
+ * Merge lists of items identified by id
+ * Additions from both sides are kept. A deletion wins over an unchanged item, but
+ * an item modified on the other side is kept.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+
+  // Keep the local order, then append items only known remotely
+  const ids = [...local.map((item) => item.id), ...remote.map((item) => item.id).filter((id) => !localById.has(id))];
+  const merged: T[] = [];
+
+  ids.forEach((id) => {
+    const baseItem = baseById.get(id);
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+
+    if (localItem && remoteItem) {
+      if (isEqual(localItem, remoteItem)) {
+        merged.push(localItem);
+      } else if (baseItem) {
+        merged.push(mergeItem(baseItem, localItem, remoteItem));
+      } else {
+        // Added on both sides with the same id
+        merged.push(localItem);
+      }
+    } else if (localItem) {
+      // Added locally, or deleted remotely
+      if (!baseItem || !isEqual(localItem, baseItem)) {
+        merged.push(localItem);
+      }
+    } else if (remoteItem) {
+      // Added remotely, or deleted locally
+      if (!baseItem || !isEqual(remoteItem, baseItem)) {
+        merged.push(remoteItem);
+      }
+    }
+  });
+
+  return merged;
+}
+
+export function mergeFrames(base: FrameData[], local: FrameData[], remote: FrameData[]): FrameData[] {
+  return mergeById(base, local, remote, mergeProperties);
+}
+
+export function mergeSpaces(base: SpaceData[], local: SpaceData[], remote: SpaceData[]): SpaceData[] {
+  return mergeById(base, local, remote, (baseSpace, localSpace, remoteSpace) => ({
+    ...mergeProperties(baseSpace, localSpace, remoteSpace),
+    frames: mergeFrames(baseSpace.frames, localSpace.frames, remoteSpace.frames),
+  }));
+}
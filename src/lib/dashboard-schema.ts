@@ -0,0 +1,120 @@
+/**
+ * JSON Schemas of the export file format and frame validation
+ */
+
+import type { FrameData, Theme } from './storage';
+import { validateJsonSchema, type JsonSchema } from './json-schema';
+import { MAX_GRID_COLS, MIN_GRID_COLS, type SpaceLayoutSettings } from './layout';
+import { pluginRegistry } from './plugin-registry';
+
+const GRID_RECT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['x', 'y', 'w', 'h'],
+  properties: {
+    x: { type: 'integer', minimum: 0 },
+    y: { type: 'integer', minimum: 0 },
+    w: { type: 'integer', minimum: 1 },
+    h: { type: 'integer', minimum: 1 },
+  },
+};
+
+export const FRAME_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'pluginId', 'x', 'y', 'w', 'h', 'config'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    pluginId: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    x: { type: 'integer', minimum: 0 },
+    y: { type: 'integer', minimum: 0 },
+    w: { type: 'integer', minimum: 1 },
+    h: { type: 'integer', minimum: 1 },
+    config: { type: 'object' },
+    isNsfw: { type: 'boolean' },
+    pluginVersion: { type: 'string' },
+    quarantine: { type: 'array', items: { type: 'string' } },
+    layouts: {
+      type: 'object',
+      properties: { md: GRID_RECT_SCHEMA, sm: GRID_RECT_SCHEMA, xs: GRID_RECT_SCHEMA, xxs: GRID_RECT_SCHEMA },
+    },
+  },
+};
+
+export const SPACE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    // Frames are validated one by one with validateFrame so a bad frame does not reject its space
+    frames: { type: 'array' },
+    layout: {
+      type: 'object',
+      required: ['cols', 'rowHeight', 'gap', 'compaction'],
+      properties: {
+        cols: { type: 'integer', minimum: MIN_GRID_COLS, maximum: MAX_GRID_COLS },
+        rowHeight: { type: 'integer', minimum: 1 },
+        gap: { type: 'integer', minimum: 0 },
+        compaction: { enum: ['vertical', 'horizontal', 'none'] },
+        maxWidth: { type: 'integer', minimum: 1 },
+        background: { type: 'string' },
+      },
+    },
+  },
+};
+
+export const DASHBOARD_EXPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['spaces'],
+  properties: {
+    version: { type: 'string' },
+    exportDate: { type: 'string' },
+    theme: { enum: ['light', 'dark', 'system'] },
+    spaces: { type: 'array', minItems: 1, items: SPACE_SCHEMA },
+    activeSpaceId: { type: 'string' },
+    secretMode: { enum: ['omit', 'encrypt', 'plain'] },
+    encryptedSecrets: { type: 'object' },
+  },
+};
+
+/**
+ * Export file content matching DASHBOARD_EXPORT_SCHEMA
+ * Frames are left unknown, they are checked one by one with isFrameStructure.
+ */
+export interface ValidatedDashboardExport {
+  version?: string;
+  theme?: Theme;
+  spaces: { id: string; name: string; frames?: unknown[]; layout?: SpaceLayoutSettings }[];
+  activeSpaceId?: string;
+  encryptedSecrets?: Record<string, unknown>;
+}
+
+/**
+ * Check the content of an export file against DASHBOARD_EXPORT_SCHEMA
+ * @param errors - Receives the error messages
+ */
+export function isDashboardExport(value: unknown, errors: string[]): value is ValidatedDashboardExport {
+  const exportErrors = validateJsonSchema(value, DASHBOARD_EXPORT_SCHEMA, 'file');
+  errors.push(...exportErrors);
+  return exportErrors.length === 0;
+}
+
+/**
+ * Check the structure of a frame (id, plugin, position, config object)
+ * Frames failing this check cannot be placed on the grid at all.
+ * @param errors - Receives the error messages
+ */
+export function isFrameStructure(frame: unknown, errors: string[]): frame is FrameData {
+  const frameErrors = validateJsonSchema(frame, FRAME_SCHEMA, 'frame');
+  errors.push(...frameErrors);
+  return frameErrors.length === 0;
+}
+
+/**
+ * Check a frame config against the schema declared by its plugin (or derived from its config fields)
+ * Frames of unknown plugins are not checked.
+ */
+export function validateFrameConfig(frame: FrameData): string[] {
+  const schema = pluginRegistry.getConfigSchema(frame.pluginId);
+  return schema ? validateJsonSchema(frame.config, schema, 'config') : [];
+}
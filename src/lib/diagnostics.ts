@@ -0,0 +1,98 @@
+/**
+ * Per-frame diagnostics, shown in the frame diagnostics drawer
+ * Records the recent requests of a frame (made with the frameId option of the HTTP
+ * client), its cache reads and its last error with stack, so a failing widget can
+ * be investigated without devtools. Kept in memory for this tab only.
+ */
+
+import type { RequestLogEntry } from './http-client';
+
+export type FrameActivity =
+  | { type: 'request'; time: number; request: RequestLogEntry }
+  | {
+      type: 'cache';
+      time: number;
+      /** Cache entry read, the frame id or a suffixed id such as frameId_labels */
+      cacheId: string;
+      result: 'hit' | 'stale' | 'miss';
+      /** Age of the cached data in seconds, undefined on a miss */
+      age?: number;
+    };
+
+export interface FrameError {
+  time: number;
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+export interface FrameDiagnostics {
+  /** Most recent first */
+  activity: FrameActivity[];
+  lastError: FrameError | null;
+}
+
+const MAX_ACTIVITY_ENTRIES = 50;
+
+const diagnostics = new Map<string, FrameDiagnostics>();
+const listeners = new Map<string, Set<() => void>>();
+
+// Cache ids are the frame id, optionally followed by _suffix
+function getFrameIdOfCache(cacheId: string): string {
+  return cacheId.split('_')[0];
+}
+
+function update(frameId: string, change: (current: FrameDiagnostics) => FrameDiagnostics): void {
+  const current = diagnostics.get(frameId) ?? { activity: [], lastError: null };
+  diagnostics.set(frameId, change(current));
+  listeners.get(frameId)?.forEach((listener) => listener());
+}
+
+function addActivity(frameId: string, activity: FrameActivity): void {
+  update(frameId, (current) => ({
+    ...current,
+    activity: [activity, ...current.activity].slice(0, MAX_ACTIVITY_ENTRIES),
+  }));
+}
+
+export function recordFrameRequest(frameId: string, request: RequestLogEntry): void {
+  addActivity(frameId, { type: 'request', time: request.startedAt, request });
+}
+
+export function recordCacheRead(cacheId: string, result: 'hit' | 'stale' | 'miss', age?: number): void {
+  addActivity(getFrameIdOfCache(cacheId), { type: 'cache', time: Date.now(), cacheId, result, age });
+}
+
+/**
+ * Record the error of a failed load, keeping its stack
+ */
+export function recordFrameError(frameId: string, error: unknown): void {
+  const frameError: FrameError =
+    error instanceof Error
+      ? { time: Date.now(), name: error.name, message: error.message, stack: error.stack }
+      : { time: Date.now(), name: 'Error', message: String(error) };
+  update(frameId, (current) => ({ ...current, lastError: frameError }));
+}
+
+export function getFrameDiagnostics(frameId: string): FrameDiagnostics {
+  return diagnostics.get(frameId) ?? { activity: [], lastError: null };
+}
+
+export function clearFrameDiagnostics(frameId: string): void {
+  diagnostics.delete(frameId);
+  listeners.get(frameId)?.forEach((listener) => listener());
+}
+
+/**
+ * Listen to new diagnostics of a frame
+ * @returns Unsubscribe function
+ */
+export function subscribeToFrameDiagnostics(frameId: string, listener: () => void): () => void {
+  const frameListeners = listeners.get(frameId) ?? new Set();
+  frameListeners.add(listener);
+  listeners.set(frameId, frameListeners);
+  return () => {
+    frameListeners.delete(listener);
+    if (frameListeners.size === 0) listeners.delete(frameId);
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Format a past time relative to now, e.g. "just now", "5 min ago", "3 h ago"
+ */
+export function formatTimeAgo(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days > 1 ? 's' : ''} ago`;
+}
+
+/**
+ * Format a size in bytes, e.g. "512 B", "1.5 KB", "3.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const kilobytes = bytes / 1024;
+  if (kilobytes < 1024) return `${kilobytes.toFixed(1)} KB`;
+  return `${(kilobytes / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Host and path of a URL, without its query, e.g. "api.example.com/v1/items"
+ */
+export function formatUrlPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
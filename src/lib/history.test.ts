@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CommandHistory, getTouchedSpaceIds, type HistoryEntry } from './history';
+
+function createEntry(label: string): HistoryEntry {
+  return { label, before: [], after: [] };
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes entries in order', () => {
+    const history = new CommandHistory();
+    const first = createEntry('first');
+    const second = createEntry('second');
+    history.push(first);
+    history.push(second);
+
+    expect(history.undo()).toBe(second);
+    expect(history.undo()).toBe(first);
+    expect(history.undo()).toBeUndefined();
+    expect(history.canUndo()).toBe(false);
+
+    expect(history.redo()).toBe(first);
+    expect(history.redo()).toBe(second);
+    expect(history.redo()).toBeUndefined();
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('peeks at the next entries without moving them', () => {
+    const history = new CommandHistory();
+    const entry = createEntry('first');
+    history.push(entry);
+
+    expect(history.peekUndo()).toBe(entry);
+    expect(history.peekRedo()).toBeUndefined();
+    history.undo();
+    expect(history.peekUndo()).toBeUndefined();
+    expect(history.peekRedo()).toBe(entry);
+  });
+
+  it('clears the redo stack on a new entry', () => {
+    const history = new CommandHistory();
+    history.push(createEntry('first'));
+    history.undo();
+    history.push(createEntry('second'));
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()?.label).toBe('second');
+  });
+
+  it('drops the oldest entries past its limit', () => {
+    const history = new CommandHistory(2);
+    ['first', 'second', 'third'].forEach((label) => history.push(createEntry(label)));
+
+    expect(history.undo()?.label).toBe('third');
+    expect(history.undo()?.label).toBe('second');
+    expect(history.undo()).toBeUndefined();
+  });
+
+  it('clears both stacks', () => {
+    const history = new CommandHistory();
+    history.push(createEntry('first'));
+    history.push(createEntry('second'));
+    history.undo();
+    history.clear();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+});
+
+describe('getTouchedSpaceIds', () => {
+  it('lists the spaces added, removed or changed by an entry', () => {
+    const unchanged = { id: 'unchanged', name: 'Home', frames: [] };
+    const entry: HistoryEntry = {
+      label: 'Edit',
+      before: [unchanged, { id: 'renamed', name: 'Work', frames: [] }, { id: 'removed', name: 'Old', frames: [] }],
+      after: [unchanged, { id: 'renamed', name: 'Office', frames: [] }, { id: 'added', name: 'New', frames: [] }],
+    };
+
+    expect(getTouchedSpaceIds(entry).sort()).toEqual(['added', 'removed', 'renamed']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Bounded undo/redo history of dashboard edits
+ * Each entry stores the spaces before and after an edit. Undoing re-applies the
+ * difference between them onto the current state (see dashboard-merge.ts), so
+ * edits made afterwards, in this tab or another one, are preserved.
+ */
+
+import type { SpaceData } from './storage';
+
+export interface HistoryEntry {
+  label: string;
+  before: SpaceData[];
+  after: SpaceData[];
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+export class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /**
+   * Record a new edit. Clears the redo stack.
+   */
+  push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * @returns The entry undo would revert, without reverting it
+   */
+  peekUndo(): HistoryEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  /**
+   * @returns The entry redo would re-apply, without re-applying it
+   */
+  peekRedo(): HistoryEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * @returns The entry to revert, or undefined if there is nothing to undo
+   */
+  undo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) {
+      this.redoStack.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * @returns The entry to re-apply, or undefined if there is nothing to redo
+   */
+  redo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) {
+      this.undoStack.push(entry);
+    }
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+/**
+ * Ids of the spaces an entry adds, removes or changes
+ */
+export function getTouchedSpaceIds(entry: HistoryEntry): string[] {
+  const before = new Map(entry.before.map((space) => [space.id, space]));
+  const after = new Map(entry.after.map((space) => [space.id, space]));
+  return Array.from(new Set([...before.keys(), ...after.keys()])).filter(
+    (id) => JSON.stringify(before.get(id)) !== JSON.stringify(after.get(id))
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Optional host permissions
+ * The extension only has access to the fixed APIs used by its plugins (manifest
+ * host_permissions). Access to servers configured by the user, e.g. a YouTrack
+ * instance, is requested per origin when a widget or connection is saved, from the
+ * config keys listed in Plugin.hostFields, and can be revoked from Settings →
+ * Permissions. Outside of the extension, every origin is considered granted.
+ */
+
+import type { PluginConfig } from '@/types/plugin';
+
+// Known grants by origin pattern, cleared whenever permissions change
+const grantCache = new Map<string, boolean>();
+const listeners = new Set<() => void>();
+let isListeningToChanges = false;
+
+function hasPermissionsApi(): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.permissions;
+}
+
+function notifyChange(): void {
+  grantCache.clear();
+  listeners.forEach((listener) => listener());
+}
+
+function listenToChanges(): void {
+  if (isListeningToChanges || !hasPermissionsApi()) {
+    return;
+  }
+  isListeningToChanges = true;
+  // Also fired for changes made from another tab or chrome://extensions
+  chrome.permissions.onAdded.addListener(notifyChange);
+  chrome.permissions.onRemoved.addListener(notifyChange);
+}
+
+/**
+ * Match pattern of the origin of a URL, e.g. "https://youtrack.example.com/*"
+ * Ports are left out: match patterns cover all ports of a host.
+ * @returns null if the URL is invalid or not http(s)
+ */
+export function getOriginPattern(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? `${protocol}//${hostname}/*` : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Origin patterns of the servers a plugin config points to
+ * @param hostFields - Plugin.hostFields of the plugin
+ * @param config - Config with its connection values resolved
+ */
+export function getConfigOrigins(hostFields: string[] | undefined, config: PluginConfig): string[] {
+  const patterns = (hostFields ?? [])
+    .map((key) => config[key])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '')
+    .map((value) => getOriginPattern(value.trim()))
+    .filter((pattern): pattern is string => !!pattern);
+  return Array.from(new Set(patterns));
+}
+
+/**
+ * Whether the extension may request a URL, from the manifest or a granted optional permission
+ */
+export async function hasHostPermission(url: string): Promise<boolean> {
+  const pattern = getOriginPattern(url);
+  if (!pattern || !hasPermissionsApi()) {
+    return true;
+  }
+
+  listenToChanges();
+  const cached = grantCache.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const granted = await chrome.permissions.contains({ origins: [pattern] });
+  grantCache.set(pattern, granted);
+  return granted;
+}
+
+/**
+ * Ask access to the origins of URLs or origin patterns, in a single browser prompt
+ * Must be called from a user gesture, e.g. the click saving a widget config. Origins
+ * already granted don't prompt again.
+ * @returns true if all origins are granted
+ */
+export async function requestHostPermissions(urls: string[]): Promise<boolean> {
+  const patterns = Array.from(
+    new Set(urls.map(getOriginPattern).filter((pattern): pattern is string => !!pattern))
+  );
+  if (patterns.length === 0 || !hasPermissionsApi()) {
+    return true;
+  }
+
+  try {
+    const granted = await chrome.permissions.request({ origins: patterns });
+    // onAdded is not fired for the calling page in every browser
+    if (granted) notifyChange();
+    return granted;
+  } catch {
+    // e.g. no user gesture; the widget asks again from its frame
+    return false;
+  }
+}
+
+/**
+ * Origins granted at runtime, without the fixed ones of the manifest
+ */
+export async function getGrantedOrigins(): Promise<string[]> {
+  if (!hasPermissionsApi()) {
+    return [];
+  }
+  const required = new Set(chrome.runtime.getManifest().host_permissions ?? []);
+  const { origins = [] } = await chrome.permissions.getAll();
+  return origins.filter((origin) => !required.has(origin)).sort();
+}
+
+/**
+ * Revoke access to an origin pattern; widgets using it ask for it again
+ */
+export async function revokeHostPermission(pattern: string): Promise<void> {
+  if (!hasPermissionsApi()) {
+    return;
+  }
+  await chrome.permissions.remove({ origins: [pattern] });
+  notifyChange();
+}
+
+/**
+ * Listen to permissions granted or revoked
+ * @returns Unsubscribe function
+ */
+export function subscribeToHostPermissions(listener: () => void): () => void {
+  listenToChanges();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Shared HTTP client of the plugin API modules
+ * Requests get a timeout and a trace id, transient failures (network, 5xx, 429)
+ * are retried with jittered exponential backoff, and failures are thrown as the
+ * typed errors of http-errors.ts. Requests go through monitoredFetch, so they count
+ * toward offline detection, and are recorded in the request log (Settings → Request Log)
+ * and, given a frameId, in the diagnostics of the frame. Origins without a host
+ * permission fail with PermissionError before any request is made.
+ */
+
+import { OfflineError, monitoredFetch } from './connectivity';
+import { recordFrameError, recordFrameRequest } from './diagnostics';
+import { hasHostPermission } from './host-permissions';
+import {
+  AuthError,
+  HttpError,
+  InvalidUrlError,
+  NetworkError,
+  ParseError,
+  PermissionError,
+  RateLimitError,
+  ServerError,
+  type HttpErrorDetails,
+} from './http-errors';
+import { createLogger } from './logger';
+
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Serialized as the JSON request body */
+  json?: unknown;
+  /** Milliseconds before the request is aborted, DEFAULT_TIMEOUT_MS by default */
+  timeout?: number;
+  /** Retries of transient failures; 2 for GET requests, 0 for others by default */
+  retries?: number;
+  /** Send the trace id as X-Trace-Id, for servers logging it */
+  sendTraceId?: boolean;
+  /** Name shown in the request log, e.g. the plugin id */
+  source?: string;
+  /** Frame making the request, whose diagnostics list it */
+  frameId?: string;
+  /** The URL itself holds a credential, e.g. a private iCal address: only its origin is logged */
+  secretUrl?: boolean;
+  /** Message of an error response, from its JSON body if it has one; a default is used when undefined */
+  errorMessage?: (body: unknown, status: number) => string | undefined;
+  signal?: AbortSignal;
+  cache?: RequestCache;
+}
+
+export interface RequestLogEntry {
+  traceId: string;
+  source: string;
+  method: string;
+  /** URL with its credentials removed, see redactUrl */
+  url: string;
+  startedAt: number;
+  durationMs: number;
+  attempts: number;
+  status?: number;
+  /** Name and message of the error, undefined on success */
+  error?: string;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Longer Retry-After delays fail right away, the refresh scheduler backs off instead
+const MAX_RETRY_DELAY_MS = 10 * 1000;
+const MAX_LOG_ENTRIES = 200;
+// Error messages quote at most this much of a response body, the debug log has all of it
+const MAX_ERROR_BODY_LENGTH = 200;
+const SECRET_PARAM_PATTERN = /key|token|secret|password|appid|auth/i;
+
+const logger = createLogger('HTTP');
+const requestLog: RequestLogEntry[] = [];
+const logListeners = new Set<() => void>();
+
+/**
+ * Random id of a request, as a UUID v4
+ */
+export function generateTraceId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+/**
+ * URL safe to log: user info is removed and secret-looking query parameters masked;
+ * a secret URL is reduced to its origin, e.g. https://calendar.google.com/***
+ */
+export function redactUrl(url: string, secretUrl = false): string {
+  try {
+    const parsed = new URL(url);
+    if (secretUrl) {
+      return parsed.pathname === '/' && !parsed.search ? parsed.origin : `${parsed.origin}/***`;
+    }
+    parsed.username = '';
+    parsed.password = '';
+    parsed.searchParams.forEach((_value, key) => {
+      if (SECRET_PARAM_PATTERN.test(key)) parsed.searchParams.set(key, '***');
+    });
+    return parsed.toString();
+  } catch {
+    return secretUrl ? '***' : url;
+  }
+}
+
+function addLogEntry(entry: RequestLogEntry, frameId?: string): void {
+  requestLog.unshift(entry);
+  requestLog.length = Math.min(requestLog.length, MAX_LOG_ENTRIES);
+  logListeners.forEach((listener) => listener());
+  if (frameId) {
+    recordFrameRequest(frameId, entry);
+  }
+  logger.debug(
+    `${entry.method} ${entry.url} → ${entry.status ?? entry.error} in ${entry.durationMs} ms` +
+      (entry.attempts > 1 ? ` (${entry.attempts} attempts)` : ''),
+    { traceId: entry.traceId, source: entry.source }
+  );
+}
+
+// Message of an error body following common conventions, e.g. { "message": "..." }
+function getDefaultErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { message, error, error_description: description } = body as Record<string, unknown>;
+  if (typeof message === 'string' && message) return message;
+  if (typeof description === 'string' && description) return description;
+  if (typeof error === 'string' && error) return error;
+  return undefined;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ERROR_BODY_LENGTH ? `${text.slice(0, MAX_ERROR_BODY_LENGTH)}…` : text;
+}
+
+async function toHttpError(response: Response, details: HttpErrorDetails, options: HttpRequestOptions): Promise<HttpError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
+  }
+
+  const { status } = response;
+  if (text) {
+    logger.debug(`HTTP ${status} response body`, { traceId: details.traceId, body: text });
+  }
+  const message = truncate(
+    options.errorMessage?.(body, status) ||
+    getDefaultErrorMessage(body) ||
+    `HTTP ${status}: ${text || response.statusText}`
+  );
+  const errorDetails = { ...details, status };
+
+  if (status === 401 || status === 403) return new AuthError(message, errorDetails);
+  if (status === 429) return new RateLimitError(message, errorDetails, parseRetryAfter(response.headers.get('Retry-After')));
+  if (status >= 500) return new ServerError(message, errorDetails);
+  return new HttpError(message, errorDetails);
+}
+
+// Delay before the next attempt, null if the error is not worth retrying
+function getRetryDelay(error: unknown, attempt: number): number | null {
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    const delay = error.retryAfter * 1000;
+    return delay <= MAX_RETRY_DELAY_MS ? delay : null;
+  }
+  const isTransient =
+    (error instanceof NetworkError && !(error instanceof OfflineError)) ||
+    error instanceof RateLimitError ||
+    (error instanceof ServerError && error.status !== 501);
+  // Full jitter, so frames failing together don't retry together
+  return isTransient ? Math.random() * RETRY_BASE_DELAY_MS * 2 ** attempt : null;
+}
+
+async function attemptRequest<T>(
+  url: string,
+  options: HttpRequestOptions,
+  details: HttpErrorDetails,
+  read: (response: Response) => Promise<T>
+): Promise<{ data: T; status: number }> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (options.json !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.sendTraceId && details.traceId) headers['X-Trace-Id'] = details.traceId;
+
+  try {
+    const response = await monitoredFetch(url, {
+      method: options.method ?? 'GET',
+      headers,
+      body: options.json !== undefined ? JSON.stringify(options.json) : undefined,
+      cache: options.cache,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw await toHttpError(response, details, options);
+    }
+
+    try {
+      return { data: await read(response), status: response.status };
+    } catch (e) {
+      if (timedOut || e instanceof HttpError) throw e;
+      throw new ParseError(`Invalid response: ${e instanceof Error ? e.message : String(e)}`, {
+        ...details,
+        status: response.status,
+      });
+    }
+  } catch (e) {
+    if (timedOut) {
+      throw new NetworkError(`Request timed out after ${Math.round(timeout / 1000)} s`, details);
+    }
+    if (e instanceof TypeError) {
+      throw new NetworkError(e.message || 'Network request failed', details);
+    }
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+}
+
+async function request<T>(url: string, options: HttpRequestOptions, read: (response: Response) => Promise<T>): Promise<T> {
+  const method = options.method ?? 'GET';
+  const retries = options.retries ?? (method === 'GET' ? DEFAULT_RETRIES : 0);
+  const details: HttpErrorDetails = { url: redactUrl(url, options.secretUrl), traceId: generateTraceId() };
+  const startedAt = Date.now();
+  const logEntry = (attempts: number, status?: number, error?: unknown): RequestLogEntry => ({
+    traceId: details.traceId!,
+    source: options.source ?? 'unknown',
+    method,
+    url: details.url!,
+    startedAt,
+    durationMs: Date.now() - startedAt,
+    attempts,
+    status,
+    error: error instanceof Error ? `${error.name}: ${error.message}` : error !== undefined ? String(error) : undefined,
+  });
+
+  // Failures before any request, logged like the failed requests
+  const fail = (error: HttpError): never => {
+    addLogEntry(logEntry(0, undefined, error), options.frameId);
+    if (options.frameId) {
+      recordFrameError(options.frameId, error);
+    }
+    throw error;
+  };
+
+  let host: string;
+  try {
+    host = new URL(url).host;
+  } catch {
+    return fail(new InvalidUrlError('Invalid URL, check the widget settings', details));
+  }
+
+  // A fetch without permission fails as a network error, which would count toward offline detection
+  if (!(await hasHostPermission(url))) {
+    fail(new PermissionError(`No access to ${host}, allow it from the widget`, details));
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { data, status } = await attemptRequest(url, options, details, read);
+      addLogEntry(logEntry(attempt + 1, status), options.frameId);
+      return data;
+    } catch (e) {
+      const delay = attempt < retries && !options.signal?.aborted ? getRetryDelay(e, attempt) : null;
+      if (delay === null) {
+        addLogEntry(logEntry(attempt + 1, e instanceof HttpError ? e.status : undefined, e), options.frameId);
+        if (options.frameId) {
+          recordFrameError(options.frameId, e);
+        }
+        throw e;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Request a JSON resource
+ * @throws HttpError or one of its subclasses
+ */
+export function httpJson<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+  return request(url, options, (response) => response.json() as Promise<T>);
+}
+
+/**
+ * Request a text resource, e.g. an iCal file
+ * @throws HttpError or one of its subclasses
+ */
+export function httpText(url: string, options: HttpRequestOptions = {}): Promise<string> {
+  return request(url, options, (response) => response.text());
+}
+
+/**
+ * Send a request whose response body is not needed, e.g. an update
+ * @throws HttpError or one of its subclasses
+ */
+export function httpSend(url: string, options: HttpRequestOptions = {}): Promise<void> {
+  return request(url, options, async () => undefined);
+}
+
+/**
+ * Requests of this tab, most recent first
+ */
+export function getRequestLog(): RequestLogEntry[] {
+  return [...requestLog];
+}
+
+export function clearRequestLog(): void {
+  requestLog.length = 0;
+  logListeners.forEach((listener) => listener());
+}
+
+/**
+ * Listen to new requests in the log
+ * @returns Unsubscribe function
+ */
+export function subscribeToRequestLog(listener: () => void): () => void {
+  logListeners.add(listener);
+  return () => {
+    logListeners.delete(listener);
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Errors of the shared HTTP client (see http-client.ts)
+ * Plugins can tell what went wrong with instanceof, e.g. ask to reconnect on AuthError.
+ */
+
+export interface HttpErrorDetails {
+  /** HTTP status, undefined when no response was received */
+  status?: number;
+  /** URL of the request with its credentials removed, see redactUrl */
+  url?: string;
+  /** Id of the request in the request log, sent as X-Trace-Id when enabled */
+  traceId?: string;
+}
+
+/**
+ * Failed request, base of the other errors; used as is for other 4xx responses
+ */
+export class HttpError extends Error {
+  readonly status?: number;
+  readonly url?: string;
+  readonly traceId?: string;
+
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = details.status;
+    this.url = details.url;
+    this.traceId = details.traceId;
+  }
+}
+
+/**
+ * Credentials missing, invalid or expired (401, 403)
+ */
+export class AuthError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Too many requests (429)
+ */
+export class RateLimitError extends HttpError {
+  /** Seconds to wait before the next request, from the Retry-After header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: HttpErrorDetails = {}, retryAfter?: number) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Server failure (5xx)
+ */
+export class ServerError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * No response: server unreachable, connection dropped or timed out
+ */
+export class NetworkError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Request to an origin the extension has no host permission for, see host-permissions.ts
+ */
+export class PermissionError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'PermissionError';
+  }
+}
+
+/**
+ * URL that can't be parsed, e.g. a mistyped server address in a widget config
+ */
+export class InvalidUrlError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'InvalidUrlError';
+  }
+}
+
+/**
+ * Response body that can't be read as expected, e.g. invalid JSON
+ */
+export class ParseError extends HttpError {
+  constructor(message: string, details: HttpErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ParseError';
+  }
+}
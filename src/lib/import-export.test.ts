@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyImport,
+  buildDashboardExport,
+  parseDashboardImport,
+  unlockImportSecrets,
+  type SecretExportMode,
+} from './import-export';
+import type { FrameData, SpaceData, Theme } from './storage';
+import { DEFAULT_SPACE_LAYOUT } from './layout';
+
+function createFrame(overrides: Partial<FrameData> = {}): FrameData {
+  return { id: 'frame-1', pluginId: 'clock', x: 0, y: 0, w: 4, h: 4, config: { showDate: true }, ...overrides };
+}
+
+function createSpace(frames: FrameData[], overrides: Partial<SpaceData> = {}): SpaceData {
+  return { id: 'space-1', name: 'Work', frames, ...overrides };
+}
+
+const meteoFrame = createFrame({ id: 'meteo-1', pluginId: 'meteo', config: { cityName: 'Paris', apiKey: 'secret-key' } });
+
+async function roundTrip(spaces: SpaceData[], theme?: Theme, secretMode?: SecretExportMode, passphrase?: string) {
+  const exported = await buildDashboardExport(spaces, spaces[0].id, theme, secretMode, passphrase);
+  return parseDashboardImport(JSON.stringify(exported));
+}
+
+describe('dashboard export', () => {
+  it('round-trips spaces with their grid settings and adjusted layouts', async () => {
+    const layout = { ...DEFAULT_SPACE_LAYOUT, cols: 24, compaction: 'none' as const };
+    const frame = createFrame({ name: 'Clock', layouts: { sm: { x: 0, y: 2, w: 6, h: 4 } } });
+
+    const imported = await roundTrip([createSpace([frame], { layout })], 'dark');
+
+    expect(imported).toMatchObject({ activeSpaceId: 'space-1', theme: 'dark', isLegacy: false, skippedFrames: [] });
+    expect(imported.spaces).toMatchObject([createSpace([frame], { layout })]);
+  });
+
+  it('leaves out credential and connection references', async () => {
+    const frame = createFrame({ config: { showDate: true, credentialRefs: { token: 'cred-1' }, connectionId: 'conn-1' } });
+
+    const exported = await buildDashboardExport([createSpace([frame])], 'space-1');
+
+    expect(exported.spaces[0].frames[0].config).toEqual({ showDate: true });
+  });
+
+  it('omits secrets when asked to', async () => {
+    const imported = await roundTrip([createSpace([meteoFrame])], undefined, 'omit');
+
+    expect(imported.spaces[0].frames[0].config).toEqual({ cityName: 'Paris' });
+    expect(imported.encryptedSecrets).toBeUndefined();
+  });
+
+  it('encrypts secrets with a passphrase', async () => {
+    const imported = await roundTrip([createSpace([meteoFrame])], undefined, 'encrypt', 'passphrase');
+
+    expect(imported.spaces[0].frames[0].config).toEqual({ cityName: 'Paris' });
+    await expect(unlockImportSecrets(imported, 'wrong')).rejects.toThrow();
+    const unlocked = await unlockImportSecrets(imported, 'passphrase');
+    expect(unlocked.spaces[0].frames[0].config).toEqual(meteoFrame.config);
+    expect(unlocked.encryptedSecrets).toBeUndefined();
+  });
+
+  it('requires a passphrase to encrypt secrets', async () => {
+    await expect(buildDashboardExport([createSpace([meteoFrame])], 'space-1', undefined, 'encrypt')).rejects.toThrow(
+      'A passphrase is required to encrypt secrets.'
+    );
+  });
+});
+
+describe('parseDashboardImport', () => {
+  it('rejects files that are not JSON or not an export', () => {
+    expect(() => parseDashboardImport('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseDashboardImport('{"widgets": []}')).toThrow('Invalid export file format');
+    expect(() => parseDashboardImport('{"spaces": [{"name": "No id"}]}')).toThrow('Invalid export file');
+  });
+
+  it('skips broken frames and quarantines frames with an invalid config', () => {
+    const imported = parseDashboardImport(JSON.stringify({
+      spaces: [createSpace([createFrame(), { id: 'broken' } as FrameData, createFrame({ id: 'invalid', config: { showDate: 'yes' } })])],
+    }));
+
+    expect(imported.spaces[0].frames.map((frame) => frame.id)).toEqual(['frame-1', 'invalid']);
+    expect(imported.spaces[0].frames[0].quarantine).toBeUndefined();
+    expect(imported.spaces[0].frames[1].quarantine).toHaveLength(1);
+    expect(imported.skippedFrames).toHaveLength(1);
+  });
+
+  it('falls back to the first space when the active one is missing', () => {
+    const imported = parseDashboardImport(JSON.stringify({ spaces: [createSpace([])], activeSpaceId: 'deleted' }));
+
+    expect(imported.activeSpaceId).toBe('space-1');
+  });
+
+  it('imports the legacy frames-only format into one space', () => {
+    const imported = parseDashboardImport(JSON.stringify({ frames: [createFrame()] }));
+
+    expect(imported).toMatchObject({ isLegacy: true, activeSpaceId: 'imported-space' });
+    expect(imported.spaces[0].frames).toMatchObject([createFrame()]);
+  });
+});
+
+describe('applyImport', () => {
+  it('replaces the spaces, renaming duplicated frame ids', () => {
+    const imported = [createSpace([createFrame()], { id: 'a' }), createSpace([createFrame()], { id: 'b' })];
+
+    const result = applyImport([createSpace([])], imported.map((space) => ({ space })), 'replace');
+
+    expect(result.map((space) => space.id)).toEqual(['a', 'b']);
+    expect(result[1].frames[0].id).not.toBe('frame-1');
+  });
+
+  it('adds new spaces, renaming taken ids', () => {
+    const current = [createSpace([createFrame()])];
+
+    const result = applyImport(current, [{ space: createSpace([createFrame()]) }], 'merge');
+
+    expect(result).toHaveLength(2);
+    expect(result[1].id).not.toBe('space-1');
+    expect(result[1].frames[0].id).not.toBe('frame-1');
+  });
+
+  it('moves frames merged into a space to free slots', () => {
+    const current = [createSpace([createFrame()])];
+
+    const result = applyImport(current, [{ space: createSpace([createFrame({ id: 'imported' })]), targetSpaceId: 'space-1' }], 'merge');
+
+    expect(result[0].frames.map(({ id, x, y }) => ({ id, x, y }))).toEqual([
+      { id: 'frame-1', x: 0, y: 0 },
+      { id: 'imported', x: 4, y: 0 },
+    ]);
+  });
+
+  it('rescales frames merged into a space with fewer columns', () => {
+    const target = createSpace([], { layout: { ...DEFAULT_SPACE_LAYOUT, cols: 6 } });
+    const imported = createSpace([createFrame({ id: 'wide', x: 12, w: 12, layouts: { sm: { x: 0, y: 0, w: 6, h: 4 } } })], {
+      id: 'imported',
+      layout: { ...DEFAULT_SPACE_LAYOUT, cols: 24 },
+    });
+
+    const [space] = applyImport([target], [{ space: imported, targetSpaceId: 'space-1' }], 'merge');
+
+    expect(space.frames).toHaveLength(1);
+    expect(space.frames[0]).toMatchObject({ x: 3, w: 3 });
+    expect(space.frames[0].layouts).toBeUndefined();
+  });
+
+  it('clamps frames wider than the target space', () => {
+    const target = createSpace([], { layout: { ...DEFAULT_SPACE_LAYOUT, cols: 6 } });
+    const imported = createSpace([createFrame({ x: 2, w: 12 })], { id: 'imported', layout: { ...DEFAULT_SPACE_LAYOUT, cols: 6 } });
+
+    const [space] = applyImport([target], [{ space: imported, targetSpaceId: 'space-1' }], 'merge');
+
+    expect(space.frames[0]).toMatchObject({ x: 0, w: 6 });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Dashboard export file format, import parsing and merging
+ */
+
+import type { FrameData, SpaceData, Theme } from './storage';
+import type { PluginConfig } from '@/types/plugin';
+import { collidesWithFrames, findAvailablePosition, getSpaceLayout, rescaleFrames } from './layout';
+import { isDashboardExport, isFrameStructure, validateFrameConfig } from './dashboard-schema';
+import { migrateFrameConfig } from './migrations';
+import { decryptWithPassphrase, encryptWithPassphrase, isEncryptedPayload, type EncryptedPayload } from './crypto';
+import { pluginRegistry } from './plugin-registry';
+import { CREDENTIAL_REFS_KEY, getCredentialRefs } from './vault';
+import { CONNECTION_ID_KEY } from './connections';
+
+export const EXPORT_FORMAT_VERSION = '1.0.4';
+
+/**
+ * How plugin secrets (see Plugin.secretFields) are written to an export file
+ * - omit: removed from the file, to be entered again on import
+ * - encrypt: moved to `encryptedSecrets`, encrypted with a passphrase
+ * - plain: left in the frame configs
+ */
+export type SecretExportMode = 'omit' | 'encrypt' | 'plain';
+
+export interface DashboardExport {
+  version: string;
+  exportDate: string;
+  theme?: Theme;
+  spaces: SpaceData[];
+  activeSpaceId: string;
+  secretMode?: SecretExportMode;
+  encryptedSecrets?: EncryptedPayload;
+}
+
+export interface ParsedImport {
+  spaces: SpaceData[];
+  activeSpaceId: string;
+  theme?: Theme;
+  isLegacy: boolean;
+  /** Secrets still to be decrypted with unlockImportSecrets */
+  encryptedSecrets?: EncryptedPayload;
+  /** Validation errors of the frames that could not be imported */
+  skippedFrames: string[];
+}
+
+// Secret values by space id, frame id and config key
+type DashboardSecrets = Record<string, Record<string, PluginConfig>>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSelection {
+  /** Imported space, with only the selected frames */
+  space: SpaceData;
+  /** Existing space to merge the frames into, undefined to create a new space */
+  targetSpaceId?: string;
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * List the secret config keys of a frame that have no value
+ */
+export function getMissingSecrets(frame: FrameData): string[] {
+  return pluginRegistry.getSecretFields(frame.pluginId).filter((field) => !hasValue(frame.config[field]));
+}
+
+/**
+ * Count the secret values stored in the given spaces
+ */
+export function countSecrets(spaces: SpaceData[]): number {
+  return spaces.reduce((total, space) => total + space.frames.reduce((frameTotal, frame) => {
+    const refs = getCredentialRefs(frame.config);
+    return frameTotal + pluginRegistry.getSecretFields(frame.pluginId)
+      .filter((field) => hasValue(frame.config[field]) || refs[field]).length;
+  }, 0), 0);
+}
+
+function splitSecrets(frame: FrameData): { config: PluginConfig; secrets: PluginConfig } {
+  const config = withoutCredentialRefs(frame.config);
+  const secrets: PluginConfig = {};
+  pluginRegistry.getSecretFields(frame.pluginId).forEach((field) => {
+    if (hasValue(config[field])) {
+      secrets[field] = config[field];
+    }
+    delete config[field];
+  });
+  return { config, secrets };
+}
+
+// Vault credential and connection ids mean nothing outside this browser
+function withoutCredentialRefs(config: PluginConfig): PluginConfig {
+  const rest = { ...config };
+  delete rest[CREDENTIAL_REFS_KEY];
+  delete rest[CONNECTION_ID_KEY];
+  return rest;
+}
+
+/**
+ * Build the content of an export file
+ * Connection and credential references must have been resolved beforehand (see
+ * resolveSpacesConnections and resolveSpacesCredentials).
+ * @param secretMode - How plugin secrets are written, see SecretExportMode
+ * @param passphrase - Required when secretMode is 'encrypt'
+ */
+export async function buildDashboardExport(
+  spaces: SpaceData[],
+  activeSpaceId: string,
+  theme?: Theme,
+  secretMode: SecretExportMode = 'plain',
+  passphrase?: string
+): Promise<DashboardExport> {
+  if (secretMode === 'encrypt' && !passphrase) {
+    throw new Error('A passphrase is required to encrypt secrets.');
+  }
+
+  const secrets: DashboardSecrets = {};
+  const exportedSpaces = spaces.map((space) => ({
+    id: space.id,
+    name: space.name,
+    layout: space.layout,
+    frames: space.frames.map((frame) => {
+      let config = withoutCredentialRefs(frame.config);
+      if (secretMode !== 'plain') {
+        const split = splitSecrets(frame);
+        config = split.config;
+        if (Object.keys(split.secrets).length > 0) {
+          secrets[space.id] = { ...secrets[space.id], [frame.id]: split.secrets };
+        }
+      }
+      return {
+        id: frame.id,
+        pluginId: frame.pluginId,
+        name: frame.name,
+        x: frame.x,
+        y: frame.y,
+        w: frame.w,
+        h: frame.h,
+        layouts: frame.layouts,
+        config,
+        isNsfw: frame.isNsfw,
+        pluginVersion: frame.pluginVersion,
+      };
+    }),
+  }));
+
+  return {
+    version: EXPORT_FORMAT_VERSION,
+    exportDate: new Date().toISOString(),
+    theme,
+    spaces: exportedSpaces,
+    activeSpaceId,
+    secretMode,
+    encryptedSecrets: secretMode === 'encrypt' && passphrase
+      ? await encryptWithPassphrase(JSON.stringify(secrets), passphrase)
+      : undefined,
+  };
+}
+
+/**
+ * Decrypt the secrets of an import and put them back into the frame configs
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlockImportSecrets(importData: ParsedImport, passphrase: string): Promise<ParsedImport> {
+  if (!importData.encryptedSecrets) {
+    return importData;
+  }
+
+  const secrets: DashboardSecrets = JSON.parse(await decryptWithPassphrase(importData.encryptedSecrets, passphrase));
+  return {
+    ...importData,
+    encryptedSecrets: undefined,
+    spaces: importData.spaces.map((space) => ({
+      ...space,
+      frames: space.frames.map((frame) => {
+        const frameSecrets = secrets[space.id]?.[frame.id];
+        return frameSecrets ? { ...frame, config: { ...frame.config, ...frameSecrets } } : frame;
+      }),
+    })),
+  };
+}
+
+/**
+ * Validate the frames of an imported space
+ * Frames with a broken structure are dropped and reported in `skipped`; frames
+ * whose config does not match their plugin schema are kept in quarantine.
+ */
+function validateImportedFrames(frames: unknown[], spaceName: string, skipped: string[]): FrameData[] {
+  const validFrames: FrameData[] = [];
+  frames.forEach((rawFrame, index) => {
+    const structureErrors: string[] = [];
+    if (!isFrameStructure(rawFrame, structureErrors)) {
+      skipped.push(`"${spaceName}", widget #${index + 1}: ${structureErrors.join('; ')}`);
+      return;
+    }
+
+    // Upgrade configs of older plugin versions before checking them against the current schema
+    const frame = migrateFrameConfig(rawFrame);
+    const configErrors = validateFrameConfig(frame);
+    validFrames.push(configErrors.length > 0 ? { ...frame, quarantine: configErrors } : { ...frame, quarantine: undefined });
+  });
+  return validFrames;
+}
+
+/**
+ * Parse the content of an export file
+ * Supports the spaces format (v1.0.4+) and the legacy frames-only format.
+ * @throws Error with a user-facing message if the file cannot be imported
+ */
+export function parseDashboardImport(content: string): ParsedImport {
+  let importData: unknown;
+  try {
+    importData = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const skippedFrames: string[] = [];
+
+  // Handle new format (v1.0.4+) with spaces and theme
+  if (typeof importData === 'object' && importData !== null && 'spaces' in importData && Array.isArray(importData.spaces)) {
+    const errors: string[] = [];
+    if (!isDashboardExport(importData, errors)) {
+      throw new Error(`Invalid export file:\n${errors.slice(0, 5).join('\n')}`);
+    }
+
+    const spaces: SpaceData[] = importData.spaces.map((space) => ({
+      id: space.id,
+      name: space.name,
+      layout: space.layout,
+      frames: validateImportedFrames(space.frames || [], space.name, skippedFrames),
+    }));
+
+    // Validate active space exists
+    const storedActiveSpaceId = importData.activeSpaceId;
+    const activeSpaceId = storedActiveSpaceId && spaces.some((s) => s.id === storedActiveSpaceId)
+      ? storedActiveSpaceId
+      : spaces[0].id;
+    const encryptedSecrets = isEncryptedPayload(importData.encryptedSecrets) ? importData.encryptedSecrets : undefined;
+
+    return { spaces, activeSpaceId, theme: importData.theme, isLegacy: false, encryptedSecrets, skippedFrames };
+  }
+
+  // Handle legacy format (frames only)
+  if (typeof importData === 'object' && importData !== null && 'frames' in importData && Array.isArray(importData.frames)) {
+    const validFrames = validateImportedFrames(importData.frames, 'Imported', skippedFrames);
+    if (validFrames.length === 0) {
+      throw new Error('No valid frames found in the import file.');
+    }
+
+    return {
+      spaces: [{ id: 'imported-space', name: 'Imported', frames: validFrames }],
+      activeSpaceId: 'imported-space',
+      isLegacy: true,
+      skippedFrames,
+    };
+  }
+
+  throw new Error('Invalid export file format. Expected "spaces" array or legacy "frames" array.');
+}
+
+function generateUniqueId(prefix: string, usedIds: Set<string>): string {
+  let index = 0;
+  let id = `${prefix}-${Date.now()}`;
+  while (usedIds.has(id)) {
+    index++;
+    id = `${prefix}-${Date.now()}-${index}`;
+  }
+  usedIds.add(id);
+  return id;
+}
+
+/**
+ * Give a new id to frames whose id is already used anywhere in the dashboard
+ * Frame ids must be unique across spaces since caches are keyed by frame id.
+ */
+function remapFrameIds(frames: FrameData[], usedFrameIds: Set<string>): FrameData[] {
+  return frames.map((frame) => {
+    if (!usedFrameIds.has(frame.id)) {
+      usedFrameIds.add(frame.id);
+      return frame;
+    }
+    return { ...frame, id: generateUniqueId('frame', usedFrameIds) };
+  });
+}
+
+/**
+ * Compute the spaces resulting from an import
+ * In replace mode, the selected spaces replace the current ones. In merge mode,
+ * they are added as new spaces or merged into existing ones; merged frames are
+ * rescaled to the columns of their new space, keep their position when it is free
+ * and are moved to the first free slot otherwise.
+ */
+export function applyImport(current: SpaceData[], selections: ImportSelection[], mode: ImportMode): SpaceData[] {
+  if (mode === 'replace') {
+    const usedFrameIds = new Set<string>();
+    return selections.map(({ space }) => ({ ...space, frames: remapFrameIds(space.frames, usedFrameIds) }));
+  }
+
+  const result = current.map((space) => ({ ...space, frames: [...space.frames] }));
+  const usedSpaceIds = new Set(result.map((space) => space.id));
+  const usedFrameIds = new Set(result.flatMap((space) => space.frames.map((frame) => frame.id)));
+
+  selections.forEach(({ space, targetSpaceId }) => {
+    const frames = remapFrameIds(space.frames, usedFrameIds);
+    const target = targetSpaceId ? result.find((s) => s.id === targetSpaceId) : undefined;
+
+    if (!target) {
+      const id = usedSpaceIds.has(space.id) ? generateUniqueId('space', usedSpaceIds) : space.id;
+      usedSpaceIds.add(id);
+      result.push({ ...space, id, frames });
+      return;
+    }
+
+    // Frames are rescaled to the columns of the target space. Positions adjusted for
+    // narrower grids don't fit it either, they are derived again.
+    const cols = getSpaceLayout(target).cols;
+    rescaleFrames(frames, getSpaceLayout(space).cols, cols).forEach((importedFrame) => {
+      const frame = { ...importedFrame };
+      delete frame.layouts;
+      frame.w = Math.min(frame.w, cols);
+      frame.x = Math.min(frame.x, cols - frame.w);
+      const position = collidesWithFrames(target.frames, frame.x, frame.y, frame.w, frame.h)
+        ? findAvailablePosition(target.frames, frame.w, frame.h, cols)
+        : { x: frame.x, y: frame.y };
+      target.frames.push({ ...frame, ...position });
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,111 @@
+/**
+ * Minimal JSON Schema validator
+ * Supports the subset of draft-07 used by the export format and plugin config
+ * schemas: type, enum, properties, required, additionalProperties, items,
+ * minimum/maximum, minLength/maxLength and minItems.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  description?: string;
+}
+
+function getType(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = getType(value);
+  // Integers are numbers too
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema
+ * @param path - Path of the value, prefixed to error messages
+ * @returns Error messages, empty if the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${getType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} character(s)`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} character(s)`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (getType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+
+    schema.required?.forEach((key) => {
+      if (object[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    });
+
+    Object.entries(object).forEach(([key, propertyValue]) => {
+      // Undefined properties are dropped by JSON serialization
+      if (propertyValue === undefined) return;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData } from './storage';
+import {
+  collidesWithFrames,
+  findAvailablePosition,
+  getBreakpointLayout,
+  packLayout,
+  rescaleFrames,
+  type GridRect,
+  type PackItem,
+} from './layout';
+
+function createFrame(overrides: Partial<FrameData> = {}): FrameData {
+  return { id: 'frame-1', pluginId: 'clock', x: 0, y: 0, w: 4, h: 4, config: {}, ...overrides };
+}
+
+function createItem(id: string, x: number, y: number, w: number, h: number): PackItem {
+  return { id, x, y, w, h, minW: 2, minH: 2 };
+}
+
+function expectNoOverlap(layout: Record<string, GridRect>, cols: number) {
+  const placed: GridRect[] = [];
+  Object.values(layout).forEach((rect) => {
+    expect(rect.x).toBeGreaterThanOrEqual(0);
+    expect(rect.x + rect.w).toBeLessThanOrEqual(cols);
+    expect(collidesWithFrames(placed, rect.x, rect.y, rect.w, rect.h)).toBe(false);
+    placed.push(rect);
+  });
+}
+
+describe('findAvailablePosition', () => {
+  it('returns the first free slot, top to bottom then left to right', () => {
+    const frames = [{ x: 0, y: 0, w: 4, h: 4 }, { x: 8, y: 0, w: 4, h: 2 }];
+    expect(findAvailablePosition(frames, 4, 4)).toEqual({ x: 4, y: 0 });
+    expect(findAvailablePosition(frames, 6, 2)).toEqual({ x: 4, y: 2 });
+    expect(findAvailablePosition(frames, 12, 2)).toEqual({ x: 0, y: 4 });
+  });
+});
+
+describe('packLayout', () => {
+  const items = [createItem('small', 0, 0, 4, 2), createItem('tall', 4, 0, 4, 6), createItem('medium', 8, 0, 4, 4)];
+
+  it('places the tallest and widest frames first', () => {
+    expect(packLayout(items, 12)).toEqual({
+      tall: { x: 0, y: 0, w: 4, h: 6 },
+      medium: { x: 4, y: 0, w: 4, h: 4 },
+      small: { x: 8, y: 0, w: 4, h: 2 },
+    });
+  });
+
+  it('keeps the reading order when asked to', () => {
+    expect(packLayout(items, 12, true)).toEqual({
+      small: { x: 0, y: 0, w: 4, h: 2 },
+      tall: { x: 4, y: 0, w: 4, h: 6 },
+      medium: { x: 8, y: 0, w: 4, h: 4 },
+    });
+  });
+
+  it('fills the gaps left between frames', () => {
+    const layout = packLayout([createItem('a', 0, 0, 6, 2), createItem('b', 6, 10, 6, 2), createItem('c', 0, 20, 12, 2)], 12, true);
+    expect(layout).toEqual({
+      a: { x: 0, y: 0, w: 6, h: 2 },
+      b: { x: 6, y: 0, w: 6, h: 2 },
+      c: { x: 0, y: 2, w: 12, h: 2 },
+    });
+  });
+
+  it('places frames at the highest position, then the leftmost', () => {
+    const layout = packLayout([createItem('a', 0, 0, 8, 4), createItem('b', 8, 0, 4, 2), createItem('c', 0, 4, 4, 2)], 12, true);
+    expect(layout.c).toEqual({ x: 8, y: 2, w: 4, h: 2 });
+  });
+
+  it('keeps frames within their minimum size and the grid width', () => {
+    const layout = packLayout([{ ...createItem('small', 0, 0, 1, 1), minW: 3, minH: 3 }, createItem('wide', 0, 4, 20, 2)], 12);
+    expect(layout.small).toMatchObject({ w: 3, h: 3 });
+    expect(layout.wide).toMatchObject({ x: 0, w: 12 });
+  });
+
+  it('never overlaps frames', () => {
+    const mixed = Array.from({ length: 20 }, (_, i) => createItem(`frame-${i}`, (i * 5) % 12, i * 2, 2 + (i % 5), 2 + ((i * 3) % 4)));
+    for (const cols of [4, 6, 12]) {
+      expectNoOverlap(packLayout(mixed, cols), cols);
+      expectNoOverlap(packLayout(mixed, cols, true), cols);
+    }
+  });
+});
+
+describe('rescaleFrames', () => {
+  it('returns the frames unchanged when the columns do not change', () => {
+    const frames = [createFrame({ layouts: { sm: { x: 0, y: 0, w: 6, h: 4 } } })];
+    expect(rescaleFrames(frames, 12, 12)).toBe(frames);
+  });
+
+  it('scales edges so side by side frames stay side by side', () => {
+    const frames = [createFrame({ id: 'a', w: 6 }), createFrame({ id: 'b', x: 6, w: 6 })];
+    expect(rescaleFrames(frames, 12, 24).map(({ id, x, w }) => ({ id, x, w }))).toEqual([
+      { id: 'a', x: 0, w: 12 },
+      { id: 'b', x: 12, w: 12 },
+    ]);
+  });
+
+  it('keeps frames at their minimum size and drops adjusted layouts', () => {
+    const [frame] = rescaleFrames([createFrame({ w: 2, layouts: { sm: { x: 0, y: 0, w: 6, h: 4 } } })], 12, 4);
+    expect(frame).toMatchObject({ x: 0, w: 2 });
+    expect(frame.layouts).toBeUndefined();
+  });
+});
+
+describe('getBreakpointLayout', () => {
+  const frames = [createFrame({ id: 'a', w: 6 }), createFrame({ id: 'b', x: 6, w: 6 })];
+
+  it('stacks frames that no longer fit side by side', () => {
+    expect(getBreakpointLayout(frames, 'sm')).toEqual({
+      a: { x: 0, y: 0, w: 6, h: 4 },
+      b: { x: 0, y: 4, w: 6, h: 4 },
+    });
+  });
+
+  it('keeps adjusted positions and places the other frames in free slots', () => {
+    const tuned = [{ ...frames[0], layouts: { sm: { x: 0, y: 4, w: 6, h: 4 } } }, frames[1]];
+    expect(getBreakpointLayout(tuned, 'sm')).toEqual({
+      a: { x: 0, y: 4, w: 6, h: 4 },
+      b: { x: 0, y: 0, w: 6, h: 4 },
+    });
+  });
+});
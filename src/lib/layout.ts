@@ -0,0 +1,295 @@
+import type { FrameData, SpaceData } from './storage';
+
+export const GRID_COLS = 12;
+
+export type CompactionMode = 'vertical' | 'horizontal' | 'none';
+
+/**
+ * Grid settings of a space, edited from its layout settings dialog
+ */
+export interface SpaceLayoutSettings {
+  /** Columns of the wide (lg) grid, narrower breakpoints have proportionally fewer */
+  cols: number;
+  /** Height of a grid row in px */
+  rowHeight: number;
+  /** Space between widgets in px */
+  gap: number;
+  /** Direction widgets move to fill gaps, 'none' keeps them where they are dropped */
+  compaction: CompactionMode;
+  /** Width of the grid in px, centered; full width when undefined */
+  maxWidth?: number;
+  /** CSS color of the page behind the grid, the theme background when undefined */
+  background?: string;
+}
+
+export const DEFAULT_SPACE_LAYOUT: SpaceLayoutSettings = {
+  cols: GRID_COLS,
+  rowHeight: 60,
+  gap: 10,
+  compaction: 'none',
+};
+
+export const MIN_GRID_COLS = 4;
+export const MAX_GRID_COLS = 48;
+
+/**
+ * Grid breakpoints, by minimum dashboard width, as used by react-grid-layout
+ * The lg layout is the position of the frames (x, y, w, h); smaller ones are derived
+ * from it unless adjusted by hand, see getBreakpointLayout.
+ */
+export type Breakpoint = 'lg' | 'md' | 'sm' | 'xs' | 'xxs';
+
+export const BREAKPOINTS: Record<Breakpoint, number> = { lg: 1200, md: 996, sm: 768, xs: 480, xxs: 0 };
+
+// Columns of each breakpoint with the default grid of 12 columns
+export const BREAKPOINT_COLS: Record<Breakpoint, number> = { lg: GRID_COLS, md: 10, sm: 6, xs: 4, xxs: 2 };
+
+export const BREAKPOINT_LABELS: Record<Breakpoint, string> = {
+  lg: 'Wide',
+  md: 'Laptop',
+  sm: 'Tablet',
+  xs: 'Phone',
+  xxs: 'Narrow',
+};
+
+// Size of new frames and smallest frame size, unless declared by their plugin
+export const DEFAULT_FRAME_SIZE = 4;
+export const MIN_FRAME_SIZE = 2;
+
+export interface GridRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Layout settings of a space, defaults filled in
+ */
+export function getSpaceLayout(space?: SpaceData): SpaceLayoutSettings {
+  return { ...DEFAULT_SPACE_LAYOUT, ...space?.layout };
+}
+
+/**
+ * Columns of each breakpoint for a wide grid of `cols` columns, in the proportions of BREAKPOINT_COLS
+ */
+export function getBreakpointCols(cols: number = GRID_COLS): Record<Breakpoint, number> {
+  return Object.fromEntries(
+    (Object.keys(BREAKPOINT_COLS) as Breakpoint[]).map((breakpoint) => [
+      breakpoint,
+      Math.max(1, Math.round((BREAKPOINT_COLS[breakpoint] * cols) / GRID_COLS)),
+    ])
+  ) as Record<Breakpoint, number>;
+}
+
+/**
+ * Check if two rectangles overlap
+ */
+export function doRectsOverlap(
+  x1: number, y1: number, w1: number, h1: number,
+  x2: number, y2: number, w2: number, h2: number
+): boolean {
+  return !(x1 + w1 <= x2 || x2 + w2 <= x1 || y1 + h1 <= y2 || y2 + h2 <= y1);
+}
+
+/**
+ * Check if a rectangle overlaps any of the given frames
+ */
+export function collidesWithFrames(frames: GridRect[], x: number, y: number, w: number, h: number): boolean {
+  return frames.some((frame) => doRectsOverlap(x, y, w, h, frame.x, frame.y, frame.w, frame.h));
+}
+
+/**
+ * Find the first available position for a new widget, scanning top to bottom, left to right
+ */
+export function findAvailablePosition(
+  frames: GridRect[],
+  newWidth: number,
+  newHeight: number,
+  cols: number = GRID_COLS
+): { x: number; y: number } {
+  const maxY = frames.length > 0
+    ? Math.max(...frames.map(f => f.y + f.h)) + 1
+    : 0;
+
+  // Try positions from top to bottom, left to right
+  for (let y = 0; y <= maxY; y++) {
+    for (let x = 0; x <= cols - newWidth; x++) {
+      if (!collidesWithFrames(frames, x, y, newWidth, newHeight)) {
+        return { x, y };
+      }
+    }
+  }
+
+  // If no position found, place it below all existing widgets
+  return { x: 0, y: maxY };
+}
+
+// Frame fitted to a narrower grid: columns of every breakpoint are about as wide, so
+// its width is kept up to the full grid width, and its column is scaled
+function scaleRect(rect: GridRect, cols: number, fromCols: number): GridRect {
+  const w = Math.min(cols, Math.max(MIN_FRAME_SIZE, rect.w));
+  const x = Math.min(Math.round((rect.x * cols) / fromCols), cols - w);
+  return { x, y: rect.y, w, h: rect.h };
+}
+
+/**
+ * Layout of the frames on a narrower grid, derived from their lg position
+ * Frames keep their reading order (top to bottom, left to right) and their size,
+ * narrowed to the grid width, and move to the first free slot when their scaled
+ * position is taken.
+ */
+export function deriveLayout(frames: FrameData[], cols: number, fromCols: number = GRID_COLS): Record<string, GridRect> {
+  const placed: GridRect[] = [];
+  const layout: Record<string, GridRect> = {};
+  [...frames]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach((frame) => {
+      const rect = scaleRect(frame, cols, fromCols);
+      const position = collidesWithFrames(placed, rect.x, rect.y, rect.w, rect.h)
+        ? findAvailablePosition(placed, rect.w, rect.h, cols)
+        : { x: rect.x, y: rect.y };
+      layout[frame.id] = { ...rect, ...position };
+      placed.push(layout[frame.id]);
+    });
+  return layout;
+}
+
+/**
+ * Whether the layout of a breakpoint was adjusted by hand, rather than derived
+ */
+export function isBreakpointTuned(frames: FrameData[], breakpoint: Breakpoint): boolean {
+  return breakpoint !== 'lg' && frames.some((frame) => frame.layouts?.[breakpoint]);
+}
+
+/**
+ * Position of each frame at a breakpoint, by frame id
+ * Adjusted layouts keep the position set by hand; frames added since then are
+ * placed in the first free slot.
+ * @param gridCols - Columns of the wide grid of the space
+ */
+export function getBreakpointLayout(
+  frames: FrameData[],
+  breakpoint: Breakpoint,
+  gridCols: number = GRID_COLS
+): Record<string, GridRect> {
+  const cols = getBreakpointCols(gridCols)[breakpoint];
+  if (breakpoint === 'lg') {
+    return Object.fromEntries(frames.map(({ id, x, y, w, h }) => [id, { x, y, w, h }]));
+  }
+  if (!isBreakpointTuned(frames, breakpoint)) {
+    return deriveLayout(frames, cols, gridCols);
+  }
+
+  const placed: GridRect[] = [];
+  const layout: Record<string, GridRect> = {};
+  frames
+    .filter((frame) => frame.layouts?.[breakpoint])
+    .forEach((frame) => {
+      const rect = frame.layouts![breakpoint]!;
+      const w = Math.min(rect.w, cols);
+      layout[frame.id] = { ...rect, w, x: Math.min(rect.x, cols - w) };
+      placed.push(layout[frame.id]);
+    });
+  frames
+    .filter((frame) => !frame.layouts?.[breakpoint])
+    .forEach((frame) => {
+      const { w, h } = scaleRect(frame, cols, gridCols);
+      layout[frame.id] = { ...findAvailablePosition(placed, w, h, cols), w, h };
+      placed.push(layout[frame.id]);
+    });
+  return layout;
+}
+
+/**
+ * Frames with the layout of a breakpoint stored as adjusted by hand
+ */
+export function setBreakpointLayout(
+  frames: FrameData[],
+  breakpoint: Exclude<Breakpoint, 'lg'>,
+  layout: Record<string, GridRect>
+): FrameData[] {
+  return frames.map((frame) =>
+    layout[frame.id] ? { ...frame, layouts: { ...frame.layouts, [breakpoint]: layout[frame.id] } } : frame
+  );
+}
+
+/**
+ * Frames with the hand adjusted layout of a breakpoint removed, so it is derived again
+ */
+export function resetBreakpointLayout(frames: FrameData[], breakpoint: Exclude<Breakpoint, 'lg'>): FrameData[] {
+  return frames.map((frame) => {
+    if (!frame.layouts?.[breakpoint]) return frame;
+    const layouts = { ...frame.layouts };
+    delete layouts[breakpoint];
+    return { ...frame, layouts: Object.keys(layouts).length > 0 ? layouts : undefined };
+  });
+}
+
+/**
+ * Frames of a grid whose column count changes, with their position and width scaled
+ * Edges are scaled rather than sizes, so side by side widgets stay side by side.
+ * Layouts adjusted for narrower grids are derived again.
+ */
+export function rescaleFrames(frames: FrameData[], fromCols: number, toCols: number): FrameData[] {
+  if (fromCols === toCols) return frames;
+
+  const ratio = toCols / fromCols;
+  const placed: GridRect[] = [];
+  const rects = new Map<string, GridRect>();
+  [...frames]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach((frame) => {
+      const left = Math.round(frame.x * ratio);
+      const w = Math.min(toCols, Math.max(MIN_FRAME_SIZE, Math.round((frame.x + frame.w) * ratio) - left));
+      const x = Math.min(left, toCols - w);
+      const position = collidesWithFrames(placed, x, frame.y, w, frame.h)
+        ? findAvailablePosition(placed, w, frame.h, toCols)
+        : { x, y: frame.y };
+      const rect = { ...position, w, h: frame.h };
+      rects.set(frame.id, rect);
+      placed.push(rect);
+    });
+
+  return frames.map((frame) => {
+    const rescaled = { ...frame, ...rects.get(frame.id)! };
+    delete rescaled.layouts;
+    return rescaled;
+  });
+}
+
+export interface PackItem extends GridRect {
+  id: string;
+  minW: number;
+  minH: number;
+}
+
+/**
+ * Arrangement of frames without gaps, for the auto-arrange command
+ * Frames are placed one at a time on a skyline (the lowest free row of each column)
+ * at the position leaving them highest, then leftmost. They are taken tallest and
+ * widest first, which packs best, or in their current reading order with keepOrder.
+ * Frames keep their size, at least their minimum size and at most the grid width.
+ */
+export function packLayout(items: PackItem[], cols: number, keepOrder = false): Record<string, GridRect> {
+  const sized = items.map((item) => ({
+    ...item,
+    w: Math.min(cols, Math.max(item.minW, item.w)),
+    h: Math.max(item.minH, item.h),
+  }));
+  const readingOrder = (a: PackItem, b: PackItem) => a.y - b.y || a.x - b.x;
+  sized.sort(keepOrder ? readingOrder : (a, b) => b.h - a.h || b.w - a.w || readingOrder(a, b));
+
+  const skyline = new Array<number>(cols).fill(0);
+  const layout: Record<string, GridRect> = {};
+  sized.forEach((item) => {
+    let best = { x: 0, y: Infinity };
+    for (let x = 0; x <= cols - item.w; x++) {
+      const y = Math.max(...skyline.slice(x, x + item.w));
+      if (y < best.y) best = { x, y };
+    }
+    layout[item.id] = { ...best, w: item.w, h: item.h };
+    skyline.fill(best.y + item.h, best.x, best.x + item.w);
+  });
+  return layout;
+}
@@ -0,0 +1,136 @@
+/**
+ * Lock mode
+ * A locked space can't be edited: widgets can't be moved, resized, deleted or
+ * configured, and their header is hidden. The whole dashboard or single spaces can be
+ * locked, and unlocking can require a PIN, e.g. on a shared kiosk. The lock is kept on
+ * this device only, so a kiosk stays locked without locking the devices syncing the
+ * same dashboard. The PIN keeps passers-by from editing, it is not access control.
+ */
+
+import { hashSecret, verifySecret, type SecretHash } from './crypto';
+import { getLocalBackend } from './storage-backends';
+
+export interface LockStatus {
+  isDashboardLocked: boolean;
+  lockedSpaceIds: string[];
+  hasPin: boolean;
+}
+
+interface StoredLock {
+  isDashboardLocked: boolean;
+  lockedSpaceIds: string[];
+  pin?: SecretHash;
+}
+
+export const PIN_PATTERN = /^\d{4,12}$/;
+
+const LOCK_KEY = 'dashboard_lock';
+
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+async function loadStoredLock(): Promise<StoredLock> {
+  const stored = await getLocalBackend().get<StoredLock>(LOCK_KEY);
+  return { isDashboardLocked: false, lockedSpaceIds: [], ...stored };
+}
+
+async function saveStoredLock(stored: StoredLock): Promise<void> {
+  await getLocalBackend().set(LOCK_KEY, stored);
+  notifyListeners();
+}
+
+// Unlocking and changing the PIN need the current PIN, when one is set
+async function checkPin(stored: StoredLock, pin: string | undefined): Promise<void> {
+  if (stored.pin && !(pin && (await verifySecret(pin, stored.pin)))) {
+    throw new Error('Wrong PIN');
+  }
+}
+
+export async function getLockStatus(): Promise<LockStatus> {
+  const { isDashboardLocked, lockedSpaceIds, pin } = await loadStoredLock();
+  return { isDashboardLocked, lockedSpaceIds, hasPin: !!pin };
+}
+
+/**
+ * Whether a space is locked, by itself or with the whole dashboard
+ */
+export function isSpaceLocked(status: LockStatus, spaceId: string): boolean {
+  return status.isDashboardLocked || status.lockedSpaceIds.includes(spaceId);
+}
+
+/**
+ * Lock or unlock every space
+ * @throws Error if unlocking with a wrong PIN
+ */
+export async function setDashboardLocked(locked: boolean, pin?: string): Promise<void> {
+  const stored = await loadStoredLock();
+  if (!locked) {
+    await checkPin(stored, pin);
+  }
+  await saveStoredLock({ ...stored, isDashboardLocked: locked });
+}
+
+/**
+ * Lock or unlock a single space
+ * @throws Error if unlocking with a wrong PIN
+ */
+export async function setSpaceLocked(spaceId: string, locked: boolean, pin?: string): Promise<void> {
+  const stored = await loadStoredLock();
+  if (!locked) {
+    await checkPin(stored, pin);
+  }
+  const lockedSpaceIds = stored.lockedSpaceIds.filter((id) => id !== spaceId);
+  await saveStoredLock({ ...stored, lockedSpaceIds: locked ? [...lockedSpaceIds, spaceId] : lockedSpaceIds });
+}
+
+/**
+ * Unlock a space, and the dashboard if it is locked as a whole
+ * @throws Error if the PIN is wrong
+ */
+export async function unlockSpace(spaceId: string, pin?: string): Promise<void> {
+  const stored = await loadStoredLock();
+  await checkPin(stored, pin);
+  await saveStoredLock({
+    ...stored,
+    isDashboardLocked: false,
+    lockedSpaceIds: stored.lockedSpaceIds.filter((id) => id !== spaceId),
+  });
+}
+
+/**
+ * Set, change or remove (null) the PIN asked to unlock
+ * @param currentPin - Required when a PIN is already set
+ * @throws Error if the current PIN is wrong or the new one is not 4 to 12 digits
+ */
+export async function setLockPin(pin: string | null, currentPin?: string): Promise<void> {
+  if (pin !== null && !PIN_PATTERN.test(pin)) {
+    throw new Error('The PIN must be 4 to 12 digits');
+  }
+  const stored = await loadStoredLock();
+  await checkPin(stored, currentPin);
+  const next = { ...stored };
+  if (pin === null) {
+    delete next.pin;
+  } else {
+    next.pin = await hashSecret(pin);
+  }
+  await saveStoredLock(next);
+}
+
+/**
+ * Listen to lock changes, including from other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToLock(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+getLocalBackend().subscribe((key) => {
+  if (key === LOCK_KEY) notifyListeners();
+});
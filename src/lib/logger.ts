@@ -0,0 +1,80 @@
+/**
+ * Structured logger
+ * Modules log through a scoped logger (createLogger('Cache')) instead of calling
+ * console directly, so messages share a format and debug messages, e.g. request
+ * traces, stay hidden unless debug logging is enabled (Settings → Request Log).
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  time: number;
+  level: LogLevel;
+  /** Module or plugin logging the entry, e.g. 'Cache' */
+  scope: string;
+  message: string;
+  /** Error or values logged with the message */
+  data?: unknown;
+}
+
+export interface Logger {
+  debug: (message: string, data?: unknown) => void;
+  info: (message: string, data?: unknown) => void;
+  warn: (message: string, data?: unknown) => void;
+  error: (message: string, data?: unknown) => void;
+}
+
+// Kept in localStorage rather than a storage backend so it is known before the first log
+const DEBUG_KEY = 'debug_logging';
+
+let debugEnabled = readDebugSetting();
+
+function readDebugSetting(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage.getItem(DEBUG_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function isDebugLogging(): boolean {
+  return debugEnabled;
+}
+
+/**
+ * Show or hide debug messages, in this tab and the next ones
+ */
+export function setDebugLogging(enabled: boolean): void {
+  debugEnabled = enabled;
+  try {
+    if (enabled) {
+      localStorage.setItem(DEBUG_KEY, 'true');
+    } else {
+      localStorage.removeItem(DEBUG_KEY);
+    }
+  } catch {
+    // Not persisted, e.g. in the background service worker
+  }
+}
+
+function log(entry: LogEntry): void {
+  if (entry.level === 'debug' && !debugEnabled) {
+    return;
+  }
+  const text = `[${entry.scope}] ${entry.message}`;
+  if (entry.data !== undefined) {
+    console[entry.level](text, entry.data);
+  } else {
+    console[entry.level](text);
+  }
+}
+
+/**
+ * Logger prefixing its messages with a scope
+ * @param scope - Module or plugin name, e.g. 'Cache' or 'Meteo'
+ */
+export function createLogger(scope: string): Logger {
+  const at = (level: LogLevel) => (message: string, data?: unknown) =>
+    log({ time: Date.now(), level, scope, message, data });
+  return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+}
@@ -1,3 +1,8 @@
+import { httpJson } from './http-client';
+import { createLogger } from './logger';
+
+const logger = createLogger('Metadata');
+
 export interface PageMetadata {
   title: string;
   favicon: string;
@@ -18,8 +23,8 @@ export async function fetchPageMetadata(url: string): Promise<PageMetadata> {
   let pageTitle = title;
   try {
     const proxyUrl = `https://api.allorigins.win/get?url=${encodeURIComponent(normalizedUrl)}`;
-    const response = await fetch(proxyUrl);
-    const data = await response.json();
+    // The title fallback is good enough, don't make the user wait for retries
+    const data = await httpJson<{ contents?: string }>(proxyUrl, { retries: 0, source: 'bookmarks' });
     
     if (data.contents) {
       const parser = new DOMParser();
@@ -48,7 +53,7 @@ export async function fetchPageMetadata(url: string): Promise<PageMetadata> {
       }
     }
   } catch (error) {
-    console.warn('Failed to fetch page metadata, using fallback:', error);
+    logger.warn('Failed to fetch page metadata, using fallback:', error);
   }
 
   return {
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameData } from './storage';
+import {
+  CURRENT_SCHEMA_VERSION,
+  DASHBOARD_MIGRATIONS,
+  DEFAULT_SPACE_ID,
+  compareVersions,
+  migrateDashboardData,
+  migrateFrameConfig,
+  registerPluginMigrations,
+} from './migrations';
+
+function createFrame(overrides: Partial<FrameData> = {}): FrameData {
+  return { id: 'frame-1', pluginId: 'clock', x: 0, y: 0, w: 4, h: 4, config: {}, ...overrides };
+}
+
+function getMigration(version: number) {
+  const migration = DASHBOARD_MIGRATIONS.find((m) => m.version === version);
+  if (!migration) throw new Error(`No dashboard migration v${version}`);
+  return migration;
+}
+
+describe('DASHBOARD_MIGRATIONS', () => {
+  it('has increasing versions ending at CURRENT_SCHEMA_VERSION', () => {
+    const versions = DASHBOARD_MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  describe('v1: legacy top-level frames', () => {
+    const { migrate } = getMigration(1);
+
+    it('moves legacy frames into a default space', () => {
+      const frames = [createFrame()];
+      expect(migrate({ frames, updatedAt: 1 })).toEqual({
+        updatedAt: 1,
+        spaces: [{ id: DEFAULT_SPACE_ID, name: 'Default', frames }],
+        activeSpaceId: DEFAULT_SPACE_ID,
+      });
+    });
+
+    it('keeps existing spaces and drops the legacy frames', () => {
+      const spaces = [{ id: 'space-1', name: 'Work', frames: [] }];
+      expect(migrate({ frames: [createFrame()], spaces, activeSpaceId: 'space-1' })).toEqual({
+        spaces,
+        activeSpaceId: 'space-1',
+      });
+    });
+
+    it('leaves data without legacy frames unchanged', () => {
+      expect(migrate({})).toEqual({});
+    });
+  });
+});
+
+describe('migrateDashboardData', () => {
+  it('returns a default space for missing or invalid data', () => {
+    for (const raw of [null, undefined, 'text', [1, 2]]) {
+      expect(migrateDashboardData(raw)).toEqual({
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        spaces: [{ id: DEFAULT_SPACE_ID, name: 'Default', frames: [] }],
+        activeSpaceId: DEFAULT_SPACE_ID,
+      });
+    }
+  });
+
+  it('upgrades legacy data', () => {
+    const frame = createFrame();
+    const data = migrateDashboardData({ frames: [frame] });
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.spaces).toEqual([{ id: DEFAULT_SPACE_ID, name: 'Default', frames: [frame] }]);
+    expect(data).not.toHaveProperty('frames');
+  });
+
+  it('skips migrations older than the stored schema version', () => {
+    const data = migrateDashboardData({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      frames: [createFrame()],
+      spaces: [{ id: 'space-1', name: 'Work', frames: [] }],
+      activeSpaceId: 'space-1',
+    });
+    expect(data.frames).toHaveLength(1);
+    expect(data.spaces.map((s) => s.id)).toEqual(['space-1']);
+  });
+
+  it('keeps a newer schema version', () => {
+    const data = migrateDashboardData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, spaces: [] });
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+  });
+
+  it('drops spaces and frames without an id', () => {
+    const frame = createFrame();
+    const data = migrateDashboardData({
+      spaces: [{ id: 'space-1', name: 'Work', frames: [frame, { pluginId: 'clock' }, null] }, { name: 'No id' }, 'text'],
+    });
+    expect(data.spaces).toEqual([{ id: 'space-1', name: 'Work', frames: [frame] }]);
+  });
+
+  it('falls back to the first space when the active one is missing', () => {
+    const spaces = [
+      { id: 'space-1', name: 'Work', frames: [] },
+      { id: 'space-2', name: 'Home', frames: [] },
+    ];
+    expect(migrateDashboardData({ spaces, activeSpaceId: 'space-2' }).activeSpaceId).toBe('space-2');
+    expect(migrateDashboardData({ spaces, activeSpaceId: 'deleted' }).activeSpaceId).toBe('space-1');
+    expect(migrateDashboardData({ spaces, activeSpaceId: 2 }).activeSpaceId).toBe('space-1');
+  });
+
+  it('migrates the config of every frame', () => {
+    registerPluginMigrations('test-dashboard', '2.0.0', [
+      { version: '2.0.0', migrate: (config) => ({ ...config, migrated: true }) },
+    ]);
+    const data = migrateDashboardData({
+      spaces: [{ id: 'space-1', name: 'Work', frames: [createFrame({ pluginId: 'test-dashboard' })] }],
+    });
+    expect(data.spaces[0].frames[0]).toMatchObject({ config: { migrated: true }, pluginVersion: '2.0.0' });
+  });
+});
+
+describe('migrateFrameConfig', () => {
+  registerPluginMigrations('test-frame', '1.2.0', [
+    // Registered out of order on purpose, migrations run sorted by version
+    { version: '1.2.0', migrate: (config) => ({ ...config, steps: [...(config.steps as string[]), '1.2.0'] }) },
+    { version: '1.1.0', migrate: (config) => ({ ...config, steps: [...(config.steps as string[]), '1.1.0'] }) },
+  ]);
+
+  it('returns frames of unknown plugins unchanged', () => {
+    const frame = createFrame({ pluginId: 'unknown-plugin' });
+    expect(migrateFrameConfig(frame)).toBe(frame);
+  });
+
+  it('applies every migration, in order, to frames without a version', () => {
+    const frame = createFrame({ pluginId: 'test-frame', config: { steps: [] } });
+    expect(migrateFrameConfig(frame)).toEqual({
+      ...frame,
+      config: { steps: ['1.1.0', '1.2.0'] },
+      pluginVersion: '1.2.0',
+    });
+  });
+
+  it('applies only migrations newer than the frame version', () => {
+    const frame = createFrame({ pluginId: 'test-frame', pluginVersion: '1.1.0', config: { steps: [] } });
+    expect(migrateFrameConfig(frame).config).toEqual({ steps: ['1.2.0'] });
+  });
+
+  it('returns up-to-date frames unchanged', () => {
+    const frame = createFrame({ pluginId: 'test-frame', pluginVersion: '1.2.0', config: { steps: [] } });
+    expect(migrateFrameConfig(frame)).toBe(frame);
+  });
+
+  it('skips migrations newer than the current plugin version', () => {
+    registerPluginMigrations('test-unreleased', '1.0.0', [
+      { version: '2.0.0', migrate: (config) => ({ ...config, unreleased: true }) },
+    ]);
+    const frame = createFrame({ pluginId: 'test-unreleased' });
+    expect(migrateFrameConfig(frame)).toEqual({ ...frame, pluginVersion: '1.0.0' });
+  });
+});
+
+describe('compareVersions', () => {
+  it('compares dotted versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0', '1.0.0')).toBe(0);
+    expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+});
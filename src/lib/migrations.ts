@@ -0,0 +1,182 @@
+/**
+ * Schema migrations for stored dashboard data
+ * Every change to the stored DashboardData format gets a new schema version and
+ * a migration step. Plugins can register their own FrameData.config migrations,
+ * keyed by the plugin version that introduced the new config format.
+ */
+
+import type { PluginConfig, PluginConfigMigration } from '@/types/plugin';
+import type { DashboardData, FrameData, SpaceData } from './storage';
+import { createLogger } from './logger';
+
+const logger = createLogger('Migrations');
+
+export interface DashboardMigration {
+  /** Schema version produced by this migration */
+  version: number;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+interface PluginMigrationEntry {
+  currentVersion: string;
+  migrations: PluginConfigMigration[];
+}
+
+export const DEFAULT_SPACE_ID = 'default-space';
+
+/**
+ * Ordered list of dashboard migrations. Never edit a released step: append a new one
+ * and bump the version instead.
+ */
+export const DASHBOARD_MIGRATIONS: DashboardMigration[] = [
+  {
+    version: 1,
+    description: 'Move legacy top-level frames into a default space',
+    migrate: (data) => {
+      const { frames, ...rest } = data;
+      if (Array.isArray(frames) && !Array.isArray(rest.spaces)) {
+        return {
+          ...rest,
+          spaces: [{ id: DEFAULT_SPACE_ID, name: 'Default', frames }],
+          activeSpaceId: DEFAULT_SPACE_ID,
+        };
+      }
+      return rest;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = DASHBOARD_MIGRATIONS[DASHBOARD_MIGRATIONS.length - 1].version;
+
+const pluginMigrations: Map<string, PluginMigrationEntry> = new Map();
+
+/**
+ * Register the current version and config migrations of a plugin
+ * Called by the plugin registry for every registered plugin
+ */
+export function registerPluginMigrations(
+  pluginId: string,
+  currentVersion: string,
+  migrations: PluginConfigMigration[] = []
+): void {
+  const sorted = [...migrations].sort((a, b) => compareVersions(a.version, b.version));
+  pluginMigrations.set(pluginId, { currentVersion, migrations: sorted });
+}
+
+/**
+ * Get the current version of a registered plugin, used to stamp new frames
+ */
+export function getCurrentPluginVersion(pluginId: string): string | undefined {
+  return pluginMigrations.get(pluginId)?.currentVersion;
+}
+
+/**
+ * Compare two dotted version strings (e.g. "1.0.3" and "1.1.0")
+ * @returns negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const bParts = b.split('.').map((part) => Number.parseInt(part, 10) || 0);
+  const length = Math.max(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Apply the pending config migrations of a frame's plugin
+ * Frames without a pluginVersion predate versioning and get every migration applied.
+ * Frames of unknown plugins are returned unchanged.
+ */
+export function migrateFrameConfig(frame: FrameData): FrameData {
+  const entry = pluginMigrations.get(frame.pluginId);
+  if (!entry) {
+    return frame;
+  }
+
+  const fromVersion = frame.pluginVersion ?? '0.0.0';
+  if (compareVersions(fromVersion, entry.currentVersion) >= 0) {
+    return frame;
+  }
+
+  let config: PluginConfig = frame.config || {};
+  for (const migration of entry.migrations) {
+    if (
+      compareVersions(migration.version, fromVersion) > 0 &&
+      compareVersions(migration.version, entry.currentVersion) <= 0
+    ) {
+      config = migration.migrate(config);
+    }
+  }
+
+  return { ...frame, config, pluginVersion: entry.currentVersion };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Frames and spaces need an id to be rendered and saved, anything else is kept as stored
+function isFrameData(value: unknown): value is FrameData {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.pluginId === 'string';
+}
+
+function isSpaceData(value: unknown): value is SpaceData {
+  return isRecord(value) && typeof value.id === 'string';
+}
+
+function createDefaultSpace(): SpaceData {
+  return {
+    id: DEFAULT_SPACE_ID,
+    name: 'Default',
+    frames: [],
+  };
+}
+
+/**
+ * Upgrade raw stored data to the current schema
+ * Runs every dashboard migration newer than the stored schemaVersion, then the
+ * plugin config migrations of each frame, and finally ensures the result has at
+ * least one space and a valid activeSpaceId.
+ */
+export function migrateDashboardData(raw: unknown): DashboardData {
+  let data: Record<string, unknown> = isRecord(raw) ? { ...raw } : {};
+  const storedVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  for (const migration of DASHBOARD_MIGRATIONS) {
+    if (migration.version > storedVersion) {
+      data = migration.migrate(data);
+      logger.info(`Applied dashboard migration v${migration.version}: ${migration.description}`);
+    }
+  }
+
+  const spaces: SpaceData[] = Array.isArray(data.spaces)
+    ? data.spaces.filter(isSpaceData).map((space) => ({
+        ...space,
+        frames: (Array.isArray(space.frames) ? space.frames.filter(isFrameData) : []).map(migrateFrameConfig),
+      }))
+    : [];
+
+  if (spaces.length === 0) {
+    spaces.push(createDefaultSpace());
+  }
+
+  const storedActiveSpaceId = data.activeSpaceId;
+  const activeSpaceId =
+    typeof storedActiveSpaceId === 'string' && spaces.some((s) => s.id === storedActiveSpaceId)
+      ? storedActiveSpaceId
+      : spaces[0].id;
+
+  return {
+    ...data,
+    schemaVersion: Math.max(storedVersion, CURRENT_SCHEMA_VERSION),
+    spaces,
+    activeSpaceId,
+  };
+}
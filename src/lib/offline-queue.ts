@@ -0,0 +1,168 @@
+/**
+ * Writes made while offline, e.g. a task completed in Tasktrove
+ * They are kept on this machine and replayed in order once back online, through
+ * the plugin replayWrite function with the frame config at that time. Replayed
+ * writes must be idempotent: two tabs coming back online may both send them.
+ */
+
+import type { QueuedWrite } from '@/types/plugin';
+import { OfflineError, isOnline, subscribeToConnectivity } from './connectivity';
+import { resolveFrameConfig } from './connections';
+import { createLogger } from './logger';
+import { pluginRegistry } from './plugin-registry';
+import { retryFailedJobs } from './refresh-scheduler';
+import { loadDashboardData, type FrameData } from './storage';
+import { getLocalBackend } from './storage-backends';
+
+const logger = createLogger('Offline');
+
+const QUEUE_KEY = 'offline_write_queue';
+
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+let replaying: Promise<void> | null = null;
+const listeners = new Set<(writes: QueuedWrite[]) => void>();
+
+async function loadQueue(): Promise<QueuedWrite[]> {
+  return (await getLocalBackend().get<QueuedWrite[]>(QUEUE_KEY)) || [];
+}
+
+/**
+ * Apply a change to the queue and save it
+ * Changes are serialized so concurrent updates from this tab don't overwrite each other.
+ */
+function updateQueue(update: (writes: QueuedWrite[]) => QueuedWrite[]): Promise<void> {
+  const run = pendingUpdate.then(async () => {
+    const writes = await loadQueue();
+    const next = update(writes);
+    if (next !== writes) {
+      await getLocalBackend().set(QUEUE_KEY, next);
+      listeners.forEach((listener) => listener(next));
+    }
+  });
+  pendingUpdate = run.catch(() => undefined);
+  return run;
+}
+
+export function getQueuedWrites(): Promise<QueuedWrite[]> {
+  return loadQueue();
+}
+
+/**
+ * Queue a write to replay once back online
+ */
+export function queueWrite(write: Omit<QueuedWrite, 'id' | 'createdAt'>): Promise<void> {
+  const queued: QueuedWrite = {
+    ...write,
+    id: `write-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+  };
+  return updateQueue((writes) => [...writes, queued]);
+}
+
+/**
+ * Send a write now, or queue it if the dashboard is offline
+ * @param send - Sends the write, rejecting with OfflineError when offline
+ * @returns true if the write was queued
+ * @throws errors of send other than OfflineError
+ */
+export async function sendOrQueueWrite(
+  write: Omit<QueuedWrite, 'id' | 'createdAt'>,
+  send: () => Promise<unknown>
+): Promise<boolean> {
+  if (isOnline()) {
+    try {
+      await send();
+      return false;
+    } catch (e) {
+      if (!(e instanceof OfflineError)) throw e;
+    }
+  }
+  await queueWrite(write);
+  return true;
+}
+
+// Sends a write, false if it should stay queued
+async function replayWrite(write: QueuedWrite, frames: Map<string, FrameData>): Promise<boolean> {
+  const replay = pluginRegistry.getPlugin(write.pluginId)?.replayWrite;
+  const frame = frames.get(write.frameId);
+  if (!replay || !frame) {
+    logger.warn(`Dropping write ${write.action} of deleted ${write.pluginId} frame ${write.frameId}`);
+    return true;
+  }
+
+  const config = await resolveFrameConfig(frame.config);
+  if (!config) {
+    // Credentials stay unavailable until the vault is unlocked
+    return false;
+  }
+
+  try {
+    await replay(config, write);
+  } catch (e) {
+    if (e instanceof OfflineError) return false;
+    logger.warn(`Dropping write ${write.action} of ${write.pluginId} frame ${write.frameId}:`, e);
+  }
+  return true;
+}
+
+async function replayQueue(): Promise<void> {
+  const writes = await loadQueue();
+  if (writes.length === 0) return;
+
+  const data = await loadDashboardData();
+  if (data.isFallback) {
+    // Writes of frames missing from the fallback data would be dropped
+    return;
+  }
+  const frames = new Map(data.spaces.flatMap((space) => space.frames.map((frame) => [frame.id, frame] as const)));
+  const done = new Set<string>();
+
+  for (const write of writes) {
+    if (!isOnline()) break;
+    if (await replayWrite(write, frames)) {
+      done.add(write.id);
+    }
+  }
+
+  if (done.size > 0) {
+    logger.info(`Replayed ${done.size} queued write(s)`);
+    await updateQueue((current) => current.filter((write) => !done.has(write.id)));
+  }
+}
+
+/**
+ * Send the queued writes, in order, if online
+ * Writes that can't be sent yet (offline, locked vault) stay queued.
+ */
+export function replayQueuedWrites(): Promise<void> {
+  if (!replaying) {
+    replaying = replayQueue()
+      .catch((e) => logger.error('Failed to replay queued writes:', e))
+      .finally(() => {
+        replaying = null;
+      });
+  }
+  return replaying;
+}
+
+/**
+ * Listen to changes of the queue, including from other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToWriteQueue(listener: (writes: QueuedWrite[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+getLocalBackend().subscribe((key, newValue) => {
+  if (key === QUEUE_KEY) {
+    listeners.forEach((listener) => listener((newValue as QueuedWrite[] | undefined) || []));
+  }
+});
+
+// Widgets failing while offline reload once the writes made meanwhile are sent
+subscribeToConnectivity((online) => {
+  if (online) replayQueuedWrites().then(retryFailedJobs);
+});
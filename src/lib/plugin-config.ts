@@ -0,0 +1,127 @@
+/**
+ * Declarative plugin config (see Plugin.configFields)
+ * Derives the defaults of new frames, the config schema checked on import and
+ * the validation of the generated config form from the declared fields.
+ */
+
+import type { PluginConfig, PluginConfigField } from '@/types/plugin';
+import type { JsonSchema } from './json-schema';
+
+const NUMBER_TYPES = ['number', 'integer', 'cacheDuration'];
+
+/**
+ * Config of a new frame, with the default value of every field declaring one
+ */
+export function getConfigDefaults(fields: PluginConfigField[]): PluginConfig {
+  const config: PluginConfig = {};
+  fields.forEach((field) => {
+    if (field.default !== undefined) {
+      config[field.key] = field.default;
+    }
+  });
+  return config;
+}
+
+function getFieldSchema(field: PluginConfigField): JsonSchema {
+  switch (field.type) {
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'select':
+      return { enum: (field.options || []).map((option) => option.value) };
+    case 'number':
+    case 'integer':
+    case 'cacheDuration':
+      return {
+        type: field.type === 'integer' ? 'integer' : 'number',
+        minimum: field.type === 'cacheDuration' ? 0 : field.min,
+        maximum: field.max,
+      };
+    default:
+      return { type: 'string' };
+  }
+}
+
+/**
+ * JSON Schema of a config made of the given fields
+ * Fields are not required in the schema: frames created before a field existed
+ * get its default when edited.
+ * @param extraProperties - Properties set outside of the form, e.g. connectionId
+ */
+export function buildConfigSchema(
+  fields: PluginConfigField[],
+  extraProperties: Record<string, JsonSchema> = {}
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = { ...extraProperties };
+  fields.forEach((field) => {
+    properties[field.key] = getFieldSchema(field);
+  });
+  return { type: 'object', properties };
+}
+
+/**
+ * Convert a form value to its stored value
+ * Empty strings and numbers are stored as undefined.
+ */
+export function normalizeConfigValue(field: PluginConfigField, value: unknown): unknown {
+  if (NUMBER_TYPES.includes(field.type)) {
+    if (value === '' || value === undefined || value === null) return undefined;
+    const number = Number(value);
+    return field.type === 'integer' ? Math.trunc(number) : number;
+  }
+  if (field.type === 'boolean') {
+    return !!value;
+  }
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  return value;
+}
+
+/**
+ * Check a config against its fields
+ * @param skipKeys - Keys not edited in the form, e.g. those provided by a connection
+ * @returns Error messages by field key, empty if the config is valid
+ */
+export function validateConfigFields(
+  fields: PluginConfigField[],
+  config: PluginConfig,
+  skipKeys: string[] = []
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  fields.forEach((field) => {
+    if (skipKeys.includes(field.key)) return;
+
+    const value = config[field.key];
+    if (value === undefined || value === '') {
+      if (field.required) errors[field.key] = `${field.label} is required`;
+      return;
+    }
+
+    if (NUMBER_TYPES.includes(field.type)) {
+      const number = value as number;
+      if (!Number.isFinite(number)) {
+        errors[field.key] = `${field.label} must be a number`;
+      } else if (field.min !== undefined && number < field.min) {
+        errors[field.key] = `${field.label} must be at least ${field.min}`;
+      } else if (field.max !== undefined && number > field.max) {
+        errors[field.key] = `${field.label} must be at most ${field.max}`;
+      }
+    } else if (field.type === 'url') {
+      try {
+        new URL(String(value));
+      } catch {
+        errors[field.key] = `${field.label} must be a valid URL`;
+      }
+    } else if (field.type === 'select' && !(field.options || []).some((option) => option.value === value)) {
+      errors[field.key] = `${field.label} has an unknown value`;
+    }
+
+    if (!errors[field.key] && field.validate) {
+      const error = field.validate(value, config);
+      if (error) errors[field.key] = error;
+    }
+  });
+
+  return errors;
+}
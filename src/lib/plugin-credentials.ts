@@ -0,0 +1,196 @@
+/**
+ * Credential operations that depend on plugin declarations
+ * Moving the secrets of a frame config to the vault (Plugin.secretFields) and saving,
+ * testing or detaching connections (Plugin.connection) need the plugin registry.
+ * They are kept out of vault.ts and connections.ts, which the background service
+ * worker uses to resolve frame configs without bundling the plugin UIs.
+ */
+
+import type { PluginConfig, PluginConnectionSpec } from '@/types/plugin';
+import { getConnectionId, loadConnections, saveConnections, type Connection } from './connections';
+import { pluginRegistry } from './plugin-registry';
+import { loadDashboardData, type FrameData, type SpaceData } from './storage';
+import { CREDENTIAL_REFS_KEY, getCredentialRefs, saveCredential } from './vault';
+
+export function getConnectionSpec(pluginId: string): PluginConnectionSpec | undefined {
+  return pluginRegistry.getPlugin(pluginId)?.connection;
+}
+
+/**
+ * Number of frames and connections referencing each credential, e.g. frames duplicated
+ * to another space share the credentials of the original
+ */
+async function countCredentialUses(): Promise<Map<string, number>> {
+  const uses = new Map<string, number>();
+  const addOwner = (refs: Record<string, string>) => {
+    new Set(Object.values(refs)).forEach((id) => uses.set(id, (uses.get(id) ?? 0) + 1));
+  };
+  (await loadDashboardData()).spaces.forEach((space) =>
+    space.frames.forEach((frame) => addOwner(getCredentialRefs(frame.config)))
+  );
+  (await loadConnections()).forEach((connection) => addOwner(connection.credentialRefs));
+  return uses;
+}
+
+/**
+ * Create or update a connection
+ * Secret values are saved to the vault; an empty secret value keeps the current
+ * one, a new value replaces it for every frame using the connection.
+ * @param values - Values by config key, secrets included
+ */
+export async function saveConnection(
+  input: { id?: string; pluginId: string; name: string; values: Record<string, string> }
+): Promise<Connection> {
+  const spec = getConnectionSpec(input.pluginId);
+  const secretFields = pluginRegistry.getSecretFields(input.pluginId);
+  const connections = await loadConnections();
+  const existing = input.id ? connections.find((c) => c.id === input.id) : undefined;
+  const uses = existing ? await countCredentialUses() : new Map<string, number>();
+
+  const connection: Connection = {
+    id: existing?.id || `conn-${Date.now()}`,
+    pluginId: input.pluginId,
+    name: input.name,
+    values: {},
+    credentialRefs: { ...existing?.credentialRefs },
+    updatedAt: Date.now(),
+  };
+
+  for (const field of spec?.fields || []) {
+    const value = (input.values[field.key] || '').trim();
+    if (!secretFields.includes(field.key)) {
+      connection.values[field.key] = value;
+    } else if (value) {
+      const ref = existing?.credentialRefs[field.key];
+      connection.credentialRefs[field.key] = await saveCredential(
+        { pluginId: input.pluginId, field: field.key, value, label: input.name },
+        ref,
+        !!ref && (uses.get(ref) ?? 0) > 1
+      );
+    }
+  }
+
+  await saveConnections(existing
+    ? connections.map((c) => (c.id === connection.id ? connection : c))
+    : [...connections, connection]);
+  return connection;
+}
+
+/**
+ * Remove the values provided by the connection of a config before saving it,
+ * so frames keep following the connection
+ */
+export async function detachConnectionFields(pluginId: string, config: PluginConfig): Promise<PluginConfig> {
+  const connectionId = getConnectionId(config);
+  const spec = getConnectionSpec(pluginId);
+  if (!connectionId || !spec || !(await loadConnections()).some((c) => c.id === connectionId)) {
+    return config;
+  }
+
+  const detached: PluginConfig = { ...config };
+  const refs = { ...getCredentialRefs(config) };
+  spec.fields.forEach((field) => {
+    delete detached[field.key];
+    delete refs[field.key];
+  });
+  if (Object.keys(refs).length > 0) {
+    detached[CREDENTIAL_REFS_KEY] = refs;
+  } else {
+    delete detached[CREDENTIAL_REFS_KEY];
+  }
+  return detached;
+}
+
+/**
+ * Test connection values with the plugin test function
+ * @param values - Values by config key, with secrets resolved
+ * @throws Error describing why the server could not be reached
+ */
+export async function testConnection(pluginId: string, values: PluginConfig): Promise<void> {
+  const test = getConnectionSpec(pluginId)?.test;
+  if (!test) {
+    throw new Error('This widget cannot test its connection.');
+  }
+  await test(values);
+}
+
+// Default label, e.g. "Youtrack (youtrack.example.com)"
+function getDefaultLabel(pluginId: string, config: PluginConfig): string {
+  const pluginName = pluginRegistry.getPluginMetadata(pluginId)?.name || pluginId;
+  for (const value of Object.values(config)) {
+    if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+      try {
+        return `${pluginName} (${new URL(value).hostname})`;
+      } catch {
+        // Not a valid URL, try the next value
+      }
+    }
+  }
+  return pluginName;
+}
+
+/**
+ * Move the secret values of a config to the vault, keeping references to them
+ * Secrets are never returned in the config: saving one while the vault is locked throws.
+ * A changed secret whose credential other frames use too is saved to a new credential.
+ * @throws VaultLockedError if the config holds a secret value and the vault is locked
+ */
+export async function storeConfigSecrets(pluginId: string, config: PluginConfig): Promise<PluginConfig> {
+  const secretFields = pluginRegistry.getSecretFields(pluginId);
+  const refs = { ...getCredentialRefs(config) };
+  const stored: PluginConfig = { ...config };
+  let changed = false;
+  let uses: Map<string, number> | null = null;
+
+  if (secretFields.length === 0) {
+    return config;
+  }
+
+  for (const field of secretFields) {
+    const value = config[field];
+    if (value === undefined) continue;
+
+    delete stored[field];
+    changed = true;
+    if (typeof value === 'string' && value !== '') {
+      const ref = refs[field];
+      if (ref && !uses) {
+        uses = await countCredentialUses();
+      }
+      const shared = !!ref && (uses?.get(ref) ?? 0) > 1;
+      refs[field] = await saveCredential({ pluginId, field, value, label: ref ? undefined : getDefaultLabel(pluginId, config) }, ref, shared);
+    } else {
+      // Cleared by the user, the credential itself may still be used by other frames
+      delete refs[field];
+    }
+  }
+
+  if (!changed) {
+    return config;
+  }
+  if (Object.keys(refs).length > 0) {
+    stored[CREDENTIAL_REFS_KEY] = refs;
+  } else {
+    delete stored[CREDENTIAL_REFS_KEY];
+  }
+  return stored;
+}
+
+/**
+ * Move the secret values of all frames to the vault
+ * @returns The same array if nothing had to be moved
+ */
+export async function storeSpacesSecrets(spaces: SpaceData[]): Promise<SpaceData[]> {
+  let changed = false;
+  const next: SpaceData[] = [];
+  for (const space of spaces) {
+    const frames: FrameData[] = [];
+    for (const frame of space.frames) {
+      const config = await storeConfigSecrets(frame.pluginId, frame.config);
+      changed = changed || config !== frame.config;
+      frames.push(config === frame.config ? frame : { ...frame, config });
+    }
+    next.push({ ...space, frames });
+  }
+  return changed ? next : spaces;
+}
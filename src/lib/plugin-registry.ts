@@ -1,4 +1,8 @@
-import { Plugin, PluginMetadata } from '@/types/plugin';
+import { Plugin, PluginConfig, PluginMetadata, PluginSize } from '@/types/plugin';
+import { registerPluginMigrations } from '@/lib/migrations';
+import { buildConfigSchema, getConfigDefaults } from '@/lib/plugin-config';
+import type { JsonSchema } from '@/lib/json-schema';
+import { DEFAULT_FRAME_SIZE, MIN_FRAME_SIZE } from '@/lib/layout';
 
 import { BookmarksPlugin } from '@/plugins/bookmarks/BookmarksPlugin';
 import { NextcloudBookmarksPlugin } from '@/plugins/nextcloud-bookmarks/NextcloudBookmarksPlugin';
@@ -27,6 +31,7 @@ class PluginRegistry {
 
   registerPlugin(plugin: Plugin): void {
     this.plugins.set(plugin.metadata.id, plugin);
+    registerPluginMigrations(plugin.metadata.id, plugin.metadata.version, plugin.configMigrations);
   }
 
   getPlugin(id: string): Plugin | undefined {
@@ -40,6 +45,43 @@ class PluginRegistry {
   getPluginMetadata(id: string): PluginMetadata | undefined {
     return this.plugins.get(id)?.metadata;
   }
+
+  getSecretFields(id: string): string[] {
+    const plugin = this.plugins.get(id);
+    const declared = (plugin?.configFields ?? []).filter((field) => field.secret).map((field) => field.key);
+    return Array.from(new Set([...(plugin?.secretFields ?? []), ...declared]));
+  }
+
+  getConfigSchema(id: string): JsonSchema | undefined {
+    const plugin = this.plugins.get(id);
+    if (plugin?.configSchema || !plugin?.configFields) {
+      return plugin?.configSchema;
+    }
+    return buildConfigSchema(plugin.configFields, plugin.connection ? { connectionId: { type: 'string' } } : {});
+  }
+
+  /**
+   * Size of a new frame of a plugin
+   */
+  getDefaultSize(id: string): PluginSize {
+    const minSize = this.getMinSize(id);
+    const size = this.plugins.get(id)?.defaultSize ?? { w: DEFAULT_FRAME_SIZE, h: DEFAULT_FRAME_SIZE };
+    return { w: Math.max(size.w, minSize.w), h: Math.max(size.h, minSize.h) };
+  }
+
+  /**
+   * Smallest size of the frames of a plugin, also for unknown plugins
+   */
+  getMinSize(id: string): PluginSize {
+    return this.plugins.get(id)?.minSize ?? { w: MIN_FRAME_SIZE, h: MIN_FRAME_SIZE };
+  }
+
+  /**
+   * Config of a new frame of a plugin
+   */
+  getDefaultConfig(id: string): PluginConfig {
+    return getConfigDefaults(this.plugins.get(id)?.configFields ?? []);
+  }
 }
 
 export const pluginRegistry = new PluginRegistry();
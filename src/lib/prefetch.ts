@@ -0,0 +1,84 @@
+/**
+ * Cache prefetching, run by the background service worker (src/background.ts)
+ * Frames whose cache expires before the next run are refreshed with their plugin
+ * prefetch function, so new tabs render from a warm cache.
+ * Prefetch functions are imported from the plugin `prefetch.ts` modules rather than
+ * through the plugin registry, which would bundle the plugin UIs into the worker.
+ * Frame configs are used as stored: plugin config migrations run in the new tab page.
+ */
+
+import type { PluginPrefetch } from '@/types/plugin';
+import { prefetchGoogleCalendar } from '@/plugins/googlecalendar/prefetch';
+import { prefetchLiteFeed } from '@/plugins/lite-feed/prefetch';
+import { prefetchMeteo } from '@/plugins/meteo/prefetch';
+import { prefetchNextcloudBookmarks } from '@/plugins/nextcloud-bookmarks/prefetch';
+import { prefetchTasktrove } from '@/plugins/tasktrove/prefetch';
+import { prefetchYoutrack } from '@/plugins/youtrack/prefetch';
+import { DEFAULT_CACHE_DURATION, getCacheTimestamp } from './cache';
+import { resolveFrameConfig } from './connections';
+import { createLogger } from './logger';
+import { loadDashboardData, type FrameData } from './storage';
+
+const logger = createLogger('Prefetch');
+
+// Prefetch function of each plugin id, see PluginPrefetch
+const prefetchers = new Map<string, PluginPrefetch>([
+  ['nextcloud-bookmarks', prefetchNextcloudBookmarks],
+  ['youtrack', prefetchYoutrack],
+  ['tasktrove', prefetchTasktrove],
+  ['meteo', prefetchMeteo],
+  ['googlecalendar', prefetchGoogleCalendar],
+  ['lite-feed', prefetchLiteFeed],
+]);
+
+/** Minutes between two prefetch runs */
+export const PREFETCH_PERIOD_MINUTES = 5;
+
+function getCacheDuration(frame: FrameData): number {
+  const cacheDuration = frame.config.cacheDuration;
+  return typeof cacheDuration === 'number' ? cacheDuration : DEFAULT_CACHE_DURATION;
+}
+
+// A frame is refreshed when its cache is missing or expires before the next run
+async function needsPrefetch(frame: FrameData, now: number): Promise<boolean> {
+  const cacheDuration = getCacheDuration(frame);
+  if (cacheDuration <= 0) {
+    return false;
+  }
+  const timestamp = await getCacheTimestamp(frame.id);
+  return timestamp === null || now - timestamp + PREFETCH_PERIOD_MINUTES * 60 * 1000 >= cacheDuration * 1000;
+}
+
+async function prefetchFrame(frame: FrameData): Promise<void> {
+  const prefetch = prefetchers.get(frame.pluginId);
+  if (!prefetch || frame.quarantine?.length || frame.config.mockData) {
+    return;
+  }
+  if (!(await needsPrefetch(frame, Date.now()))) {
+    return;
+  }
+
+  const config = await resolveFrameConfig(frame.config);
+  if (!config) {
+    // Credentials stay unavailable until the vault is unlocked
+    return;
+  }
+  await prefetch(config, frame.id);
+}
+
+/**
+ * Refresh the caches of all frames, in every space, that expire before the next run
+ * Frames are refreshed one at a time; a failing frame doesn't stop the others.
+ */
+export async function prefetchFrameCaches(): Promise<void> {
+  const data = await loadDashboardData();
+  const frames = data.spaces.flatMap((space) => space.frames);
+
+  for (const frame of frames) {
+    try {
+      await prefetchFrame(frame);
+    } catch (e) {
+      logger.warn(`Failed to prefetch ${frame.pluginId} frame ${frame.id}:`, e);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Background refresh scheduler
+ * Owns the refresh timing of every frame: a job runs when it is scheduled, then
+ * every `interval` seconds (the frame cacheDuration) while the tab is visible.
+ * Jobs sharing a key are kept in step so their identical requests can be
+ * coalesced (see coalesce), and failing jobs back off exponentially.
+ */
+
+import { createLogger } from './logger';
+
+export interface RefreshJob {
+  /** Identity of the request made by the job, see createRequestKey */
+  key: string;
+  /** Seconds between runs; 0 or less uses DEFAULT_REFRESH_INTERVAL */
+  interval: number;
+  /** Loads the data, rejects on failure */
+  run: () => Promise<void>;
+}
+
+interface ScheduledJob extends RefreshJob {
+  nextRunAt: number;
+  failures: number;
+  isRunning: boolean;
+}
+
+/** Interval of frames without cache, in seconds */
+export const DEFAULT_REFRESH_INTERVAL = 5 * 60;
+const MIN_REFRESH_INTERVAL = 60;
+/** Longest delay between retries of a failing job, unless its interval is longer */
+const MAX_BACKOFF = 60 * 60;
+// setTimeout delays above this overflow
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const logger = createLogger('Scheduler');
+const jobs = new Set<ScheduledJob>();
+const pendingRequests = new Map<string, Promise<unknown>>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+let isListeningToVisibility = false;
+
+function isHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+function getInterval(job: RefreshJob): number {
+  return Math.max(MIN_REFRESH_INTERVAL, job.interval > 0 ? job.interval : DEFAULT_REFRESH_INTERVAL);
+}
+
+// Delay before the next run: the interval, doubled for each consecutive failure
+function getDelay(job: ScheduledJob): number {
+  const interval = getInterval(job);
+  return Math.min(interval * 2 ** job.failures, Math.max(interval, MAX_BACKOFF)) * 1000;
+}
+
+async function runJob(job: ScheduledJob): Promise<void> {
+  job.isRunning = true;
+  try {
+    await job.run();
+    job.failures = 0;
+  } catch (e) {
+    job.failures += 1;
+    logger.warn(`Refresh of ${job.key} failed (${job.failures} in a row):`, e);
+  } finally {
+    job.isRunning = false;
+    job.nextRunAt = Date.now() + getDelay(job);
+    scheduleTimer();
+  }
+}
+
+function runDueJobs(): void {
+  timer = null;
+  if (isHidden()) {
+    // Resumed by the visibility listener
+    return;
+  }
+
+  const now = Date.now();
+  jobs.forEach((job) => {
+    if (!job.isRunning && job.nextRunAt <= now) {
+      runJob(job);
+    }
+  });
+  scheduleTimer();
+}
+
+function scheduleTimer(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (jobs.size === 0 || isHidden()) {
+    return;
+  }
+
+  const idleJobs = Array.from(jobs).filter((job) => !job.isRunning);
+  if (idleJobs.length === 0) {
+    return;
+  }
+  const nextRunAt = Math.min(...idleJobs.map((job) => job.nextRunAt));
+  timer = setTimeout(runDueJobs, Math.min(MAX_TIMEOUT_MS, Math.max(0, nextRunAt - Date.now())));
+}
+
+function listenToVisibility(): void {
+  if (isListeningToVisibility || typeof document === 'undefined') {
+    return;
+  }
+  isListeningToVisibility = true;
+  // Jobs that came due while the tab was hidden run as soon as it is shown
+  document.addEventListener('visibilitychange', () => {
+    if (isHidden()) {
+      scheduleTimer();
+    } else {
+      runDueJobs();
+    }
+  });
+}
+
+/**
+ * Run a job now and then whenever it is due
+ * A job with the key of a scheduled one also follows its timing afterwards.
+ * @returns Function removing the job
+ */
+export function scheduleRefresh(refreshJob: RefreshJob): () => void {
+  listenToVisibility();
+
+  const job: ScheduledJob = { ...refreshJob, nextRunAt: Date.now(), failures: 0, isRunning: false };
+  const sibling = Array.from(jobs).find((other) => other.key === job.key);
+  jobs.add(job);
+
+  runJob(job).then(() => {
+    if (sibling && jobs.has(sibling)) {
+      job.nextRunAt = sibling.nextRunAt;
+      scheduleTimer();
+    }
+  });
+
+  return () => {
+    jobs.delete(job);
+    scheduleTimer();
+  };
+}
+
+/**
+ * Run failing jobs now instead of after their backoff, e.g. once back online
+ */
+export function retryFailedJobs(): void {
+  const now = Date.now();
+  jobs.forEach((job) => {
+    if (job.failures > 0) job.nextRunAt = now;
+  });
+  runDueJobs();
+}
+
+// 53-bit string hash (cyrb53), long enough that distinct settings don't collide in practice
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Key of a refresh job or coalesced request
+ * The parts are hashed, so credentials among them don't end up in keys or logs.
+ * @param scope - Readable prefix, e.g. the plugin id
+ * @param parts - Settings identifying the request, e.g. server URL and token
+ */
+export function createRequestKey(scope: string, ...parts: unknown[]): string {
+  return `${scope}:${hashString(JSON.stringify(parts))}`;
+}
+
+/**
+ * Share a pending request between identical callers, e.g. frames showing the same data
+ * @param key - Identity of the request, see createRequestKey
+ */
+export function coalesce<T>(key: string, request: () => Promise<T>): Promise<T> {
+  const pending = pendingRequests.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = request().finally(() => pendingRequests.delete(key));
+  pendingRequests.set(key, promise);
+  return promise;
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSnapshot, listSnapshots, loadSnapshot, restoreSnapshot, type Snapshot } from './snapshots';
+import { STORAGE_KEY, saveDashboardData, type DashboardData } from './storage';
+import { createMemoryBackend, setBackendsForTesting, type StorageBackend } from './storage-backends';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+
+function createData(name: string): DashboardData {
+  return { spaces: [{ id: 'space-1', name, frames: [] }], activeSpaceId: 'space-1' };
+}
+
+function createSnapshotOf(data: DashboardData): Snapshot {
+  return { id: '1', createdAt: 1, reason: 'periodic', spaceCount: 1, widgetCount: 0, data };
+}
+
+let local: StorageBackend;
+
+beforeEach(() => {
+  local = createMemoryBackend();
+});
+
+describe('restoreSnapshot', () => {
+  it('saves the snapshot data after a pre-restore snapshot of the current data', async () => {
+    const data = createMemoryBackend();
+    setBackendsForTesting(data, data, local);
+
+    const restored = await restoreSnapshot(createSnapshotOf(createData('Restored')), createData('Current'));
+
+    expect(restored).toMatchObject({ ...createData('Restored'), schemaVersion: CURRENT_SCHEMA_VERSION });
+    expect(await data.get(STORAGE_KEY)).toMatchObject(createData('Restored'));
+    const [info] = await listSnapshots();
+    expect(info.reason).toBe('pre-restore');
+    expect((await loadSnapshot(info.id))?.data).toEqual(createData('Current'));
+  });
+
+  it('rejects, leaving the stored data unchanged, when the backend fails to save', async () => {
+    const stored = createData('Current');
+    const failing: StorageBackend = {
+      ...createMemoryBackend({ [STORAGE_KEY]: stored }),
+      set: () => Promise.reject(new Error('Quota exceeded')),
+    };
+    setBackendsForTesting(failing, failing, local);
+
+    await expect(saveDashboardData(createData('Restored'))).rejects.toThrow('Quota exceeded');
+    await expect(restoreSnapshot(createSnapshotOf(createData('Restored')), stored)).rejects.toThrow('Quota exceeded');
+    expect(await failing.get(STORAGE_KEY)).toBe(stored);
+  });
+});
+
+describe('createSnapshot', () => {
+  it('keeps the newest snapshots of each reason', async () => {
+    setBackendsForTesting(createMemoryBackend(), undefined, local);
+    const now = vi.spyOn(Date, 'now');
+
+    for (let i = 1; i <= 5; i++) {
+      now.mockReturnValue(i);
+      await createSnapshot(createData(`Restore ${i}`), 'pre-restore');
+    }
+    now.mockReturnValue(6);
+    await createSnapshot(createData('Periodic'), 'periodic');
+    now.mockRestore();
+
+    expect((await listSnapshots()).map((s) => [s.id, s.reason])).toEqual([
+      ['6', 'periodic'],
+      ['5', 'pre-restore'],
+      ['4', 'pre-restore'],
+      ['3', 'pre-restore'],
+    ]);
+    expect(await local.get('dashboard_snapshot_1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Automatic local snapshots of dashboard data
+ * Snapshots are taken periodically and before destructive operations (import,
+ * restore). They always live on the local backend, even when dashboard data is
+ * synced, and are rotated per reason so they never grow unbounded.
+ */
+
+import { saveDashboardData, type DashboardData, type FrameData, type SpaceData } from './storage';
+import { createLogger } from './logger';
+import { migrateDashboardData } from './migrations';
+import { getLocalBackend } from './storage-backends';
+
+const logger = createLogger('Snapshots');
+
+export type SnapshotReason = 'periodic' | 'pre-import' | 'pre-restore';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  spaceCount: number;
+  widgetCount: number;
+}
+
+export interface Snapshot extends SnapshotInfo {
+  data: DashboardData;
+}
+
+export interface SnapshotDiffEntry {
+  change: 'added' | 'removed' | 'changed';
+  target: 'space' | 'widget';
+  spaceName: string;
+  frame?: Pick<FrameData, 'id' | 'pluginId' | 'name'>;
+}
+
+const SNAPSHOT_INDEX_KEY = 'dashboard_snapshots';
+const SNAPSHOT_PREFIX = 'dashboard_snapshot_';
+
+// Number of snapshots kept for each reason, the oldest are deleted first
+const SNAPSHOT_LIMITS: Record<SnapshotReason, number> = {
+  periodic: 7,
+  'pre-import': 5,
+  'pre-restore': 3,
+};
+
+export const PERIODIC_SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function getSnapshotKey(id: string): string {
+  return `${SNAPSHOT_PREFIX}${id}`;
+}
+
+/**
+ * List snapshots, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  try {
+    const index = await getLocalBackend().get<SnapshotInfo[]>(SNAPSHOT_INDEX_KEY);
+    return (index || []).slice().sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    logger.error('Failed to list snapshots:', e);
+    return [];
+  }
+}
+
+export async function loadSnapshot(id: string): Promise<Snapshot | null> {
+  const index = await listSnapshots();
+  const info = index.find((s) => s.id === id);
+  if (!info) {
+    return null;
+  }
+  const data = await getLocalBackend().get<DashboardData>(getSnapshotKey(id));
+  return data ? { ...info, data } : null;
+}
+
+/**
+ * Save a snapshot of the given data and rotate older snapshots of the same reason
+ */
+export async function createSnapshot(data: DashboardData, reason: SnapshotReason): Promise<SnapshotInfo> {
+  const backend = getLocalBackend();
+  const info: SnapshotInfo = {
+    id: `${Date.now()}`,
+    createdAt: Date.now(),
+    reason,
+    spaceCount: data.spaces.length,
+    widgetCount: data.spaces.reduce((total, space) => total + space.frames.length, 0),
+  };
+
+  await backend.set(getSnapshotKey(info.id), { spaces: data.spaces, activeSpaceId: data.activeSpaceId });
+
+  const index = [info, ...(await listSnapshots())];
+  const sameReason = index.filter((s) => s.reason === reason);
+  const expired = sameReason.slice(SNAPSHOT_LIMITS[reason]);
+  if (expired.length > 0) {
+    await backend.remove(expired.map((s) => getSnapshotKey(s.id)));
+  }
+
+  const expiredIds = new Set(expired.map((s) => s.id));
+  await backend.set(SNAPSHOT_INDEX_KEY, index.filter((s) => !expiredIds.has(s.id)));
+
+  return info;
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  const backend = getLocalBackend();
+  const index = await listSnapshots();
+  await backend.remove(getSnapshotKey(id));
+  await backend.set(SNAPSHOT_INDEX_KEY, index.filter((s) => s.id !== id));
+}
+
+/**
+ * Save a snapshot as the dashboard data, after taking a 'pre-restore' snapshot of the current data
+ * @returns The restored data
+ * @throws Error if the data can't be saved, the stored data is then left unchanged
+ */
+export async function restoreSnapshot(snapshot: Snapshot, current: DashboardData): Promise<DashboardData> {
+  await createSnapshot(current, 'pre-restore');
+  const restoredData = migrateDashboardData(snapshot.data);
+  await saveDashboardData(restoredData);
+  return restoredData;
+}
+
+/**
+ * Take a periodic snapshot if the last one is older than PERIODIC_SNAPSHOT_INTERVAL_MS
+ * @returns The new snapshot, or null if none was due or the data is the fallback one
+ */
+export async function createPeriodicSnapshotIfDue(data: DashboardData): Promise<SnapshotInfo | null> {
+  if (data.isFallback) {
+    return null;
+  }
+  const index = await listSnapshots();
+  const lastPeriodic = index.find((s) => s.reason === 'periodic');
+  if (lastPeriodic && Date.now() - lastPeriodic.createdAt < PERIODIC_SNAPSHOT_INTERVAL_MS) {
+    return null;
+  }
+  return createSnapshot(data, 'periodic');
+}
+
+/**
+ * Describe what restoring `target` over `current` would change
+ */
+export function diffSpaces(current: SpaceData[], target: SpaceData[]): SnapshotDiffEntry[] {
+  const entries: SnapshotDiffEntry[] = [];
+  const currentById = new Map(current.map((space) => [space.id, space]));
+  const targetById = new Map(target.map((space) => [space.id, space]));
+
+  const toFrameRef = (frame: FrameData) => ({ id: frame.id, pluginId: frame.pluginId, name: frame.name });
+
+  target.forEach((targetSpace) => {
+    const currentSpace = currentById.get(targetSpace.id);
+    if (!currentSpace) {
+      entries.push({ change: 'added', target: 'space', spaceName: targetSpace.name });
+      return;
+    }
+
+    if (currentSpace.name !== targetSpace.name) {
+      entries.push({ change: 'changed', target: 'space', spaceName: targetSpace.name });
+    }
+
+    const currentFrames = new Map(currentSpace.frames.map((frame) => [frame.id, frame]));
+    const targetFrameIds = new Set(targetSpace.frames.map((frame) => frame.id));
+
+    targetSpace.frames.forEach((frame) => {
+      const currentFrame = currentFrames.get(frame.id);
+      if (!currentFrame) {
+        entries.push({ change: 'added', target: 'widget', spaceName: targetSpace.name, frame: toFrameRef(frame) });
+      } else if (JSON.stringify(currentFrame) !== JSON.stringify(frame)) {
+        entries.push({ change: 'changed', target: 'widget', spaceName: targetSpace.name, frame: toFrameRef(frame) });
+      }
+    });
+
+    currentSpace.frames
+      .filter((frame) => !targetFrameIds.has(frame.id))
+      .forEach((frame) => {
+        entries.push({ change: 'removed', target: 'widget', spaceName: targetSpace.name, frame: toFrameRef(frame) });
+      });
+  });
+
+  current
+    .filter((space) => !targetById.has(space.id))
+    .forEach((space) => {
+      entries.push({ change: 'removed', target: 'space', spaceName: space.name });
+    });
+
+  return entries;
+}
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createChromeSyncBackend,
+  createMemoryBackend,
+  findStoredKeys,
+  getDataBackend,
+  setBackendsForTesting,
+  subscribeToDataBackend,
+  switchDataBackend,
+  type StorageBackend,
+} from './storage-backends';
+
+const PREFERENCE_KEY = 'dashboard_storage_backend';
+
+type AreaName = 'local' | 'sync';
+
+/**
+ * chrome global over in-memory storage areas, values are copied as chrome.storage does
+ */
+function createFakeChrome(areaNames: AreaName[]) {
+  const areas = new Map<AreaName, Map<string, unknown>>(areaNames.map((name) => [name, new Map()]));
+  const copy = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+  const createArea = (items: Map<string, unknown>) => ({
+    get(keys: string[] | null, callback: (result: Record<string, unknown>) => void) {
+      const selected = keys === null ? Array.from(items.keys()) : keys.filter((key) => items.has(key));
+      callback(Object.fromEntries(selected.map((key) => [key, copy(items.get(key))])));
+    },
+    set(values: Record<string, unknown>, callback: () => void) {
+      Object.entries(values).forEach(([key, value]) => items.set(key, copy(value)));
+      callback();
+    },
+    remove(keys: string[], callback: () => void) {
+      keys.forEach((key) => items.delete(key));
+      callback();
+    },
+  });
+
+  const chrome = {
+    runtime: {},
+    storage: {
+      ...Object.fromEntries(Array.from(areas, ([name, items]) => [name, createArea(items)])),
+      onChanged: { addListener: () => {}, removeListener: () => {} },
+    },
+  };
+  return { chrome, areas };
+}
+
+function createLocalBackend(): StorageBackend {
+  return { ...createMemoryBackend(), id: 'local-storage' };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('chrome sync backend', () => {
+  let items: Map<string, unknown>;
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    const fake = createFakeChrome(['sync']);
+    vi.stubGlobal('chrome', fake.chrome);
+    items = fake.areas.get('sync')!;
+    backend = createChromeSyncBackend();
+  });
+
+  const largeValue = { text: 'x'.repeat(20000), unicode: 'é'.repeat(5000) };
+
+  it('splits large values into chunks within the per-item quota', async () => {
+    await backend.set('data', largeValue);
+
+    const header = items.get('data') as Record<string, number>;
+    expect(header.__chunks).toBeGreaterThan(1);
+    for (let i = 0; i < header.__chunks; i++) {
+      const key = `data__chunk_${i}`;
+      expect(new TextEncoder().encode(key + JSON.stringify(items.get(key))).length).toBeLessThanOrEqual(8192);
+    }
+    expect(await backend.get('data')).toEqual(largeValue);
+  });
+
+  it('removes the chunks left over when a value shrinks', async () => {
+    await backend.set('data', largeValue);
+    await backend.set('data', { text: 'small' });
+
+    expect(await backend.get('data')).toEqual({ text: 'small' });
+    expect(Array.from(items.keys()).sort()).toEqual(['data', 'data__chunk_0']);
+  });
+
+  it('lists and removes keys without their chunks', async () => {
+    await backend.set('data', largeValue);
+    await backend.set('theme', 'dark');
+    expect((await backend.keys()).sort()).toEqual(['data', 'theme']);
+
+    await backend.remove('data');
+    expect(Array.from(items.keys()).sort()).toEqual(['theme', 'theme__chunk_0']);
+    expect(await backend.get('data')).toBeUndefined();
+  });
+
+  it('throws when a chunk is missing', async () => {
+    await backend.set('data', largeValue);
+    items.delete('data__chunk_1');
+
+    await expect(backend.get('data')).rejects.toThrow('Missing sync chunk 1 for key data');
+  });
+
+  it('throws when the header is corrupt', async () => {
+    items.set('data', 'not a header');
+
+    await expect(backend.get('data')).rejects.toThrow('Corrupt sync header for key data');
+  });
+});
+
+describe('backend selection', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it('uses localStorage outside of the extension', async () => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => values.set(key, value),
+    });
+    const { getAvailableBackends, getLocalBackend } = await import('./storage-backends');
+
+    expect(getLocalBackend().id).toBe('local-storage');
+    expect(getAvailableBackends().map((option) => option.id)).toEqual(['local-storage']);
+  });
+
+  it('lists the local backend first, then sync and IndexedDB', async () => {
+    vi.stubGlobal('chrome', createFakeChrome(['local', 'sync']).chrome);
+    vi.stubGlobal('indexedDB', {});
+    const { getAvailableBackends } = await import('./storage-backends');
+
+    expect(getAvailableBackends().map((option) => option.id)).toEqual(['chrome-local', 'chrome-sync', 'indexeddb']);
+  });
+
+  it('falls back to the local backend when the selected one is unavailable', async () => {
+    const { chrome, areas } = createFakeChrome(['local']);
+    vi.stubGlobal('chrome', chrome);
+
+    for (const id of ['chrome-sync', 'indexeddb']) {
+      vi.resetModules();
+      areas.get('local')!.set(PREFERENCE_KEY, id);
+      const { getCacheBackend, getDataBackend } = await import('./storage-backends');
+
+      expect((await getDataBackend()).id).toBe('chrome-local');
+      expect((await getCacheBackend()).id).toBe('chrome-local');
+    }
+  });
+
+  it('keeps caches on the local backend when data is synced', async () => {
+    const { chrome, areas } = createFakeChrome(['local', 'sync']);
+    vi.stubGlobal('chrome', chrome);
+    areas.get('local')!.set(PREFERENCE_KEY, 'chrome-sync');
+    const { getCacheBackend, getDataBackend } = await import('./storage-backends');
+
+    expect((await getDataBackend()).id).toBe('chrome-sync');
+    expect((await getCacheBackend()).id).toBe('chrome-local');
+  });
+});
+
+describe('switchDataBackend', () => {
+  let current: StorageBackend;
+  let local: StorageBackend;
+
+  beforeEach(() => {
+    current = createMemoryBackend({ dashboard_data: { spaces: ['current'] }, dashboard_theme: 'dark' });
+    local = createLocalBackend();
+    setBackendsForTesting(current, current, local);
+  });
+
+  it('copies the given keys and selects the new backend', async () => {
+    await switchDataBackend('local-storage', ['dashboard_data', 'dashboard_theme', 'missing']);
+
+    expect(await local.get('dashboard_data')).toEqual({ spaces: ['current'] });
+    expect(await local.get('dashboard_theme')).toBe('dark');
+    expect(await local.keys()).not.toContain('missing');
+    expect(await local.get(PREFERENCE_KEY)).toBe('local-storage');
+    expect(await getDataBackend()).toBe(local);
+  });
+
+  it('overwrites the data already stored in the new backend', async () => {
+    await local.set('dashboard_data', { spaces: ['stored'] });
+
+    expect(await findStoredKeys('local-storage', ['dashboard_data', 'dashboard_theme'])).toEqual(['dashboard_data']);
+    await switchDataBackend('local-storage', ['dashboard_data', 'dashboard_theme']);
+
+    expect(await local.get('dashboard_data')).toEqual({ spaces: ['current'] });
+  });
+
+  it('keeps the data already stored in the new backend when asked to', async () => {
+    await local.set('dashboard_data', { spaces: ['stored'] });
+
+    await switchDataBackend('local-storage', ['dashboard_data', 'dashboard_theme'], true);
+
+    expect(await local.get('dashboard_data')).toEqual({ spaces: ['stored'] });
+    expect(await local.get('dashboard_theme')).toBe('dark');
+  });
+
+  it('finds no stored keys in the current backend', async () => {
+    expect(await findStoredKeys('memory', ['dashboard_data'])).toEqual([]);
+  });
+
+  it('notifies subscribers when another tab switches the backend', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToDataBackend(listener);
+
+    await local.set(PREFERENCE_KEY, 'local-storage');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(await getDataBackend()).toBe(local);
+    unsubscribe();
+  });
+});
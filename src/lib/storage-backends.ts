@@ -0,0 +1,638 @@
+/**
+ * Storage backends for dashboard data and plugin caches
+ * Each backend stores JSON-serializable values by key. Dashboard data goes to the
+ * backend selected in the settings menu, caches always stay on a local backend.
+ */
+
+import { createLogger } from './logger';
+
+const logger = createLogger('Storage');
+
+export type StorageBackendId = 'chrome-local' | 'chrome-sync' | 'chrome-session' | 'indexeddb' | 'local-storage' | 'memory';
+
+export type StorageChangeListener = (key: string, newValue: unknown) => void;
+
+export interface StorageBackend {
+  id: StorageBackendId;
+  label: string;
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(keys: string | string[]): Promise<void>;
+  keys(): Promise<string[]>;
+  /**
+   * Listen to changes made by other tabs (and possibly this one)
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: StorageChangeListener): () => void;
+}
+
+export interface StorageBackendOption {
+  id: StorageBackendId;
+  label: string;
+  description: string;
+}
+
+const BACKEND_PREFERENCE_KEY = 'dashboard_storage_backend';
+
+// chrome.storage.sync limits each item to 8192 bytes (JSON value + key length)
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+const SYNC_CHUNK_MARKER = '__chunks';
+const SYNC_UPDATED_MARKER = '__updatedAt';
+
+const IDB_NAME = 'dashboard';
+const IDB_STORE = 'kv';
+
+function hasChromeStorage(area: 'local' | 'sync' | 'session'): boolean {
+  return typeof chrome !== 'undefined' && !!chrome.storage && !!chrome.storage[area];
+}
+
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function toArray(keys: string | string[]): string[] {
+  return Array.isArray(keys) ? keys : [keys];
+}
+
+interface ChromeAreaBackend extends Pick<StorageBackend, 'get' | 'set' | 'remove' | 'keys' | 'subscribe'> {
+  /** Read several keys at once */
+  getItems(keys: string[]): Promise<Record<string, unknown>>;
+  /** Write several keys in a single operation: all of them are written, or none */
+  setItems(items: Record<string, unknown>): Promise<void>;
+}
+
+/**
+ * Backend over a chrome.storage area, without any size handling
+ */
+function createChromeAreaBackend(areaName: 'local' | 'sync' | 'session'): ChromeAreaBackend {
+  const area = chrome.storage[areaName];
+
+  const getItems = (keys: string[]): Promise<Record<string, unknown>> =>
+    new Promise((resolve, reject) => {
+      area.get(keys, (result) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+          return;
+        }
+        resolve(result);
+      });
+    });
+
+  const setItems = (items: Record<string, unknown>): Promise<void> =>
+    new Promise((resolve, reject) => {
+      area.set(items, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+          return;
+        }
+        resolve();
+      });
+    });
+
+  return {
+    getItems,
+    setItems,
+    async get<T>(key: string): Promise<T | undefined> {
+      const result = await getItems([key]);
+      return result[key] as T | undefined;
+    },
+    set(key: string, value: unknown): Promise<void> {
+      return setItems({ [key]: value });
+    },
+    remove(keys: string | string[]): Promise<void> {
+      return new Promise((resolve, reject) => {
+        area.remove(toArray(keys), () => {
+          if (chrome.runtime.lastError) {
+            reject(new Error(chrome.runtime.lastError.message));
+            return;
+          }
+          resolve();
+        });
+      });
+    },
+    keys(): Promise<string[]> {
+      return new Promise((resolve, reject) => {
+        area.get(null, (items) => {
+          if (chrome.runtime.lastError) {
+            reject(new Error(chrome.runtime.lastError.message));
+            return;
+          }
+          resolve(Object.keys(items));
+        });
+      });
+    },
+    subscribe(listener: StorageChangeListener): () => void {
+      const handler = (changes: { [key: string]: chrome.storage.StorageChange }, changedArea: string) => {
+        if (changedArea !== areaName) return;
+        Object.entries(changes).forEach(([key, change]) => listener(key, change.newValue));
+      };
+      chrome.storage.onChanged.addListener(handler);
+      return () => chrome.storage.onChanged.removeListener(handler);
+    },
+  };
+}
+
+export function createChromeLocalBackend(): StorageBackend {
+  return {
+    id: 'chrome-local',
+    label: 'Local (this browser)',
+    ...createChromeAreaBackend('local'),
+  };
+}
+
+/**
+ * chrome.storage.session backend, kept in memory until the browser is closed
+ */
+export function createChromeSessionBackend(): StorageBackend {
+  return {
+    id: 'chrome-session',
+    label: 'Browser session',
+    ...createChromeAreaBackend('session'),
+  };
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function chunkKey(key: string, index: number): string {
+  return `${key}__chunk_${index}`;
+}
+
+/**
+ * Split a serialized value so each chunk fits the sync per-item quota
+ */
+function splitIntoChunks(key: string, serialized: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < serialized.length) {
+    const budget = SYNC_QUOTA_BYTES_PER_ITEM - chunkKey(key, chunks.length).length;
+    let end = Math.min(serialized.length, start + budget);
+    while (end > start + 1 && byteLength(JSON.stringify(serialized.slice(start, end))) > budget) {
+      end = start + Math.floor((end - start) * 0.8);
+    }
+    chunks.push(serialized.slice(start, end));
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * chrome.storage.sync backend. Values are serialized and split into chunks
+ * stored under `<key>__chunk_<n>`, the key itself only holds the chunk count.
+ * The chunks and the key are written together in one operation, so readers never
+ * see a new count with old chunks, and each save costs a single write of the quota.
+ */
+export function createChromeSyncBackend(): StorageBackend {
+  const area = createChromeAreaBackend('sync');
+
+  const getChunkCount = async (key: string): Promise<number> => {
+    const header = await area.get<Record<string, unknown>>(key);
+    if (header === undefined) {
+      return 0;
+    }
+    const count = header && typeof header === 'object' ? header[SYNC_CHUNK_MARKER] : undefined;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+      throw new Error(`Corrupt sync header for key ${key}`);
+    }
+    return count;
+  };
+
+  const isChunkKey = (key: string): boolean => /__chunk_\d+$/.test(key);
+
+  const removeChunks = async (key: string, fromIndex: number, count: number): Promise<void> => {
+    const staleKeys: string[] = [];
+    for (let i = fromIndex; i < count; i++) {
+      staleKeys.push(chunkKey(key, i));
+    }
+    if (staleKeys.length > 0) {
+      await area.remove(staleKeys);
+    }
+  };
+
+  const backend: StorageBackend = {
+    id: 'chrome-sync',
+    label: 'Synced (across browsers)',
+    async get<T>(key: string): Promise<T | undefined> {
+      const count = await getChunkCount(key);
+      if (count === 0) {
+        return undefined;
+      }
+
+      const chunkKeys = Array.from({ length: count }, (_, i) => chunkKey(key, i));
+      const items = await area.getItems(chunkKeys);
+      const parts: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const part = items[chunkKeys[i]];
+        if (typeof part !== 'string') {
+          throw new Error(`Missing sync chunk ${i} for key ${key}`);
+        }
+        parts.push(part);
+      }
+      return JSON.parse(parts.join('')) as T;
+    },
+    async set(key: string, value: unknown): Promise<void> {
+      const previousCount = await getChunkCount(key);
+      const chunks = splitIntoChunks(key, JSON.stringify(value));
+
+      const items: Record<string, unknown> = {};
+      chunks.forEach((chunk, i) => {
+        items[chunkKey(key, i)] = chunk;
+      });
+      // The timestamp makes every write change the header, which is what subscribers listen to
+      items[key] = { [SYNC_CHUNK_MARKER]: chunks.length, [SYNC_UPDATED_MARKER]: Date.now() };
+      await area.setItems(items);
+      // Chunks past the new count are no longer read, removing them can't tear the value
+      await removeChunks(key, chunks.length, previousCount);
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      for (const key of toArray(keys)) {
+        const count = await getChunkCount(key);
+        await removeChunks(key, 0, count);
+        await area.remove(key);
+      }
+    },
+    async keys(): Promise<string[]> {
+      const allKeys = await area.keys();
+      return allKeys.filter((key) => !isChunkKey(key));
+    },
+    subscribe(listener: StorageChangeListener): () => void {
+      return area.subscribe((key) => {
+        if (isChunkKey(key)) return;
+        backend.get(key)
+          .then((value) => listener(key, value))
+          .catch((e) => logger.error(`Failed to read changed sync key ${key}:`, e));
+      });
+    },
+  };
+
+  return backend;
+}
+
+/**
+ * localStorage backend, used outside of the extension (e.g. `npm run dev`)
+ */
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    id: 'local-storage',
+    label: 'Local (this browser)',
+    async get<T>(key: string): Promise<T | undefined> {
+      const value = localStorage.getItem(key);
+      if (value === null) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        // Values written before the backend abstraction were stored as raw strings
+        return value as unknown as T;
+      }
+    },
+    async set(key: string, value: unknown): Promise<void> {
+      localStorage.setItem(key, JSON.stringify(value));
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      toArray(keys).forEach((key) => localStorage.removeItem(key));
+    },
+    async keys(): Promise<string[]> {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    },
+    subscribe(listener: StorageChangeListener): () => void {
+      // The storage event only fires in other tabs
+      const handler = (event: StorageEvent) => {
+        if (event.storageArea !== localStorage || !event.key) return;
+        let value: unknown = event.newValue ?? undefined;
+        if (typeof value === 'string') {
+          try {
+            value = JSON.parse(value);
+          } catch {
+            // Raw string value
+          }
+        }
+        listener(event.key, value);
+      };
+      window.addEventListener('storage', handler);
+      return () => window.removeEventListener('storage', handler);
+    },
+  };
+}
+
+/**
+ * IndexedDB backend, suited for large values such as iCal caches
+ */
+export function createIndexedDbBackend(dbName: string = IDB_NAME): StorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // IndexedDB has no change events, writes are announced to other tabs instead
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${dbName}-changes`) : null;
+
+  const announce = (keys: string[]) => {
+    channel?.postMessage({ keys });
+  };
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest | void
+  ): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IDB_STORE, mode);
+      const request = operation(transaction.objectStore(IDB_STORE));
+      transaction.oncomplete = () => resolve((request ? request.result : undefined) as T);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  const backend: StorageBackend = {
+    id: 'indexeddb',
+    label: 'IndexedDB (this browser)',
+    get<T>(key: string): Promise<T | undefined> {
+      return run<T | undefined>('readonly', (store) => store.get(key));
+    },
+    async set(key: string, value: unknown): Promise<void> {
+      await run<void>('readwrite', (store) => {
+        store.put(value, key);
+      });
+      announce([key]);
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      await run<void>('readwrite', (store) => {
+        toArray(keys).forEach((key) => store.delete(key));
+      });
+      announce(toArray(keys));
+    },
+    async keys(): Promise<string[]> {
+      const keys = await run<IDBValidKey[]>('readonly', (store) => store.getAllKeys());
+      return keys.map(String);
+    },
+    subscribe(listener: StorageChangeListener): () => void {
+      if (!channel) {
+        return () => {};
+      }
+      const handler = (event: MessageEvent<{ keys: string[] }>) => {
+        event.data.keys.forEach((key) => {
+          backend.get(key)
+            .then((value) => listener(key, value))
+            .catch((e) => logger.error(`Failed to read changed IndexedDB key ${key}:`, e));
+        });
+      };
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    },
+  };
+
+  return backend;
+}
+
+/**
+ * In-memory backend, nothing is persisted
+ */
+export function createMemoryBackend(initial: Record<string, unknown> = {}): StorageBackend {
+  const items = new Map<string, unknown>(Object.entries(initial));
+  const listeners = new Set<StorageChangeListener>();
+
+  return {
+    id: 'memory',
+    label: 'Memory (not persisted)',
+    async get<T>(key: string): Promise<T | undefined> {
+      return items.get(key) as T | undefined;
+    },
+    async set(key: string, value: unknown): Promise<void> {
+      items.set(key, value);
+      listeners.forEach((listener) => listener(key, value));
+    },
+    async remove(keys: string | string[]): Promise<void> {
+      toArray(keys).forEach((key) => {
+        items.delete(key);
+        listeners.forEach((listener) => listener(key, undefined));
+      });
+    },
+    async keys(): Promise<string[]> {
+      return Array.from(items.keys());
+    },
+    subscribe(listener: StorageChangeListener): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+let localBackend: StorageBackend | null = null;
+let sessionBackend: StorageBackend | null = null;
+let dataBackendPromise: Promise<StorageBackend> | null = null;
+let cacheBackendPromise: Promise<StorageBackend> | null = null;
+
+/**
+ * Backend always available on this machine. Holds the backend preference itself.
+ */
+export function getLocalBackend(): StorageBackend {
+  if (!localBackend) {
+    localBackend = hasChromeStorage('local') ? createChromeLocalBackend() : createLocalStorageBackend();
+  }
+  return localBackend;
+}
+
+/**
+ * Backend cleared when the browser is closed, for data that must not reach the disk.
+ * Falls back to memory (cleared with the tab) outside the extension.
+ */
+export function getSessionBackend(): StorageBackend {
+  if (!sessionBackend) {
+    sessionBackend = hasChromeStorage('session') ? createChromeSessionBackend() : createMemoryBackend();
+  }
+  return sessionBackend;
+}
+
+function createBackend(id: StorageBackendId): StorageBackend {
+  switch (id) {
+    case 'chrome-sync':
+      return hasChromeStorage('sync') ? createChromeSyncBackend() : getLocalBackend();
+    case 'indexeddb':
+      return hasIndexedDb() ? createIndexedDbBackend() : getLocalBackend();
+    case 'memory':
+      return createMemoryBackend();
+    case 'chrome-local':
+    case 'local-storage':
+    default:
+      return getLocalBackend();
+  }
+}
+
+/**
+ * List the backends that can be selected in this environment
+ */
+export function getAvailableBackends(): StorageBackendOption[] {
+  const options: StorageBackendOption[] = [
+    {
+      id: getLocalBackend().id,
+      label: 'Local',
+      description: 'Stored in this browser only',
+    },
+  ];
+  if (hasChromeStorage('sync')) {
+    options.push({
+      id: 'chrome-sync',
+      label: 'Browser sync',
+      description: 'Layout synced across machines signed in to the same browser account',
+    });
+  }
+  if (hasIndexedDb()) {
+    options.push({
+      id: 'indexeddb',
+      label: 'IndexedDB',
+      description: 'Stored in this browser, suited for large caches',
+    });
+  }
+  return options;
+}
+
+export async function getSelectedBackendId(): Promise<StorageBackendId> {
+  try {
+    const id = await getLocalBackend().get<StorageBackendId>(BACKEND_PREFERENCE_KEY);
+    return id || getLocalBackend().id;
+  } catch (e) {
+    logger.error('Failed to load backend preference:', e);
+    return getLocalBackend().id;
+  }
+}
+
+const dataBackendListeners = new Set<() => void>();
+let unsubscribeFromPreference: (() => void) | null = null;
+
+/**
+ * Follow backend switches made by other tabs, so this one stops using the previous backend
+ */
+function watchBackendPreference(): void {
+  if (unsubscribeFromPreference) return;
+  unsubscribeFromPreference = getLocalBackend().subscribe((key) => {
+    if (key !== BACKEND_PREFERENCE_KEY) return;
+    dataBackendPromise = null;
+    cacheBackendPromise = null;
+    dataBackendListeners.forEach((listener) => listener());
+  });
+}
+
+/**
+ * Listen to data backend switches, including the ones made by other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToDataBackend(listener: () => void): () => void {
+  watchBackendPreference();
+  dataBackendListeners.add(listener);
+  return () => {
+    dataBackendListeners.delete(listener);
+  };
+}
+
+/**
+ * Backend holding dashboard data and theme, as selected in the settings menu
+ */
+export function getDataBackend(): Promise<StorageBackend> {
+  if (!dataBackendPromise) {
+    watchBackendPreference();
+    dataBackendPromise = getSelectedBackendId().then(createBackend);
+  }
+  return dataBackendPromise;
+}
+
+/**
+ * Backend holding plugin caches. Never the sync backend, so caches don't eat its quota.
+ */
+export function getCacheBackend(): Promise<StorageBackend> {
+  if (!cacheBackendPromise) {
+    cacheBackendPromise = getDataBackend().then((backend) =>
+      backend.id === 'chrome-sync' ? getLocalBackend() : backend
+    );
+  }
+  return cacheBackendPromise;
+}
+
+/**
+ * Replace the backends, e.g. with memory backends in tests
+ * @param local - Backend returned by getLocalBackend, which also holds the backend preference
+ */
+export function setBackendsForTesting(
+  data: StorageBackend,
+  cache: StorageBackend = data,
+  local: StorageBackend = data
+): void {
+  unsubscribeFromPreference?.();
+  unsubscribeFromPreference = null;
+  localBackend = local;
+  dataBackendPromise = Promise.resolve(data);
+  cacheBackendPromise = Promise.resolve(cache);
+}
+
+/**
+ * Keys among the given ones already holding data in the backend to switch to
+ * @returns An empty list when the backend is the current one
+ */
+export async function findStoredKeys(id: StorageBackendId, keys: string[]): Promise<string[]> {
+  const current = await getDataBackend();
+  const target = createBackend(id);
+  if (target.id === current.id) {
+    return [];
+  }
+
+  const stored: string[] = [];
+  for (const key of keys) {
+    if ((await target.get(key)) !== undefined) {
+      stored.push(key);
+    }
+  }
+  return stored;
+}
+
+/**
+ * Switch the data backend, copying the given keys from the current backend.
+ * Other tabs are notified through the backend preference, see subscribeToDataBackend.
+ * @param id - Backend to switch to
+ * @param keysToCopy - Keys to copy over (dashboard data, theme...)
+ * @param keepExisting - Keep the keys the target backend already holds instead of overwriting them
+ */
+export async function switchDataBackend(
+  id: StorageBackendId,
+  keysToCopy: string[],
+  keepExisting = false
+): Promise<void> {
+  const current = await getDataBackend();
+  const next = createBackend(id);
+
+  if (current.id !== next.id) {
+    for (const key of keysToCopy) {
+      if (keepExisting && (await next.get(key)) !== undefined) {
+        continue;
+      }
+      const value = await current.get(key);
+      if (value !== undefined) {
+        await next.set(key, value);
+      }
+    }
+  }
+
+  await getLocalBackend().set(BACKEND_PREFERENCE_KEY, id);
+  dataBackendPromise = Promise.resolve(next);
+  cacheBackendPromise = null;
+}
@@ -1,12 +1,26 @@
+import { getDataBackend } from './storage-backends';
+import { clearCache } from './cache';
+import { mergeFrames, mergeSpaces } from './dashboard-merge';
+import type { Breakpoint, GridRect, SpaceLayoutSettings } from './layout';
+import { createLogger } from './logger';
+import { migrateDashboardData } from './migrations';
+
+const logger = createLogger('Storage');
+
 export interface SpaceData {
   id: string;
   name: string;
   frames: FrameData[];
+  layout?: SpaceLayoutSettings; // Grid settings, defaults when undefined, see getSpaceLayout
 }
 
 export interface DashboardData {
   spaces: SpaceData[];
   activeSpaceId: string;
+  schemaVersion?: number; // See CURRENT_SCHEMA_VERSION in migrations.ts
+  updatedAt?: number;
+  updatedBy?: string; // Id of the tab that last saved the data
+  isFallback?: boolean; // Default data shown when the stored data can't be read, never saved
   frames?: FrameData[]; // Legacy support for migration
 }
 
@@ -20,263 +34,226 @@ export interface FrameData {
   config: Record<string, unknown>;
   name?: string;
   isNsfw?: boolean;
+  pluginVersion?: string; // Plugin version the config was last migrated to
+  quarantine?: string[]; // Config validation errors of an imported frame, which is not rendered until resolved
+  layouts?: Partial<Record<Exclude<Breakpoint, 'lg'>, GridRect>>; // Positions adjusted by hand on narrower grids, see getBreakpointLayout
 }
 
-const STORAGE_KEY = 'dashboard_data';
-const THEME_KEY = 'dashboard_theme';
+export const STORAGE_KEY = 'dashboard_data';
+export const THEME_KEY = 'dashboard_theme';
 
 export type Theme = 'light' | 'dark' | 'system';
 
+// Identifies writes made by this tab, so they are not merged back as remote changes
+const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
 export async function loadTheme(): Promise<Theme> {
-  return new Promise((resolve) => {
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.get([THEME_KEY], (result) => {
-        resolve((result[THEME_KEY] as Theme) || 'system');
-      });
-    } else {
-      const theme = localStorage.getItem(THEME_KEY);
-      resolve((theme as Theme) || 'system');
-    }
-  });
+  try {
+    const backend = await getDataBackend();
+    const theme = await backend.get<Theme>(THEME_KEY);
+    return theme || 'system';
+  } catch (e) {
+    logger.error('Failed to load theme:', e);
+    return 'system';
+  }
 }
 
 export async function saveTheme(theme: Theme): Promise<void> {
-  return new Promise((resolve) => {
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.set({ [THEME_KEY]: theme }, () => {
-        resolve();
-      });
-    } else {
-      try {
-        localStorage.setItem(THEME_KEY, theme);
-        resolve();
-      } catch (e) {
-        console.error('Failed to save theme:', e);
-        resolve();
-      }
-    }
-  });
+  try {
+    const backend = await getDataBackend();
+    await backend.set(THEME_KEY, theme);
+  } catch (e) {
+    logger.error('Failed to save theme:', e);
+  }
+}
+
+/**
+ * Read the stored dashboard data, the default one when nothing is stored yet
+ * @throws Error if the data can't be read or parsed
+ */
+async function readDashboardData(): Promise<DashboardData> {
+  const backend = await getDataBackend();
+  const data = await backend.get(STORAGE_KEY);
+
+  if (!data) {
+    logger.debug('loadDashboardData - no data found');
+    return migrateDashboardData(null);
+  }
+
+  // Data saved before the storage backends was a JSON string
+  const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+  return migrateDashboardData(parsed);
 }
 
+/**
+ * Load the dashboard data
+ * When the stored data can't be read, the default data is returned marked with
+ * `isFallback`, which saveDashboardData refuses so it never replaces the stored data.
+ */
 export async function loadDashboardData(): Promise<DashboardData> {
-  return new Promise((resolve) => {
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.get([STORAGE_KEY], (result) => {
-        console.log('loadDashboardData - chrome.storage result:', result);
-        const data = result[STORAGE_KEY];
-        if (data) {
-          try {
-            const parsed = typeof data === 'string' ? JSON.parse(data) : data;
-            console.log('loadDashboardData - parsed data:', parsed);
-            
-            // Migration: convert old format to new format
-            if (parsed.frames && !parsed.spaces) {
-              const defaultSpace: SpaceData = {
-                id: 'default-space',
-                name: 'Default',
-                frames: parsed.frames || [],
-              };
-              const migrated: DashboardData = {
-                spaces: [defaultSpace],
-                activeSpaceId: 'default-space',
-              };
-              console.log('loadDashboardData - migrated to spaces format');
-              resolve(migrated);
-              return;
-            }
-            
-            // Ensure we have at least one space
-            if (!parsed.spaces || parsed.spaces.length === 0) {
-              const defaultSpace: SpaceData = {
-                id: 'default-space',
-                name: 'Default',
-                frames: [],
-              };
-              resolve({
-                spaces: [defaultSpace],
-                activeSpaceId: 'default-space',
-              });
-              return;
-            }
-            
-            // Ensure activeSpaceId exists
-            if (!parsed.activeSpaceId || !parsed.spaces.find((s: SpaceData) => s.id === parsed.activeSpaceId)) {
-              parsed.activeSpaceId = parsed.spaces[0].id;
-            }
-            
-            resolve(parsed);
-          } catch (e) {
-            console.error('loadDashboardData - parse error:', e);
-            const defaultSpace: SpaceData = {
-              id: 'default-space',
-              name: 'Default',
-              frames: [],
-            };
-            resolve({
-              spaces: [defaultSpace],
-              activeSpaceId: 'default-space',
-            });
-          }
-        } else {
-          console.log('loadDashboardData - no data found');
-          const defaultSpace: SpaceData = {
-            id: 'default-space',
-            name: 'Default',
-            frames: [],
-          };
-          resolve({
-            spaces: [defaultSpace],
-            activeSpaceId: 'default-space',
-          });
-        }
-      });
-    } else {
-      const data = localStorage.getItem(STORAGE_KEY);
-      console.log('loadDashboardData - localStorage data:', data);
-      if (data) {
-        try {
-          const parsed = JSON.parse(data);
-          console.log('loadDashboardData - parsed data:', parsed);
-          
-          // Migration: convert old format to new format
-          if (parsed.frames && !parsed.spaces) {
-            const defaultSpace: SpaceData = {
-              id: 'default-space',
-              name: 'Default',
-              frames: parsed.frames || [],
-            };
-            const migrated: DashboardData = {
-              spaces: [defaultSpace],
-              activeSpaceId: 'default-space',
-            };
-            console.log('loadDashboardData - migrated to spaces format');
-            resolve(migrated);
-            return;
-          }
-          
-          // Ensure we have at least one space
-          if (!parsed.spaces || parsed.spaces.length === 0) {
-            const defaultSpace: SpaceData = {
-              id: 'default-space',
-              name: 'Default',
-              frames: [],
-            };
-            resolve({
-              spaces: [defaultSpace],
-              activeSpaceId: 'default-space',
-            });
-            return;
-          }
-          
-          // Ensure activeSpaceId exists
-          if (!parsed.activeSpaceId || !parsed.spaces.find((s: SpaceData) => s.id === parsed.activeSpaceId)) {
-            parsed.activeSpaceId = parsed.spaces[0].id;
-          }
-          
-          resolve(parsed);
-        } catch (e) {
-          console.error('loadDashboardData - parse error:', e);
-          const defaultSpace: SpaceData = {
-            id: 'default-space',
-            name: 'Default',
-            frames: [],
-          };
-          resolve({
-            spaces: [defaultSpace],
-            activeSpaceId: 'default-space',
-          });
-        }
-      } else {
-        console.log('loadDashboardData - no data found');
-        const defaultSpace: SpaceData = {
-          id: 'default-space',
-          name: 'Default',
-          frames: [],
-        };
-        resolve({
-          spaces: [defaultSpace],
-          activeSpaceId: 'default-space',
-        });
-      }
+  try {
+    return await readDashboardData();
+  } catch (e) {
+    logger.error('loadDashboardData - read error:', e);
+    return { ...migrateDashboardData(null), isFallback: true };
+  }
+}
+
+export async function saveDashboardData(data: DashboardData): Promise<void> {
+  if (data.isFallback) {
+    logger.error('Refusing to save the fallback dashboard data over the stored data');
+    return;
+  }
+
+  // Clean up legacy frames property if it exists
+  const cleanData = { ...data, updatedBy: TAB_ID, updatedAt: Date.now() };
+  if ('frames' in cleanData) {
+    delete cleanData.frames;
+  }
+
+  try {
+    const backend = await getDataBackend();
+    await backend.set(STORAGE_KEY, cleanData);
+  } catch (e) {
+    logger.error('Failed to save data:', e);
+    throw e;
+  }
+}
+
+/**
+ * Serialize read-modify-write updates so concurrent saves from this tab don't overwrite each other
+ * Updates read with readDashboardData, so they fail instead of saving over data that can't be read.
+ */
+function queueUpdate<T>(update: () => Promise<T>): Promise<T> {
+  const result = pendingUpdate.then(update, update);
+  pendingUpdate = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Save the frames of a space
+ * @param spaceId - Space to update
+ * @param frames - New frames of the space
+ * @param baseFrames - Frames the edit started from. When given, changes made meanwhile
+ * by another tab are merged in instead of being overwritten.
+ * @returns The frames actually saved
+ */
+export async function saveSpaceFrames(
+  spaceId: string,
+  frames: FrameData[],
+  baseFrames?: FrameData[]
+): Promise<FrameData[] | undefined> {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
+    const space = data.spaces.find((s) => s.id === spaceId);
+    if (!space) {
+      return undefined;
     }
+    space.frames = baseFrames ? mergeFrames(baseFrames, frames, space.frames) : frames;
+    await saveDashboardData(data);
+    return space.frames;
   });
 }
 
-export async function saveDashboardData(data: DashboardData): Promise<void> {
-  return new Promise((resolve) => {
-    // Clean up legacy frames property if it exists
-    const cleanData = { ...data };
-    if ('frames' in cleanData) {
-      delete cleanData.frames;
+/**
+ * Save all spaces
+ * @param spaces - New spaces
+ * @param baseSpaces - Spaces the edit started from. When given, changes made meanwhile
+ * by another tab are merged in instead of being overwritten.
+ * @returns The spaces actually saved
+ */
+export async function saveSpaces(spaces: SpaceData[], baseSpaces?: SpaceData[]): Promise<SpaceData[]> {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
+    data.spaces = baseSpaces ? mergeSpaces(baseSpaces, spaces, data.spaces) : spaces;
+    if (data.spaces.length === 0) {
+      return data.spaces;
     }
-    
-    if (typeof chrome !== 'undefined' && chrome.storage && chrome.storage.local) {
-      chrome.storage.local.set({ [STORAGE_KEY]: JSON.stringify(cleanData) }, () => {
-        resolve();
-      });
-    } else {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(cleanData));
-        resolve();
-      } catch (e) {
-        console.error('Failed to save data:', e);
-        resolve();
-      }
+    if (!data.spaces.some((s) => s.id === data.activeSpaceId)) {
+      data.activeSpaceId = data.spaces[0].id;
     }
+    await saveDashboardData(data);
+    return data.spaces;
   });
 }
 
-export async function saveSpaceFrames(spaceId: string, frames: FrameData[]): Promise<void> {
-  return loadDashboardData().then((data) => {
-    const space = data.spaces.find((s) => s.id === spaceId);
-    if (space) {
-      space.frames = frames;
-      return saveDashboardData(data);
-    }
+/**
+ * Listen to dashboard data saved by other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToDashboardData(listener: (data: DashboardData) => void): () => void {
+  let unsubscribe: (() => void) | null = null;
+  let cancelled = false;
+
+  getDataBackend().then((backend) => {
+    if (cancelled) return;
+    unsubscribe = backend.subscribe((key, value) => {
+      if (key !== STORAGE_KEY || !value) return;
+      try {
+        const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+        if (parsed.updatedBy === TAB_ID) return;
+        listener(migrateDashboardData(parsed));
+      } catch (e) {
+        logger.error('subscribeToDashboardData - parse error:', e);
+      }
+    });
   });
+
+  return () => {
+    cancelled = true;
+    unsubscribe?.();
+  };
 }
 
 export async function createSpace(name: string): Promise<SpaceData> {
-  return loadDashboardData().then((data) => {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
     const newSpace: SpaceData = {
       id: `space-${Date.now()}`,
       name,
       frames: [],
     };
     data.spaces.push(newSpace);
-    return saveDashboardData(data).then(() => newSpace);
+    await saveDashboardData(data);
+    return newSpace;
   });
 }
 
 export async function deleteSpace(spaceId: string): Promise<void> {
-  return loadDashboardData().then((data) => {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
     if (data.spaces.length <= 1) {
       throw new Error('Cannot delete the last space');
     }
+    const deletedFrames = data.spaces.find((s) => s.id === spaceId)?.frames ?? [];
     data.spaces = data.spaces.filter((s) => s.id !== spaceId);
     if (data.activeSpaceId === spaceId) {
       data.activeSpaceId = data.spaces[0].id;
     }
-    return saveDashboardData(data);
+    await saveDashboardData(data);
+    await Promise.all(deletedFrames.map((frame) => clearCache(frame.id)));
   });
 }
 
 export async function setActiveSpace(spaceId: string): Promise<void> {
-  return loadDashboardData().then((data) => {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
     if (data.spaces.find((s) => s.id === spaceId)) {
       data.activeSpaceId = spaceId;
-      return saveDashboardData(data);
+      await saveDashboardData(data);
     }
   });
 }
 
 export async function renameSpace(spaceId: string, newName: string): Promise<void> {
-  return loadDashboardData().then((data) => {
+  return queueUpdate(async () => {
+    const data = await readDashboardData();
     const space = data.spaces.find((s) => s.id === spaceId);
     if (space) {
       space.name = newName.trim();
-      return saveDashboardData(data);
+      await saveDashboardData(data);
     }
   });
 }
-
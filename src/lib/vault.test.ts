@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageBackend } from './storage-backends';
+
+let vault: typeof import('./vault');
+let local: StorageBackend;
+let session: StorageBackend;
+
+const input = { pluginId: 'youtrack', field: 'token', value: 'secret-token' };
+
+// The vault keeps the decrypted credentials in module state, each test gets a fresh module
+beforeEach(async () => {
+  vi.resetModules();
+  const backends = await import('./storage-backends');
+  local = backends.createMemoryBackend();
+  backends.setBackendsForTesting(local, local, local);
+  session = backends.getSessionBackend();
+  vault = await import('./vault');
+});
+
+describe('credential vault', () => {
+  it('stores credentials encrypted and resolves references to them', async () => {
+    const id = await vault.saveCredential(input);
+
+    expect(JSON.stringify(await local.get('credential_vault'))).not.toContain('secret-token');
+    const config = { url: 'https://example.com', [vault.CREDENTIAL_REFS_KEY]: { token: id } };
+    expect(await vault.resolveCredentials(config)).toEqual({ ...config, token: 'secret-token' });
+  });
+
+  it('creates a credential for every owner of the same value', async () => {
+    const first = await vault.saveCredential(input);
+    const second = await vault.saveCredential(input);
+
+    expect(second).not.toBe(first);
+    expect(await vault.listCredentials()).toHaveLength(2);
+  });
+
+  it('updates a credential in place unless it is shared', async () => {
+    const id = await vault.saveCredential(input);
+
+    expect(await vault.saveCredential({ ...input, value: 'updated' }, id)).toBe(id);
+    const copyId = await vault.saveCredential({ ...input, value: 'changed' }, id, true);
+    expect(copyId).not.toBe(id);
+
+    const resolve = (ref: string) => vault.resolveCredentials({ [vault.CREDENTIAL_REFS_KEY]: { token: ref } });
+    expect(await resolve(id)).toMatchObject({ token: 'updated' });
+    expect(await resolve(copyId)).toMatchObject({ token: 'changed' });
+  });
+
+  it('keeps a shared credential when its value is unchanged', async () => {
+    const id = await vault.saveCredential(input);
+
+    expect(await vault.saveCredential(input, id, true)).toBe(id);
+  });
+
+  it('locks with a passphrase, keeping only a derived key in the session', async () => {
+    const id = await vault.saveCredential(input);
+    await vault.setVaultPassphrase('passphrase');
+
+    const sessionKey = await session.get<string>('credential_vault_key');
+    expect(sessionKey).toEqual(expect.any(String));
+    expect(sessionKey).not.toBe('passphrase');
+
+    await vault.lockVault();
+    expect(await vault.getVaultStatus()).toEqual({ hasPassphrase: true, isLocked: true });
+    expect(await vault.resolveCredentials({ [vault.CREDENTIAL_REFS_KEY]: { token: id } })).toBeNull();
+    await expect(vault.saveCredential(input)).rejects.toBeInstanceOf(vault.VaultLockedError);
+
+    await expect(vault.unlockVault('wrong')).rejects.toThrow();
+    await vault.unlockVault('passphrase');
+    expect(await vault.getVaultStatus()).toEqual({ hasPassphrase: true, isLocked: false });
+    expect(await vault.listCredentials()).toMatchObject([{ id, label: 'token' }]);
+  });
+
+  it('removes the passphrase', async () => {
+    await vault.saveCredential(input);
+    await vault.setVaultPassphrase('passphrase');
+    await vault.setVaultPassphrase(null);
+
+    expect(await session.get('credential_vault_key')).toBeUndefined();
+    await vault.lockVault();
+    expect(await vault.getVaultStatus()).toEqual({ hasPassphrase: false, isLocked: false });
+  });
+});
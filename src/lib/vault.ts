@@ -0,0 +1,387 @@
+/**
+ * Encrypted credential vault
+ * Plugin secrets (see Plugin.secretFields) are kept out of dashboard data: frame
+ * configs only hold credential ids in `credentialRefs`, and the values live here,
+ * encrypted with AES-GCM. The key is derived from the user passphrase when one is
+ * set; the vault then stays locked until it is unlocked once per browser session, which
+ * keeps the derived key (never the passphrase) in session storage.
+ * Without a passphrase, a random device key stored next to the vault is used, which
+ * keeps secrets out of exports and synced data but not away from local access.
+ */
+
+import type { PluginConfig } from '@/types/plugin';
+import { createSalt, decryptWithPassphrase, deriveSecretKey, encryptWithPassphrase, type EncryptedPayload } from './crypto';
+import { createLogger } from './logger';
+import type { FrameData, SpaceData } from './storage';
+import { getLocalBackend, getSessionBackend } from './storage-backends';
+
+const logger = createLogger('Vault');
+
+export interface Credential {
+  id: string;
+  label: string;
+  pluginId: string;
+  /** Config key the credential is used for */
+  field: string;
+  value: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CredentialInfo = Omit<Credential, 'value'>;
+
+export interface VaultStatus {
+  hasPassphrase: boolean;
+  isLocked: boolean;
+}
+
+/**
+ * Thrown when saving credentials while the vault is locked
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The credential vault is locked.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+interface StoredVaultBase {
+  version: 1;
+  /** Record<id, Credential> serialized then encrypted */
+  payload: EncryptedPayload;
+}
+
+// Encrypted with the device key, or with a key derived from the passphrase and keySalt
+type StoredVault = StoredVaultBase & (
+  | { hasPassphrase: false }
+  | {
+    hasPassphrase: true;
+    /** Base64 salt of the key derived from the passphrase */
+    keySalt: string;
+  }
+);
+
+/** Config key holding credential ids by secret config key */
+export const CREDENTIAL_REFS_KEY = 'credentialRefs';
+
+const VAULT_KEY = 'credential_vault';
+const DEVICE_KEY = 'credential_vault_device_key';
+const SESSION_KEY_KEY = 'credential_vault_key';
+
+// Decrypted credentials, null while locked or not loaded yet
+let credentials: Record<string, Credential> | null = null;
+let loadingCredentials: Promise<Record<string, Credential> | null> | null = null;
+// Ciphertext last written by this tab, to ignore our own change events
+let lastWrittenData: string | null = null;
+let pendingWrite: Promise<unknown> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+async function getDeviceKey(): Promise<string> {
+  const backend = getLocalBackend();
+  const existing = await backend.get<string>(DEVICE_KEY);
+  if (existing) {
+    return existing;
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const key = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  await backend.set(DEVICE_KEY, key);
+  return key;
+}
+
+async function loadStoredVault(): Promise<StoredVault | undefined> {
+  return getLocalBackend().get<StoredVault>(VAULT_KEY);
+}
+
+// Derived key or device key able to decrypt the vault, null while locked
+async function getVaultKey(stored: StoredVault | undefined): Promise<string | null> {
+  if (!stored?.hasPassphrase) {
+    return getDeviceKey();
+  }
+  return (await getSessionBackend().get<string>(SESSION_KEY_KEY)) ?? null;
+}
+
+async function decryptVault(stored: StoredVault, key: string): Promise<Record<string, Credential>> {
+  return JSON.parse(await decryptWithPassphrase(stored.payload, key));
+}
+
+async function readCredentials(): Promise<Record<string, Credential> | null> {
+  const stored = await loadStoredVault();
+  if (!stored) {
+    return {};
+  }
+
+  const key = await getVaultKey(stored);
+  if (!key) {
+    return null;
+  }
+
+  try {
+    return await decryptVault(stored, key);
+  } catch (e) {
+    logger.error('Failed to decrypt credentials:', e);
+    return null;
+  }
+}
+
+/**
+ * Load the decrypted credentials, once for concurrent callers
+ * @returns null if the vault is locked
+ */
+async function loadCredentials(): Promise<Record<string, Credential> | null> {
+  if (credentials) {
+    return credentials;
+  }
+  if (!loadingCredentials) {
+    loadingCredentials = readCredentials().then((loaded) => {
+      credentials = loaded;
+      loadingCredentials = null;
+      return loaded;
+    });
+  }
+  return loadingCredentials;
+}
+
+interface PassphraseKey {
+  /** Key derived from the passphrase and keySalt */
+  key: string;
+  keySalt: string;
+}
+
+async function createPassphraseKey(passphrase: string): Promise<PassphraseKey> {
+  const keySalt = createSalt();
+  return { key: await deriveSecretKey(passphrase, keySalt), keySalt };
+}
+
+// Encrypted with the derived key of a passphrase, or the device key when null
+async function writeVault(next: Record<string, Credential>, passphraseKey: PassphraseKey | null): Promise<void> {
+  const key = passphraseKey?.key ?? (await getDeviceKey());
+  const payload = await encryptWithPassphrase(JSON.stringify(next), key);
+  const stored: StoredVault = passphraseKey
+    ? { version: 1, hasPassphrase: true, keySalt: passphraseKey.keySalt, payload }
+    : { version: 1, hasPassphrase: false, payload };
+  lastWrittenData = stored.payload.data;
+  await getLocalBackend().set(VAULT_KEY, stored);
+  credentials = next;
+  notifyListeners();
+}
+
+/**
+ * Apply a change to the unlocked credentials and save them
+ * Changes are serialized so concurrent saves don't overwrite each other.
+ * @throws VaultLockedError if the vault is locked
+ */
+function updateCredentials<T>(update: (current: Record<string, Credential>) => { next: Record<string, Credential>; result: T }): Promise<T> {
+  const run = pendingWrite.then(async () => {
+    const current = await loadCredentials();
+    if (!current) {
+      throw new VaultLockedError();
+    }
+    const stored = await loadStoredVault();
+    const key = stored?.hasPassphrase ? await getVaultKey(stored) : null;
+    const { next, result } = update(current);
+    if (next !== current) {
+      await writeVault(next, stored?.hasPassphrase && key ? { key, keySalt: stored.keySalt } : null);
+    }
+    return result;
+  });
+  pendingWrite = run.catch(() => undefined);
+  return run;
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const stored = await loadStoredVault();
+  return {
+    hasPassphrase: !!stored?.hasPassphrase,
+    isLocked: (await loadCredentials()) === null,
+  };
+}
+
+/**
+ * Unlock the vault for the rest of the browser session
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const stored = await loadStoredVault();
+  if (!stored?.hasPassphrase) {
+    return;
+  }
+  const key = await deriveSecretKey(passphrase, stored.keySalt);
+  credentials = await decryptVault(stored, key);
+  await getSessionBackend().set(SESSION_KEY_KEY, key);
+  notifyListeners();
+}
+
+export async function lockVault(): Promise<void> {
+  const stored = await loadStoredVault();
+  if (!stored?.hasPassphrase) {
+    return;
+  }
+  await getSessionBackend().remove(SESSION_KEY_KEY);
+  credentials = null;
+  notifyListeners();
+}
+
+/**
+ * Set, change or remove (null) the vault passphrase. The vault must be unlocked.
+ */
+export async function setVaultPassphrase(passphrase: string | null): Promise<void> {
+  await pendingWrite;
+  const current = await loadCredentials();
+  if (!current) {
+    throw new VaultLockedError();
+  }
+  const passphraseKey = passphrase ? await createPassphraseKey(passphrase) : null;
+  await writeVault(current, passphraseKey);
+  if (passphraseKey) {
+    await getSessionBackend().set(SESSION_KEY_KEY, passphraseKey.key);
+  } else {
+    await getSessionBackend().remove(SESSION_KEY_KEY);
+  }
+}
+
+/**
+ * List credentials without their values
+ * @returns null if the vault is locked
+ */
+export async function listCredentials(): Promise<CredentialInfo[] | null> {
+  const current = await loadCredentials();
+  if (!current) {
+    return null;
+  }
+  return Object.values(current)
+    .map(({ id, label, pluginId, field, createdAt, updatedAt }) => ({ id, label, pluginId, field, createdAt, updatedAt }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/**
+ * Save a credential value
+ * @param id - Credential to update, a new one is created without it
+ * @param shared - Whether other frames or connections use the credential too: a changed
+ * value is then saved to a new credential, so it only changes for the caller
+ * @returns Id of the saved credential
+ */
+export function saveCredential(
+  input: Pick<Credential, 'pluginId' | 'field' | 'value'> & { label?: string },
+  id?: string,
+  shared = false
+): Promise<string> {
+  return updateCredentials((current) => {
+    const existing = id ? current[id] : undefined;
+    if (existing && existing.value === input.value && (!input.label || existing.label === input.label)) {
+      return { next: current, result: existing.id };
+    }
+
+    const now = Date.now();
+    const credential: Credential = existing && !shared
+      ? { ...existing, value: input.value, label: input.label || existing.label, updatedAt: now }
+      : {
+        id: (!existing && id) || `cred-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        label: input.label || existing?.label || input.field,
+        pluginId: input.pluginId,
+        field: input.field,
+        value: input.value,
+        createdAt: now,
+        updatedAt: now,
+      };
+    return { next: { ...current, [credential.id]: credential }, result: credential.id };
+  });
+}
+
+export function renameCredential(id: string, label: string): Promise<void> {
+  return updateCredentials((current) => {
+    if (!current[id]) {
+      return { next: current, result: undefined };
+    }
+    return { next: { ...current, [id]: { ...current[id], label, updatedAt: Date.now() } }, result: undefined };
+  });
+}
+
+export function deleteCredential(id: string): Promise<void> {
+  return updateCredentials((current) => {
+    const next = { ...current };
+    delete next[id];
+    return { next, result: undefined };
+  });
+}
+
+/**
+ * Listen to lock state and credential changes, including from other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Pick up credentials and lock changes saved by other tabs
+getLocalBackend().subscribe((key, newValue) => {
+  if (key === VAULT_KEY && (newValue as StoredVault | undefined)?.payload?.data !== lastWrittenData) {
+    credentials = null;
+    notifyListeners();
+  }
+});
+getSessionBackend().subscribe((key, newValue) => {
+  if (key !== SESSION_KEY_KEY) return;
+  if (newValue === undefined) {
+    // Locked, the device key still opens a vault without passphrase
+    credentials = null;
+    notifyListeners();
+  } else if (!credentials) {
+    notifyListeners();
+  }
+});
+
+export function getCredentialRefs(config: PluginConfig): Record<string, string> {
+  const refs = config[CREDENTIAL_REFS_KEY];
+  return refs && typeof refs === 'object' ? (refs as Record<string, string>) : {};
+}
+
+/**
+ * Replace credential references of a config with their values
+ * @returns null if the config references credentials and the vault is locked
+ */
+export async function resolveCredentials(config: PluginConfig): Promise<PluginConfig | null> {
+  const refs = Object.entries(getCredentialRefs(config));
+  if (refs.length === 0) {
+    return config;
+  }
+
+  const current = await loadCredentials();
+  if (!current) {
+    return null;
+  }
+
+  const resolved: PluginConfig = { ...config };
+  refs.forEach(([field, id]) => {
+    if (current[id]) {
+      resolved[field] = current[id].value;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Replace credential references of all frames with their values, e.g. for an export
+ * @returns null if the vault is locked
+ */
+export async function resolveSpacesCredentials(spaces: SpaceData[]): Promise<SpaceData[] | null> {
+  const next: SpaceData[] = [];
+  for (const space of spaces) {
+    const frames: FrameData[] = [];
+    for (const frame of space.frames) {
+      const config = await resolveCredentials(frame.config);
+      if (!config) {
+        return null;
+      }
+      frames.push({ ...frame, config });
+    }
+    next.push({ ...space, frames });
+  }
+  return next;
+}
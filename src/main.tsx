@@ -3,23 +3,26 @@ import './index.css';
 import App from './App';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('App');
 
 // function to initialize React
 function initApp() {
 
   const rootElement = document.getElementById('root');
-  console.log('initApp, location.search=', typeof window !== 'undefined' ? window.location.search : 'no window');
+  logger.debug(`initApp, location.search=${typeof window !== 'undefined' ? window.location.search : 'no window'}`);
   
   // check if the element really does not exist
   if (!rootElement) {
-    console.error("The element #root is not found in the DOM.");
+    logger.error("The element #root is not found in the DOM.");
     return;
   }
 
   // Debug entrypoint: append ?debug=gc to the URL to render the GoogleCalendar view directly
   if (typeof window !== 'undefined' && window.location.search.includes('debug=gc')) {
     import('./plugins/googlecalendar/GoogleCalendarDashboardView').then(({ GoogleCalendarDashboardView }) => {
-      console.log('Debug: rendering GoogleCalendarDashboardView with mock events');
+      logger.debug('Rendering GoogleCalendarDashboardView with mock events');
       const config = { period: 'week', authType: 'ical', icalUrl: '', weekStart: 'monday' };
 
       // Mock events to reproduce interactive behavior (one timed event today)
@@ -49,7 +52,7 @@ function initApp() {
         </React.StrictMode>
       );
     }).catch((err) => {
-      console.error('Failed to load GoogleCalendar debug view', err);
+      logger.error('Failed to load GoogleCalendar debug view', err);
       ReactDOM.createRoot(rootElement).render(
         <React.StrictMode>
           <App />
@@ -4,6 +4,9 @@ import { Bookmark } from './types';
 import { X } from 'lucide-react';
 import { IconPicker } from './IconPicker';
 import { fetchPageMetadata } from '@/lib/metadata-fetcher';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Bookmarks');
 
 interface BookmarkEditModalProps {
   bookmark?: Bookmark;
@@ -39,7 +42,7 @@ export function BookmarkEditModal({
         setTitle(metadata.title);
       }
     } catch (error) {
-      console.error('Error fetching metadata:', error);
+      logger.error('Error fetching metadata:', error);
       if (!title && url) {
         try {
           const urlObj = new URL(url.startsWith('http') ? url : `https://${url}`);
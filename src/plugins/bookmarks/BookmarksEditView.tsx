@@ -196,9 +196,6 @@ export function BookmarksEditView({ config, onConfigChange, isEditing, onExitEdi
       <DndContext
         sensors={sensors}
         collisionDetection={closestCenter}
-        onDragStart={() => {
-          console.log('Drag started');
-        }}
         onDragEnd={handleDragEnd}
       >
         <SortableContext items={bookmarks.map((b) => b.id)} strategy={rectSortingStrategy}>
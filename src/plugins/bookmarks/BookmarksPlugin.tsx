@@ -2,6 +2,7 @@ import { Bookmark } from 'lucide-react';
 import { BookmarksDashboardView } from './BookmarksDashboardView';
 import { BookmarksEditView } from './BookmarksEditView';
 import { Plugin } from '@/types/plugin';
+import { bookmarksConfigSchema } from './types';
 
 export const BookmarksPlugin: Plugin = {
   metadata: {
@@ -14,5 +15,6 @@ export const BookmarksPlugin: Plugin = {
   DashboardView: BookmarksDashboardView,
   EditView: BookmarksEditView,
   IconComponent: Bookmark,
+  configSchema: bookmarksConfigSchema,
 };
 
@@ -1,6 +1,10 @@
 import { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { X, Search, Loader2 } from 'lucide-react';
+import { httpJson } from '@/lib/http-client';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Bookmarks');
 
 // Popular icons to show by default
 const DEFAULT_ICONS = [
@@ -50,50 +54,32 @@ let iconsCachePromise: Promise<SimpleIcon[]> | null = null;
 async function loadAllIcons(): Promise<SimpleIcon[]> {
   // Return cached icons if available
   if (iconsCache && iconsCache.length > 0) {
-    console.log('Returning cached icons:', iconsCache.length);
+    logger.debug(`Returning ${iconsCache.length} cached icons`);
     return iconsCache;
   }
 
   // Return existing promise if already loading
   if (iconsCachePromise) {
-    console.log('Waiting for existing icon load promise...');
+    logger.debug('Waiting for the icons being loaded');
     return iconsCachePromise;
   }
 
   // Create new promise to load icons
   iconsCachePromise = (async () => {
     try {
-      console.log('Fetching icons from API:', SIMPLE_ICONS_API);
-      const response = await fetch(SIMPLE_ICONS_API, {
+      logger.debug(`Fetching icons from ${SIMPLE_ICONS_API}`);
+      const data = await httpJson<{ icons?: unknown[] }>(SIMPLE_ICONS_API, {
         headers: {
           'Accept': 'application/json',
         },
+        source: 'bookmarks',
       });
       
-      console.log('API response status:', response.status, response.statusText);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const text = await response.text();
-      console.log('API response length:', text.length);
-      
-      let data;
-      
-      try {
-        data = JSON.parse(text);
-      } catch (parseError) {
-        console.error('Failed to parse JSON:', parseError);
-        console.error('Response text (first 500 chars):', text.substring(0, 500));
-        throw new Error('Invalid JSON response');
-      }
-      
       const icons = data.icons || [];
-      console.log('Icons from API response:', icons.length);
+      logger.debug(`${icons.length} icons in the API response`);
       
       if (icons.length === 0) {
-        console.warn('No icons in API response, using fallback');
+        logger.warn('No icons in API response, using fallback');
         throw new Error('No icons found in response');
       }
       
@@ -107,18 +93,16 @@ async function loadAllIcons(): Promise<SimpleIcon[]> {
           source: icon.source || '',
         }));
       
-      console.log('Valid icons to cache:', validIcons.length);
+      logger.debug(`${validIcons.length} valid icons to cache`);
       
       if (validIcons.length === 0) {
         throw new Error('No valid icons after filtering');
       }
       
       iconsCache = validIcons;
-      console.log('Icons cached successfully:', validIcons.length);
       return validIcons;
     } catch (error) {
-      console.error('Failed to load icons from API:', error);
-      console.error('Error details:', error instanceof Error ? error.message : String(error));
+      logger.error('Failed to load icons from API:', error);
       // Fallback to default icons if API fails
       const fallbackIcons = DEFAULT_ICONS.map((slug) => ({
         title: slug && slug.length > 0 ? slug.charAt(0).toUpperCase() + slug.slice(1) : slug,
@@ -126,7 +110,7 @@ async function loadAllIcons(): Promise<SimpleIcon[]> {
         hex: '#000000',
         source: '',
       }));
-      console.warn('Using fallback icons:', fallbackIcons.length);
+      logger.warn(`Using ${fallbackIcons.length} fallback icons`);
       iconsCache = fallbackIcons;
       return fallbackIcons;
     }
@@ -150,11 +134,9 @@ export function IconPicker({ currentIcon, onSelect, onClose, embedded = false }:
       setIsLoading(true);
       try {
         const icons = await loadAllIcons();
-        console.log('Loaded icons from API:', icons.length);
         
         // Icons already have slug from loadAllIcons, just filter invalid ones
         const validIcons = icons.filter((icon) => icon && icon.slug && icon.title);
-        console.log('Valid icons after filtering:', validIcons.length);
         
         // Show default icons first, then all others
         const defaultSlugs = new Set(DEFAULT_ICONS);
@@ -162,15 +144,15 @@ export function IconPicker({ currentIcon, onSelect, onClose, embedded = false }:
         const otherIcons = validIcons.filter((icon) => !defaultSlugs.has(icon.slug));
         const sortedIcons = [...defaultIcons, ...otherIcons];
         
-        console.log('Default icons:', defaultIcons.length, 'Other icons:', otherIcons.length, 'Total:', sortedIcons.length);
+        logger.debug(`Loaded ${sortedIcons.length} icons, ${defaultIcons.length} of them shown first`);
         
         if (sortedIcons.length === 0) {
-          console.error('No icons loaded! Check API response.');
+          logger.error('No icons loaded! Check API response.');
         }
         
         setAllIcons(sortedIcons);
       } catch (error) {
-        console.error('Failed to load icons:', error);
+        logger.error('Failed to load icons:', error);
         // Set empty array on error to show fallback
         setAllIcons([]);
       } finally {
@@ -207,11 +189,11 @@ export function IconPicker({ currentIcon, onSelect, onClose, embedded = false }:
             ((icon.title && icon.title.toLowerCase().includes(searchLower)) ||
              icon.slug.toLowerCase().includes(searchLower))
         );
-        console.log('Search results:', filtered.length, 'for term:', searchTerm);
+        logger.debug(`${filtered.length} icons found for "${searchTerm}"`);
         setAllIcons(filtered);
         setDisplayedCount(ICONS_PER_PAGE);
       } else {
-        console.warn('iconsCache is empty, cannot search');
+        logger.warn('iconsCache is empty, cannot search');
         setAllIcons([]);
       }
       setIsSearching(false);
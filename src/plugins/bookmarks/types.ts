@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export interface Bookmark {
   id: string;
   title: string;
@@ -9,3 +11,22 @@ export interface BookmarksConfig {
   bookmarks: Bookmark[];
 }
 
+export const bookmarksConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    bookmarks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'url'],
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          url: { type: 'string' },
+          icon: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
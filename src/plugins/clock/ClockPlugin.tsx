@@ -2,6 +2,7 @@ import { Clock } from 'lucide-react';
 import { ClockDashboardView } from './ClockDashboardView';
 import { ClockEditView } from './ClockEditView';
 import { Plugin } from '@/types/plugin';
+import { clockConfigSchema } from './types';
 
 export const ClockPlugin: Plugin = {
   metadata: {
@@ -14,6 +15,8 @@ export const ClockPlugin: Plugin = {
   DashboardView: ClockDashboardView,
   EditView: ClockEditView,
   IconComponent: Clock,
+  defaultSize: { w: 3, h: 3 },
+  configSchema: clockConfigSchema,
 };
 
 
@@ -2,6 +2,9 @@ import { fetchSunTimes, getSystemTimezone, getTimezoneDisplayName } from './api'
 import { useEffect, useRef, useState } from 'react';
 import { AlertCircle, Loader2, Sunrise, Sunset } from 'lucide-react';
 import { ClockConfig, SunTimes } from './types';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Clock');
 
 // Digital clock components
 function DigitalSimple({ time, date, timezone }: { time: string; date: string; timezone?: string }) {
@@ -269,7 +272,7 @@ export function ClockView({clockConfig, frameId}: ClockViewProps) {
             setIsLoadingSun(false);
           })
           .catch((err) => {
-            console.error('Failed to fetch sun times:', err);
+            logger.error('Failed to fetch sun times:', err);
             setSunError('Failed to load sun times');
             setIsLoadingSun(false);
           });
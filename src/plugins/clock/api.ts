@@ -1,5 +1,9 @@
 import { SunTimes } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
+import { httpJson } from '@/lib/http-client';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Clock');
 
 interface CachedSunTimes {
   sunrise: string;
@@ -38,12 +42,7 @@ export async function fetchSunTimes(
   const url = `https://api.sunrise-sunset.org/json?lat=${latitude}&lng=${longitude}&date=${dateStr}&formatted=0`;
 
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const data = await httpJson<{ status: string; results: SunTimes }>(url, { source: 'clock', frameId });
 
     if (data.status !== 'OK') {
       throw new Error(data.status || 'Failed to fetch sun times');
@@ -67,13 +66,13 @@ export async function fetchSunTimes(
         await saveToCache(frameId, cacheData);
       } catch (cacheError) {
         // Don't fail if caching fails, just log it
-        console.warn('[Sun Times Cache] Failed to cache sun times:', cacheError);
+        logger.warn('Failed to cache sun times:', cacheError);
       }
     }
 
     return sunTimes;
   } catch (error) {
-    console.error('Failed to fetch sun times:', error);
+    logger.error('Failed to fetch sun times:', error);
     throw error;
   }
 }
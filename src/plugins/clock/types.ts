@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export type ClockTheme = 
   | 'digital-simple'
   | 'digital-modern'
@@ -21,6 +23,23 @@ export interface ClockConfig {
   cacheDuration?: number;
 }
 
+export const clockConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    theme: {
+      enum: ['digital-simple', 'digital-modern', 'digital-neon', 'digital-minimal', 'analog-classic', 'analog-modern', 'analog-minimal'],
+    },
+    timezone: { type: 'string' },
+    showDate: { type: 'boolean' },
+    format: { enum: ['12h', '24h'] },
+    showSunrise: { type: 'boolean' },
+    showSunset: { type: 'boolean' },
+    latitude: { type: 'number', minimum: -90, maximum: 90 },
+    longitude: { type: 'number', minimum: -180, maximum: 180 },
+    cacheDuration: { type: 'number', minimum: 0 },
+  },
+};
+
 export interface SunTimes {
   sunrise: string; // ISO 8601 format
   sunset: string; // ISO 8601 format
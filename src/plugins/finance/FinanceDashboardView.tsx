@@ -3,9 +3,14 @@ import { FinanceConfig, FinanceData } from './types';
 import { useEffect, useRef, useState } from 'react';
 
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
 import { fetchFinanceSummary } from './api';
+import { createLogger } from '@/lib/logger';
 
-export function FinanceDashboardView({ config }: PluginComponentProps) {
+const logger = createLogger('Finance');
+
+export function FinanceDashboardView({ config, frameId }: PluginComponentProps) {
   const financeConfig = (config as unknown as FinanceConfig & { mockData?: FinanceData }) || {
     apiEndpoint: '',
     apiToken: '',
@@ -20,44 +25,44 @@ export function FinanceDashboardView({ config }: PluginComponentProps) {
   const [showDetails, setShowDetails] = useState(false);
   const piggyRef = useRef<HTMLDivElement | null>(null);
 
-  useEffect(() => {
-    const loadData = async () => {
-      // Check if mock data is provided
-      if (financeConfig.mockData) {
-        setData(financeConfig.mockData);
-        setIsLoading(false);
-        setError(null);
-        return;
-      }
-
-      if (!financeConfig.apiEndpoint || !financeConfig.apiToken) {
-        setError('Please configure the finance widget (API endpoint and token).');
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
+  const loadData = async () => {
+    // Check if mock data is provided
+    if (financeConfig.mockData) {
+      setData(financeConfig.mockData);
+      setIsLoading(false);
       setError(null);
+      return;
+    }
 
-      try {
-        const summary = await fetchFinanceSummary(financeConfig);
-        setData(summary);
-      } catch (err) {
-        console.error('Failed to fetch finance summary:', err);
-        setError(err instanceof Error ? err.message : 'Failed to fetch finance data.');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadData();
+    if (!financeConfig.apiEndpoint || !financeConfig.apiToken) {
+      setError('Please configure the finance widget (API endpoint and token).');
+      setIsLoading(false);
+      return;
+    }
 
-    // Only set up refresh interval if not using mock data
-    if (!financeConfig.mockData) {
-      const interval = setInterval(loadData, 5 * 60 * 1000); // Refresh every 5 minutes
-      return () => clearInterval(interval);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const summary = await fetchFinanceSummary(financeConfig, frameId);
+      setData(summary);
+    } catch (err) {
+      logger.error('Failed to fetch finance summary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch finance data.');
+      throw err;
+    } finally {
+      setIsLoading(false);
     }
-  }, [financeConfig.apiEndpoint, financeConfig.apiToken, financeConfig.currency, financeConfig.period, financeConfig.mockData]);
+  };
+
+  const { apiEndpoint, apiToken, currency, period, mockData } = financeConfig;
+  useScheduledRefresh(
+    loadData,
+    createRequestKey('finance', apiEndpoint, apiToken, currency, period, !!mockData),
+    financeConfig.cacheDuration
+  );
+  useFrameRefresh(loadData);
+  useFrameStatus(isLoading, error);
 
   useEffect(() => {
     if (!showDetails) return;
@@ -1,7 +1,8 @@
 import { DollarSign } from 'lucide-react';
 import { FinanceDashboardView } from './FinanceDashboardView';
-import { FinanceEditView } from './FinanceEditView';
 import { Plugin } from '@/types/plugin';
+import { FinanceConfig, financeConfigFields } from './types';
+import { testFinanceConnection } from './api';
 
 export const FinancePlugin: Plugin = {
   metadata: {
@@ -12,7 +13,16 @@ export const FinancePlugin: Plugin = {
     version: '1.0.3',
   },
   DashboardView: FinanceDashboardView,
-  EditView: FinanceEditView,
   IconComponent: DollarSign,
+  minSize: { w: 3, h: 3 },
+  configFields: financeConfigFields,
+  hostFields: ['apiEndpoint'],
+  connection: {
+    fields: [
+      { key: 'apiEndpoint', label: 'API Endpoint', placeholder: 'https://hostname' },
+      { key: 'apiToken', label: 'API Token', placeholder: 'Enter your API token' },
+    ],
+    test: (config) => testFinanceConnection(config as unknown as FinanceConfig),
+  },
 };
 
@@ -1,14 +1,5 @@
 import { FinanceConfig, FinanceSummaryResponse, FinanceData, FinanceSummaryItem } from './types';
-
-const REQUEST_TIMEOUT = 30000;
-
-function generateTraceId(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-}
+import { httpJson } from '@/lib/http-client';
 
 function calculateDateRange(period: string): { start: string; end: string } {
   const now = new Date();
@@ -114,48 +105,33 @@ function parseFinanceData(response: FinanceSummaryResponse, currency: string): F
   };
 }
 
-export async function fetchFinanceSummary(config: FinanceConfig): Promise<FinanceData> {
+export async function fetchFinanceSummary(config: FinanceConfig, frameId?: string): Promise<FinanceData> {
   if (!config.apiEndpoint || !config.apiToken) {
     throw new Error('API endpoint and token are required.');
   }
 
   const { start, end } = calculateDateRange(config.period);
-  const traceId = generateTraceId();
-  
+
   const url = new URL(`${config.apiEndpoint}/v1/summary/basic`);
   url.searchParams.set('start', start);
   url.searchParams.set('end', end);
   url.searchParams.set('currency_code', config.currency);
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
-
-  try {
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${config.apiToken}`,
-        'X-Trace-Id': traceId,
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed (${response.status}): ${errorText}`);
-    }
-
-    const data = (await response.json()) as FinanceSummaryResponse;
-    return parseFinanceData(data, config.currency);
-  } catch (err) {
-    clearTimeout(timeoutId);
-    if (err instanceof Error) {
-      throw err;
-    }
-    throw new Error('Failed to fetch finance summary.');
-  }
+  const data = await httpJson<FinanceSummaryResponse>(url.toString(), {
+    headers: {
+      Authorization: `Bearer ${config.apiToken}`,
+      'Content-Type': 'application/json',
+    },
+    sendTraceId: true,
+    source: 'finance',
+    frameId,
+  });
+  return parseFinanceData(data, config.currency);
 }
 
+/**
+ * Check the API endpoint and token by fetching the current month summary
+ */
+export async function testFinanceConnection(config: Pick<FinanceConfig, 'apiEndpoint' | 'apiToken'>): Promise<void> {
+  await fetchFinanceSummary({ ...config, currency: 'EUR', period: 'this-month' });
+}
@@ -1,3 +1,5 @@
+import type { PluginConfigField } from '@/types/plugin';
+
 export type FinanceCurrency = 'EUR' | 'USD';
 
 export type FinancePeriod = 'this-month' | 'this-year' | 'last-month' | 'last-year';
@@ -9,8 +11,45 @@ export interface FinanceConfig {
   period: FinancePeriod;
   targetAmount7DaysBeforeEndOfMonth?: number;
   cacheDuration?: number;
+  connectionId?: string; // Shared connection providing the server settings
 }
 
+export const financeConfigFields: PluginConfigField[] = [
+  { key: 'apiEndpoint', label: 'API Endpoint', type: 'url', placeholder: 'https://hostname', required: true },
+  { key: 'apiToken', label: 'API Token', type: 'text', placeholder: 'Enter your API token', required: true, secret: true },
+  {
+    key: 'currency',
+    label: 'Currency',
+    type: 'select',
+    default: 'EUR',
+    options: [
+      { value: 'EUR', label: 'Euros (EUR)' },
+      { value: 'USD', label: 'Dollars (USD)' },
+    ],
+  },
+  {
+    key: 'period',
+    label: 'Period',
+    type: 'select',
+    default: 'this-month',
+    options: [
+      { value: 'this-month', label: 'This month' },
+      { value: 'this-year', label: 'This year' },
+      { value: 'last-month', label: 'Last month' },
+      { value: 'last-year', label: 'Last year' },
+    ],
+  },
+  {
+    key: 'targetAmount7DaysBeforeEndOfMonth',
+    label: 'Target balance 7 days before month end',
+    type: 'number',
+    min: 0,
+    placeholder: 'e.g. 1000',
+    description: 'Used to compute the goal ratio: amount / (days remaining once only 7 days are left).',
+  },
+  { key: 'cacheDuration', label: 'Cache Duration', type: 'cacheDuration', default: 3600 },
+];
+
 export interface FinanceSummaryItem {
   key: string;
   title: string;
@@ -5,6 +5,9 @@ import { useEffect, useState } from 'react';
 
 import { CacheDurationField } from '@/components/CacheDurationField';
 import { createPortal } from 'react-dom';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('GoogleCalendar');
 
 interface GoogleCalendarConfigModalProps {
   config: GoogleCalendarConfig;
@@ -71,7 +74,7 @@ export function GoogleCalendarConfigModal({ config, onSave, onClose }: GoogleCal
       const fetchedCalendars = await fetchGoogleCalendars(accessToken);
       setCalendars(fetchedCalendars);
     } catch (error) {
-      console.error('Failed to load calendars:', error);
+      logger.error('Failed to load calendars:', error);
     } finally {
       setIsLoadingCalendars(false);
     }
@@ -83,7 +86,7 @@ export function GoogleCalendarConfigModal({ config, onSave, onClose }: GoogleCal
       const { accessToken: token } = await authenticateGoogle();
       setAccessToken(token);
     } catch (error) {
-      console.error('Authentication failed:', error);
+      logger.error('Authentication failed:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       // Show a more helpful error message
@@ -118,7 +121,7 @@ export function GoogleCalendarConfigModal({ config, onSave, onClose }: GoogleCal
       setCalendars([]);
       setSelectedCalendarIds([]);
     } catch (error) {
-      console.error('Failed to revoke auth:', error);
+      logger.error('Failed to revoke auth:', error);
     }
   };
 
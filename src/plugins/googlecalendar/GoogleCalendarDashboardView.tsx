@@ -7,6 +7,7 @@ import { useEffect, useRef, useState } from 'react';
 import { DayColumn } from './DayColumn';
 import { EventPopover } from './EventPopover';
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus } from '@/components/FrameContext';
 import { Timeline } from './Timeline';
 import { groupEventsByDay } from './api';
 
@@ -27,6 +28,7 @@ export function GoogleCalendarDashboardView({ config, debugEvents, frameId }: Pl
   const events = debugEvents ?? hookResult.events;
   const isLoading = debugEvents ? false : hookResult.isLoading;
   const error = debugEvents ? null : hookResult.error;
+  const lastUpdated = debugEvents ? null : hookResult.lastUpdated;
   const [selectedEvent, setSelectedEvent] = useState<GoogleCalendarEvent | null>(null);
   const [popoverPosition, setPopoverPosition] = useState<{ top: number; left: number } | null>(null);
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -35,15 +37,8 @@ export function GoogleCalendarDashboardView({ config, debugEvents, frameId }: Pl
   const containerRef = useRef<HTMLDivElement | null>(null);
   const timelineRef = useRef<HTMLDivElement | null>(null);
 
-  // Register refresh function for Frame.tsx to call when refresh button is clicked
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = hookResult.refresh;
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId, hookResult.refresh]);
+  useFrameRefresh(hookResult.refresh);
+  useFrameStatus(isLoading, error, lastUpdated);
 
   // Use auto-scroll hook
   useAutoScroll(isLoading, containerRef);
@@ -214,7 +209,7 @@ export function GoogleCalendarDashboardView({ config, debugEvents, frameId }: Pl
 
 
 
-  if (isLoading) {
+  if (isLoading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -227,7 +222,7 @@ export function GoogleCalendarDashboardView({ config, debugEvents, frameId }: Pl
     ? (googleCalendarConfig.accessToken && googleCalendarConfig.selectedCalendarIds && googleCalendarConfig.selectedCalendarIds.length > 0)
     : !!googleCalendarConfig.icalUrl;
 
-  if (error || !isConfigured) {
+  if ((error && lastUpdated === null) || !isConfigured) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center text-sm text-muted-foreground">
         <AlertCircle className="w-6 h-6 text-destructive mb-2" />
@@ -2,6 +2,7 @@ import { Calendar } from 'lucide-react';
 import { GoogleCalendarDashboardView } from './GoogleCalendarDashboardView';
 import { GoogleCalendarEditView } from './GoogleCalendarEditView';
 import { Plugin } from '@/types/plugin';
+import { googleCalendarConfigSchema } from './types';
 
 export const GoogleCalendarPlugin: Plugin = {
   metadata: {
@@ -14,5 +15,10 @@ export const GoogleCalendarPlugin: Plugin = {
   DashboardView: GoogleCalendarDashboardView,
   EditView: GoogleCalendarEditView,
   IconComponent: Calendar,
+  defaultSize: { w: 6, h: 5 },
+  minSize: { w: 3, h: 3 },
+  configSchema: googleCalendarConfigSchema,
+  secretFields: ['accessToken', 'refreshToken'],
+  hostFields: ['icalUrl'],
 };
 
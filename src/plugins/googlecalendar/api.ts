@@ -1,9 +1,14 @@
 import { GoogleCalendar, GoogleCalendarConfig, GoogleCalendarEvent, GoogleCalendarEventsResponse } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
+import { httpJson, httpText } from '@/lib/http-client';
+import { AuthError } from '@/lib/http-errors';
+import { createLogger } from '@/lib/logger';
 
 // @ts-ignore
 import ICAL from 'ical.js';
 
+const logger = createLogger('GoogleCalendar');
+
 // Parse iCal text using ical.js library
 
 
@@ -215,7 +220,7 @@ function parseICal(icalText: string): GoogleCalendarEvent[] {
 
     return events;
   } catch (e) {
-    console.error('Error parsing iCal:', e);
+    logger.error('Error parsing iCal:', e);
     return [];
   }
 }
@@ -224,6 +229,55 @@ function parseICal(icalText: string): GoogleCalendarEvent[] {
 // If tzid is provided, treat as local time in that timezone; otherwise treat as UTC if Z suffix
 
 
+/**
+ * Events of a period, sorted by start time
+ * Used for iCal events, which are cached for all periods.
+ */
+export function filterEventsByPeriod(events: GoogleCalendarEvent[], period: string): GoogleCalendarEvent[] {
+  const { timeMin, timeMax } = getDateRange(period);
+  const timeMinDate = new Date(timeMin);
+  const timeMaxDate = new Date(timeMax);
+
+  const filteredEvents = events.filter((event) => {
+    const startDate = event.start.dateTime
+      ? new Date(event.start.dateTime)
+      : event.start.date
+      ? new Date(event.start.date)
+      : null;
+
+    if (!startDate) return false;
+
+    // Include events that start within the period or overlap with it
+    const endDate = event.end?.dateTime
+      ? new Date(event.end.dateTime)
+      : event.end?.date
+      ? new Date(event.end.date)
+      : startDate;
+
+    return startDate <= timeMaxDate && endDate >= timeMinDate;
+  });
+
+  // Sort by start time
+  filteredEvents.sort((a, b) => {
+    const aStart = a.start.dateTime || a.start.date || '';
+    const bStart = b.start.dateTime || b.start.date || '';
+    return aStart.localeCompare(bStart);
+  });
+
+  return filteredEvents;
+}
+
+function getICalErrorMessage(_body: unknown, status: number): string {
+  if (status === 404) {
+    return `iCal URL not found (404). Please verify the URL is correct and publicly accessible.`;
+  } else if (status === 403) {
+    return `Access forbidden (403). The iCal URL may require authentication or may not be publicly accessible.`;
+  } else if (status === 401) {
+    return `Unauthorized (401). The iCal URL may require authentication.`;
+  }
+  return `Failed to fetch iCal (HTTP ${status})`;
+}
+
 // Fetch events from iCal URL (with generic cache support)
 async function fetchICalEvents(
   icalUrl: string,
@@ -232,8 +286,7 @@ async function fetchICalEvents(
   frameId?: string,
   cacheDuration?: number
 ): Promise<GoogleCalendarEvent[]> {
-  const log = (msg: string, ...args: any[]) => console.log(`[iCal Fetch] ${msg}`, ...args);
-  log('Starting fetch. Period:', period, 'ForceRefresh:', forceRefresh);
+  logger.debug('Fetching iCal events', { period, forceRefresh });
 
   try {
     // Validate URL format
@@ -247,41 +300,10 @@ async function fetchICalEvents(
     let cachedEvents: GoogleCalendarEvent[] | null = null;
     if (!forceRefresh && frameId && cacheDuration) {
       cachedEvents = await loadFromCache<GoogleCalendarEvent[]>(frameId, cacheDuration);
-      log('Generic cache lookup result:', !!cachedEvents);
     }
 
     if (cachedEvents) {
-      // Filter cached events by period
-      const { timeMin, timeMax } = getDateRange(period);
-      const timeMinDate = new Date(timeMin);
-      const timeMaxDate = new Date(timeMax);
-
-      const filteredEvents = cachedEvents.filter((event) => {
-        const startDate = event.start.dateTime
-          ? new Date(event.start.dateTime)
-          : event.start.date
-          ? new Date(event.start.date)
-          : null;
-
-        if (!startDate) return false;
-
-        const endDate = event.end?.dateTime
-          ? new Date(event.end.dateTime)
-          : event.end?.date
-          ? new Date(event.end.date)
-          : startDate;
-
-        return startDate <= timeMaxDate && endDate >= timeMinDate;
-      });
-
-      // Sort by start time
-      filteredEvents.sort((a, b) => {
-        const aStart = a.start.dateTime || a.start.date || '';
-        const bStart = b.start.dateTime || b.start.date || '';
-        return aStart.localeCompare(bStart);
-      });
-
-      return filteredEvents;
+      return filterEventsByPeriod(cachedEvents, period);
     }
 
     // Cache miss or expired without today's events, fetch from URL
@@ -291,35 +313,19 @@ async function fetchICalEvents(
       url.searchParams.set('_t', Date.now().toString());
     }
 
-    log('Fetching from URL:', url.toString());
-
-    const response = await fetch(url.toString(), {
-      method: 'GET',
+    const icalText = await httpText(url.toString(), {
       headers: {
         'Accept': 'text/calendar, text/plain, */*',
         ...(forceRefresh ? { 'Cache-Control': 'no-cache', 'Pragma': 'no-cache' } : {}),
       },
       cache: forceRefresh ? 'reload' : 'default',
+      source: 'googlecalendar',
+      frameId,
+      // Private iCal addresses embed a token in their path
+      secretUrl: true,
+      errorMessage: getICalErrorMessage,
     });
     
-    log('Response status:', response.status);
-
-    if (!response.ok) {
-      const statusText = response.statusText || `HTTP ${response.status}`;
-      if (response.status === 404) {
-        throw new Error(`iCal URL not found (404). Please verify the URL is correct and publicly accessible.`);
-      } else if (response.status === 403) {
-        throw new Error(`Access forbidden (403). The iCal URL may require authentication or may not be publicly accessible.`);
-      } else if (response.status === 401) {
-        throw new Error(`Unauthorized (401). The iCal URL may require authentication.`);
-      } else {
-        throw new Error(`Failed to fetch iCal: ${statusText} (${response.status})`);
-      }
-    }
-    
-    const icalText = await response.text();
-    log('Fetched text length:', icalText.length);
-    
     if (!icalText || icalText.trim().length === 0) {
       throw new Error('The iCal URL returned an empty response. Please verify the URL is correct.');
     }
@@ -330,7 +336,7 @@ async function fetchICalEvents(
     }
     
     let allEvents = parseICal(icalText);
-    log('Parsed events count:', allEvents.length);
+    logger.debug(`Parsed ${allEvents.length} iCal events from ${icalText.length} characters`);
 
     // Deduplication is handled inside parseICal now, preventing duplicate events 
     // when a recurring instance is modified (exception).
@@ -358,42 +364,9 @@ async function fetchICalEvents(
       await saveToCache(frameId, eventsToCache);
     }
     
-    // Filter events by period
-    const { timeMin, timeMax } = getDateRange(period);
-    const timeMinDate = new Date(timeMin);
-    const timeMaxDate = new Date(timeMax);
-    
-    const filteredEvents = allEvents.filter((event) => {
-      const startDate = event.start.dateTime 
-        ? new Date(event.start.dateTime)
-        : event.start.date 
-        ? new Date(event.start.date)
-        : null;
-      
-      if (!startDate) return false;
-      
-      // Include events that start within the period or overlap with it
-      const endDate = event.end?.dateTime 
-        ? new Date(event.end.dateTime)
-        : event.end?.date 
-        ? new Date(event.end.date)
-        : startDate;
-      
-      const isInRange = startDate <= timeMaxDate && endDate >= timeMinDate;
-      
-      return isInRange;
-    });
-    
-    // Sort by start time
-    filteredEvents.sort((a, b) => {
-      const aStart = a.start.dateTime || a.start.date || '';
-      const bStart = b.start.dateTime || b.start.date || '';
-      return aStart.localeCompare(bStart);
-    });
-    
-    return filteredEvents;
+    return filterEventsByPeriod(allEvents, period);
   } catch (error) {
-    console.error('Failed to fetch iCal events:', error);
+    logger.error('Failed to fetch iCal events:', error);
     // Re-throw with more context if it's not already a detailed error
     if (error instanceof Error) {
       throw error;
@@ -609,37 +582,31 @@ export async function fetchGoogleCalendars(accessToken: string | undefined): Pro
     }
   }
 
-  const response = await fetch(GOOGLE_CALENDAR_LIST_URL, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-  });
+  const listCalendars = (bearerToken: string | undefined) =>
+    httpJson<{ items?: GoogleCalendar[] }>(GOOGLE_CALENDAR_LIST_URL, {
+      headers: {
+        Authorization: `Bearer ${bearerToken}`,
+      },
+      source: 'googlecalendar',
+    });
 
-  if (!response.ok) {
-    if (response.status === 401) {
-      // Token expired, try to refresh
-      try {
-        const freshToken = await ensureValidToken(accessToken);
-        // Retry with fresh token
-        const retryResponse = await fetch(GOOGLE_CALENDAR_LIST_URL, {
-          headers: {
-            Authorization: `Bearer ${freshToken}`,
-          },
-        });
-        if (!retryResponse.ok) {
-          throw new Error(`Failed to fetch calendars: ${retryResponse.statusText}`);
-        }
-        const data = await retryResponse.json();
-        return data.items || [];
-      } catch (refreshError) {
-        throw new Error('Authentication expired. Please reconnect to Google Calendar.');
-      }
+  try {
+    const data = await listCalendars(token);
+    return data.items || [];
+  } catch (error) {
+    if (!(error instanceof AuthError && error.status === 401)) {
+      throw error;
     }
-    throw new Error(`Failed to fetch calendars: ${response.statusText}`);
   }
 
-  const data = await response.json();
-  return data.items || [];
+  // Token expired, try to refresh
+  try {
+    const freshToken = await ensureValidToken(accessToken);
+    const data = await listCalendars(freshToken);
+    return data.items || [];
+  } catch (refreshError) {
+    throw new AuthError('Authentication expired. Please reconnect to Google Calendar.', { status: 401 });
+  }
 }
 
 // Calculate date range based on period
@@ -722,40 +689,38 @@ export async function fetchGoogleCalendarEvents(
       url.searchParams.set('orderBy', 'startTime');
       url.searchParams.set('maxResults', '250');
 
-      let response = await fetch(url.toString(), {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const listEvents = (bearerToken: string) =>
+        httpJson<GoogleCalendarEventsResponse>(url.toString(), {
+          headers: {
+            Authorization: `Bearer ${bearerToken}`,
+          },
+          source: 'googlecalendar',
+          frameId,
+        });
 
-      // If token expired, try to refresh and retry
-      if (response.status === 401) {
+      let data: GoogleCalendarEventsResponse;
+      try {
+        data = await listEvents(token);
+      } catch (error) {
+        if (!(error instanceof AuthError && error.status === 401)) {
+          throw error;
+        }
+        // Token expired, refresh it and retry
         try {
-          const freshToken = await ensureValidToken(config.accessToken);
-          response = await fetch(url.toString(), {
-            headers: {
-              Authorization: `Bearer ${freshToken}`,
-            },
-          });
-          token = freshToken; // Update token for subsequent requests
+          token = await ensureValidToken(config.accessToken); // Used for subsequent requests
         } catch (refreshError) {
-          throw new Error('Authentication expired. Please reconnect to Google Calendar.');
+          throw new AuthError('Authentication expired. Please reconnect to Google Calendar.', { status: 401 });
         }
+        data = await listEvents(token);
       }
 
-      if (!response.ok) {
-        console.error(`Failed to fetch events for calendar ${calendarId}: ${response.statusText}`);
-        continue;
-      }
-
-      const data: GoogleCalendarEventsResponse = await response.json();
       if (data.items) {
         allEvents.push(...data.items);
       }
     } catch (error) {
-      console.error(`Error fetching events for calendar ${calendarId}:`, error);
-      // If it's an auth error, rethrow it
-      if (error instanceof Error && error.message.includes('Authentication expired')) {
+      logger.error(`Error fetching events for calendar ${calendarId}:`, error);
+      // An expired authentication applies to every calendar
+      if (error instanceof AuthError && error.status === 401) {
         throw error;
       }
     }
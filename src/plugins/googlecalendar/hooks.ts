@@ -1,7 +1,14 @@
 import { GoogleCalendarConfig, GoogleCalendarEvent } from './types';
 import { useEffect, useState } from 'react';
 
-import { fetchGoogleCalendarEvents } from './api';
+import { useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
+import { AuthError } from '@/lib/http-errors';
+import { createLogger } from '@/lib/logger';
+import { fetchGoogleCalendarEvents, filterEventsByPeriod } from './api';
+
+const logger = createLogger('GoogleCalendar');
 
 /**
  * Custom hook to fetch and manage calendar events
@@ -10,78 +17,83 @@ export function useCalendarEvents(config: GoogleCalendarConfig, frameId?: string
   const [events, setEvents] = useState<GoogleCalendarEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Time the shown events were fetched, null until some are loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
-  useEffect(() => {
-    const loadEvents = async (forceRefresh: boolean = false) => {
-      const authType = config.authType || (config.accessToken ? 'oauth' : 'ical');
+  const loadEvents = async (forceRefresh: boolean = false) => {
+    const authType = config.authType || (config.accessToken ? 'oauth' : 'ical');
 
-      // Validate configuration based on auth type
-      if (authType === 'oauth') {
-        if (!config.accessToken || !config.selectedCalendarIds || config.selectedCalendarIds.length === 0) {
-          setError('Please configure the Google Calendar widget.');
-          setIsLoading(false);
-          return;
-        }
-      } else {
-        if (!config.icalUrl) {
-          setError('Please configure the iCal URL.');
-          setIsLoading(false);
-          return;
-        }
+    // Validate configuration based on auth type
+    if (authType === 'oauth') {
+      if (!config.accessToken || !config.selectedCalendarIds || config.selectedCalendarIds.length === 0) {
+        setError('Please configure the Google Calendar widget.');
+        setLastUpdated(null);
+        setIsLoading(false);
+        return;
       }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const fetchedEvents = await fetchGoogleCalendarEvents(config, forceRefresh, frameId);
-        setEvents(fetchedEvents);
-        setError(null);
-      } catch (err) {
-        console.error('Failed to fetch calendar events:', err);
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load events.';
-
-        // If authentication expired, show a helpful message
-        if (errorMessage.includes('Authentication expired') || errorMessage.includes('401')) {
-          setError('Authentication expired. Please reconnect to Google Calendar in the settings.');
-        } else {
-          setError(errorMessage);
-        }
-      } finally {
+    } else {
+      if (!config.icalUrl) {
+        setError('Please configure the iCal URL.');
+        setLastUpdated(null);
         setIsLoading(false);
+        return;
       }
-    };
-
-    loadEvents();
-
-    // Refresh every 5 minutes
-    const interval = setInterval(() => loadEvents(false), 5 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [
-    config.authType,
-    config.accessToken,
-    config.selectedCalendarIds?.join(',') || '',
-    config.icalUrl,
-    config.period,
-    frameId,
-  ]);
+    }
 
-  const refresh = async () => {
     setIsLoading(true);
     setError(null);
+
     try {
-      const fetchedEvents = await fetchGoogleCalendarEvents(config, true, frameId);
-      setEvents(fetchedEvents);
+      const cacheDuration = config.cacheDuration ?? 3600;
+      await staleWhileRevalidate({
+        // Only iCal events are cached, for all periods
+        read: async () => {
+          const cached = frameId && authType === 'ical'
+            ? await readCache<GoogleCalendarEvent[]>(frameId, cacheDuration)
+            : null;
+          return cached && { ...cached, data: filterEventsByPeriod(cached.data, config.period) };
+        },
+        fetch: () => fetchGoogleCalendarEvents(config, true, frameId),
+        onData: (fetchedEvents, timestamp) => {
+          setEvents(fetchedEvents);
+          setLastUpdated(timestamp);
+        },
+        forceRefresh,
+      });
     } catch (err) {
-      console.error('Failed to refresh calendar events:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Failed to refresh events.';
-      setError(errorMessage);
+      // Events loaded before stay visible
+      logger.error('Failed to fetch calendar events:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load events.';
+
+      // If authentication expired, show a helpful message
+      if (err instanceof AuthError && err.status === 401) {
+        setError('Authentication expired. Please reconnect to Google Calendar in the settings.');
+      } else {
+        setError(errorMessage);
+      }
+      throw err;
     } finally {
       setIsLoading(false);
     }
   };
 
-  return { events, isLoading, error, refresh };
+  useScheduledRefresh(
+    () => loadEvents(false),
+    createRequestKey(
+      'googlecalendar',
+      config.authType,
+      config.accessToken,
+      config.selectedCalendarIds?.join(',') || '',
+      config.icalUrl,
+      config.period,
+      frameId
+    ),
+    config.cacheDuration
+  );
+
+  const refresh = () => loadEvents(true);
+
+  return { events, isLoading, error, lastUpdated, refresh };
 }
 
 /**
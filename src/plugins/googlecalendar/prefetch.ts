@@ -0,0 +1,11 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { GoogleCalendarConfig } from './types';
+import { fetchGoogleCalendarEvents } from './api';
+
+// Only iCal events are cached
+export const prefetchGoogleCalendar: PluginPrefetch = async (config, frameId) => {
+  const calendarConfig = config as unknown as GoogleCalendarConfig;
+  const authType = calendarConfig.authType || (calendarConfig.accessToken ? 'oauth' : 'ical');
+  if (authType !== 'ical' || !calendarConfig.icalUrl) return;
+  await fetchGoogleCalendarEvents({ ...calendarConfig, period: calendarConfig.period || '1-day' }, true, frameId);
+};
@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export type GoogleCalendarPeriod = '1-day' | '3-days' | '5-days' | 'week' | 'month';
 export type GoogleCalendarAuthType = 'oauth' | 'ical';
 
@@ -14,6 +16,21 @@ export interface GoogleCalendarConfig {
   cacheDuration?: number; // Cache duration in seconds
 }
 
+export const googleCalendarConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    authType: { enum: ['oauth', 'ical'] },
+    accessToken: { type: 'string' },
+    refreshToken: { type: 'string' },
+    selectedCalendarIds: { type: 'array', items: { type: 'string' } },
+    icalUrl: { type: 'string' },
+    period: { enum: ['1-day', '3-days', '5-days', 'week', 'month'] },
+    userEmail: { type: 'string' },
+    weekStart: { enum: ['sunday', 'monday'] },
+    cacheDuration: { type: 'number', minimum: 0 },
+  },
+};
+
 export interface GoogleCalendar {
   id: string;
   summary: string;
@@ -1,9 +1,13 @@
 import DOMPurify from 'dompurify';
 import { AlertCircle, Loader2, Rss } from 'lucide-react';
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameContext, useFrameRefresh, useFrameStatus, useQueuedWrites, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
+import { sendOrQueueWrite } from '@/lib/offline-queue';
 import { LiteFeedConfig, LiteFeedEvent } from './types';
-import { fetchLiteFeedEvents, markEventAsRead } from './api';
+import { fetchLiteFeedEvents, MARK_READ_ACTION, markEventAsRead } from './api';
 
 function formatRelativeTime(dateStr: string): string {
   const date = new Date(dateStr);
@@ -114,18 +118,38 @@ function SingleEventView({ event }: Readonly<{ event: LiteFeedEvent }>) {
 
 function EventListView({ events, config }: Readonly<{ events: LiteFeedEvent[]; config: LiteFeedConfig }>) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [readIds, setReadIds] = useState<Set<string>>(
+  const [localReadIds, setLocalReadIds] = useState<Set<string>>(
     () => new Set(events.filter(e => e.status === 'READ').map(e => e.id))
   );
+  const { frameId, setBadge } = useFrameContext();
+  const queuedWrites = useQueuedWrites();
+
+  // Events marked as read offline stay read until the write is sent
+  const readIds = useMemo(() => {
+    const ids = new Set(localReadIds);
+    queuedWrites
+      .filter((write) => write.action === MARK_READ_ACTION)
+      .forEach((write) => ids.add(String(write.payload.eventId)));
+    return ids;
+  }, [localReadIds, queuedWrites]);
+
+  // Show the unread count in the frame header
+  useEffect(() => {
+    setBadge(events.filter(e => !readIds.has(e.id)).length);
+    return () => setBadge(null);
+  }, [events, readIds, setBadge]);
 
   const handleToggle = async (event: LiteFeedEvent) => {
     const isExpanded = expandedId === event.id;
     setExpandedId(isExpanded ? null : event.id);
 
     if (!isExpanded && !readIds.has(event.id)) {
-      setReadIds(prev => new Set(prev).add(event.id));
+      setLocalReadIds(prev => new Set(prev).add(event.id));
       try {
-        await markEventAsRead(config, event.id);
+        await sendOrQueueWrite(
+          { pluginId: 'lite-feed', frameId, action: MARK_READ_ACTION, payload: { eventId: event.id } },
+          () => markEventAsRead(config, event.id)
+        );
       } catch {
         // silently ignore — local state already updated
       }
@@ -198,10 +222,13 @@ export function LiteFeedDashboardView({ config, frameId }: PluginComponentProps)
   const [events, setEvents] = useState<LiteFeedEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Time the shown events were fetched, null until some are loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
   const loadEvents = async (forceRefresh: boolean = false) => {
     if (!liteFeedConfig.serverUrl || !liteFeedConfig.apiKey) {
       setError('Configuration incomplete. Please configure the widget in edit mode.');
+      setLastUpdated(null);
       setIsLoading(false);
       return;
     }
@@ -211,37 +238,35 @@ export function LiteFeedDashboardView({ config, frameId }: PluginComponentProps)
 
     try {
       const cacheDuration = liteFeedConfig.cacheDuration ?? 3600;
-      const fetched = await fetchLiteFeedEvents(liteFeedConfig, forceRefresh, frameId, cacheDuration);
-      setEvents(fetched);
+      await staleWhileRevalidate({
+        read: async () => (frameId ? readCache<LiteFeedEvent[]>(frameId, cacheDuration) : null),
+        fetch: () => fetchLiteFeedEvents(liteFeedConfig, true, frameId),
+        onData: (fetched, timestamp) => {
+          setEvents(fetched);
+          setLastUpdated(timestamp);
+        },
+        forceRefresh,
+      });
     } catch (err) {
+      // Events loaded before stay visible
       setError(err instanceof Error ? err.message : 'Failed to fetch events');
-      setEvents([]);
+      throw err;
     } finally {
       setIsLoading(false);
     }
   };
 
-  useEffect(() => {
-    loadEvents();
-    const interval = setInterval(() => loadEvents(false), 5 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [liteFeedConfig.serverUrl, liteFeedConfig.apiKey, liteFeedConfig.type, liteFeedConfig.excludeType, liteFeedConfig.maxResults]);
-
-  const loadEventsRef = useRef(loadEvents);
-  useEffect(() => {
-    loadEventsRef.current = loadEvents;
-  }, [loadEvents]);
+  const { serverUrl, apiKey, status, type, excludeType, maxResults } = liteFeedConfig;
+  useScheduledRefresh(
+    () => loadEvents(false),
+    createRequestKey('lite-feed', serverUrl, apiKey, status, type, excludeType, maxResults),
+    liteFeedConfig.cacheDuration ?? 3600
+  );
 
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = () => loadEventsRef.current(true);
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId]);
+  useFrameRefresh(() => loadEvents(true));
+  useFrameStatus(isLoading, error, lastUpdated);
 
-  if (isLoading) {
+  if (isLoading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -249,7 +274,7 @@ export function LiteFeedDashboardView({ config, frameId }: PluginComponentProps)
     );
   }
 
-  if (error) {
+  if (error && lastUpdated === null) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center">
         <AlertCircle className="w-8 h-8 text-destructive mb-2" />
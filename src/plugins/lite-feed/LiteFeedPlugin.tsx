@@ -1,7 +1,8 @@
 import { Rss } from 'lucide-react';
 import { Plugin } from '@/types/plugin';
+import { LiteFeedConfig, liteFeedConfigFields } from './types';
+import { MARK_READ_ACTION, markEventAsRead, testLiteFeedConnection } from './api';
 import { LiteFeedDashboardView } from './LiteFeedDashboardView';
-import { LiteFeedEditView } from './LiteFeedEditView';
 
 export const LiteFeedPlugin: Plugin = {
   metadata: {
@@ -12,6 +13,21 @@ export const LiteFeedPlugin: Plugin = {
     version: '1.0.0',
   },
   DashboardView: LiteFeedDashboardView,
-  EditView: LiteFeedEditView,
   IconComponent: Rss,
+  defaultSize: { w: 4, h: 5 },
+  minSize: { w: 3, h: 3 },
+  configFields: liteFeedConfigFields,
+  hostFields: ['serverUrl'],
+  connection: {
+    fields: [
+      { key: 'serverUrl', label: 'Server URL', placeholder: 'http://localhost:5000' },
+      { key: 'apiKey', label: 'API Key', placeholder: 'your-api-key' },
+    ],
+    test: (config) => testLiteFeedConnection(config as unknown as LiteFeedConfig),
+  },
+  replayWrite: async (config, write) => {
+    if (write.action === MARK_READ_ACTION) {
+      await markEventAsRead(config as unknown as LiteFeedConfig, String(write.payload.eventId));
+    }
+  },
 };
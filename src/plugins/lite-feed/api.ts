@@ -1,7 +1,8 @@
 import { LiteFeedConfig, LiteFeedEvent } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
-
-const REQUEST_TIMEOUT_MS = 30000;
+import { coalesce, createRequestKey } from '@/lib/refresh-scheduler';
+import { httpJson, httpSend } from '@/lib/http-client';
+import { ParseError } from '@/lib/http-errors';
 
 export async function fetchLiteFeedEvents(
   config: LiteFeedConfig,
@@ -30,27 +31,23 @@ export async function fetchLiteFeedEvents(
 
   const url = `${config.serverUrl.replace(/\/$/, '')}/get-events?${params.toString()}`;
 
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'X-API-Key': config.apiKey,
-      'Content-Type': 'application/json',
-    },
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
+  // Frames showing the same feed share one request
+  const events = await coalesce(createRequestKey('lite-feed', config.apiKey, url), async () => {
+    const data = await httpJson<unknown>(url, {
+      headers: {
+        'X-API-Key': config.apiKey,
+        'Content-Type': 'application/json',
+      },
+      source: 'lite-feed',
+      frameId,
+    });
 
-  if (!Array.isArray(data)) {
-    throw new Error('Invalid response format: expected an array of events');
-  }
+    if (!Array.isArray(data)) {
+      throw new ParseError('Invalid response format: expected an array of events', { url });
+    }
 
-  const events: LiteFeedEvent[] = data;
+    return data as LiteFeedEvent[];
+  });
 
   if (frameId) {
     await saveToCache(frameId, events);
@@ -59,21 +56,25 @@ export async function fetchLiteFeedEvents(
   return events;
 }
 
+/** Action of queued mark-as-read writes, see sendOrQueueWrite */
+export const MARK_READ_ACTION = 'mark-read';
+
 export async function markEventAsRead(config: LiteFeedConfig, eventId: string): Promise<void> {
   const url = `${config.serverUrl.replace(/\/$/, '')}/update-event/${eventId}`;
 
-  const response = await fetch(url, {
+  await httpSend(url, {
     method: 'PATCH',
     headers: {
       'X-API-Key': config.apiKey,
-      'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ status: 'READ' }),
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    json: { status: 'READ' },
+    source: 'lite-feed',
   });
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
+/**
+ * Check the server URL and API key by fetching a single event
+ */
+export async function testLiteFeedConnection(config: Pick<LiteFeedConfig, 'serverUrl' | 'apiKey'>): Promise<void> {
+  await fetchLiteFeedEvents({ ...config, maxResults: 1 }, true);
 }
@@ -0,0 +1,9 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { LiteFeedConfig } from './types';
+import { fetchLiteFeedEvents } from './api';
+
+export const prefetchLiteFeed: PluginPrefetch = async (config, frameId) => {
+  const liteFeedConfig = config as unknown as LiteFeedConfig;
+  if (!liteFeedConfig.serverUrl || !liteFeedConfig.apiKey) return;
+  await fetchLiteFeedEvents(liteFeedConfig, true, frameId);
+};
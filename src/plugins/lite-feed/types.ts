@@ -1,3 +1,5 @@
+import type { PluginConfigField } from '@/types/plugin';
+
 export interface LiteFeedConfig {
   serverUrl: string;
   apiKey: string;
@@ -6,8 +8,42 @@ export interface LiteFeedConfig {
   excludeType?: string;
   maxResults: number;
   cacheDuration?: number;
+  connectionId?: string; // Shared connection providing the server settings
 }
 
+export const liteFeedConfigFields: PluginConfigField[] = [
+  { key: 'serverUrl', label: 'Server URL', type: 'url', placeholder: 'http://localhost:5000', required: true },
+  { key: 'apiKey', label: 'API Key', type: 'text', placeholder: 'your-api-key', required: true, secret: true },
+  {
+    key: 'status',
+    label: 'Status filter',
+    type: 'select',
+    options: [
+      { value: '', label: 'All' },
+      { value: 'UNREAD', label: 'Unread' },
+      { value: 'READ', label: 'Read' },
+    ],
+  },
+  {
+    key: 'type',
+    label: 'Type filter',
+    type: 'text',
+    placeholder: 'banque, news, ...',
+    description: 'Only show events of this type (leave empty for all)',
+  },
+  { key: 'excludeType', label: 'Exclude type', type: 'text', placeholder: 'spam, ads, ...', description: 'Exclude events of this type' },
+  {
+    key: 'maxResults',
+    label: 'Max results',
+    type: 'integer',
+    min: 1,
+    default: 10,
+    required: true,
+    description: 'When set to 1, the widget shows a detailed single-event view',
+  },
+  { key: 'cacheDuration', label: 'Cache Duration', type: 'cacheDuration', default: 3600 },
+];
+
 export interface LiteFeedEvent {
   id: string;
   title: string;
@@ -4,6 +4,9 @@ import { MeteoConfig, MeteoCitySuggestion, MeteoProvider } from './types';
 import { searchCities } from './api';
 import { X, CloudSun, ChevronDown } from 'lucide-react';
 import { CacheDurationField } from '@/components/CacheDurationField';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Meteo');
 
 const PROVIDERS: { id: MeteoProvider; label: string }[] = [
   { id: 'openweather', label: 'OpenWeatherMap' },
@@ -52,7 +55,7 @@ export function MeteoConfigModal({ config, onSave, onClose }: MeteoConfigModalPr
         }
       } catch (err) {
         if (!isCancelled) {
-          console.error('City search failed', err);
+          logger.error('City search failed', err);
           setError('Failed to search cities. Check your API key.');
           setSuggestions([]);
         }
@@ -3,8 +3,14 @@ import { MeteoConfig, MeteoWeatherData } from './types';
 import { useEffect, useRef, useState } from 'react';
 
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
+import { createLogger } from '@/lib/logger';
 import { fetchMeteoData } from './api';
 
+const logger = createLogger('Meteo');
+
 function formatDate(dateString: string) {
   const date = new Date(dateString);
   return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
@@ -20,6 +26,8 @@ export function MeteoDashboardView({ config, frameId }: PluginComponentProps) {
   const [weather, setWeather] = useState<MeteoWeatherData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Time the shown weather was fetched, null until it is loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [currentSectionHeight, setCurrentSectionHeight] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -36,6 +44,7 @@ export function MeteoDashboardView({ config, frameId }: PluginComponentProps) {
 
       if (!meteoConfig.apiKey || !meteoConfig.latitude || !meteoConfig.longitude) {
         setError('Please configure the weather widget (API key and city).');
+        setLastUpdated(null);
         setIsLoading(false);
         return;
       }
@@ -45,40 +54,34 @@ export function MeteoDashboardView({ config, frameId }: PluginComponentProps) {
 
       try {
         const cacheDuration = meteoConfig.cacheDuration ?? 3600;
-        const data = await fetchMeteoData(meteoConfig, forceRefresh, frameId, cacheDuration);
-        setWeather(data);
+        await staleWhileRevalidate({
+          read: async () => (frameId ? readCache<MeteoWeatherData>(frameId, cacheDuration) : null),
+          fetch: () => fetchMeteoData(meteoConfig, true, frameId),
+          onData: (data, timestamp) => {
+            setWeather(data);
+            setLastUpdated(timestamp);
+          },
+          forceRefresh,
+        });
       } catch (err) {
-        console.error(err);
+        // The weather loaded before stays visible
+        logger.error('Failed to fetch weather:', err);
         setError('Failed to fetch weather. Check your API key and city.');
+        throw err;
       } finally {
         setIsLoading(false);
       }
     };
 
-  useEffect(() => {
-    loadWeather();
-
-    // Only set up refresh interval if not using mock data
-    if (!meteoConfig.mockData) {
-      const interval = setInterval(() => loadWeather(false), 10 * 60 * 1000);
-      return () => clearInterval(interval);
-    }
-  }, [meteoConfig.apiKey, meteoConfig.latitude, meteoConfig.longitude, meteoConfig.provider, meteoConfig.cityName, meteoConfig.mockData]);
-
-  // Register refresh function for Frame.tsx to call when refresh button is clicked
-  const loadWeatherRef = useRef(loadWeather);
-  useEffect(() => {
-    loadWeatherRef.current = loadWeather;
-  }, [loadWeather]);
+  const { apiKey, latitude, longitude, provider, cityName, mockData } = meteoConfig;
+  useScheduledRefresh(
+    () => loadWeather(false),
+    createRequestKey('meteo', apiKey, latitude, longitude, provider, cityName, !!mockData),
+    meteoConfig.cacheDuration ?? 3600
+  );
 
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = () => loadWeatherRef.current(true);
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId]);
+  useFrameRefresh(() => loadWeather(true));
+  useFrameStatus(isLoading, error, lastUpdated);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -135,7 +138,7 @@ export function MeteoDashboardView({ config, frameId }: PluginComponentProps) {
     };
   }, [weather]);
 
-  if (isLoading) {
+  if (isLoading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -143,7 +146,7 @@ export function MeteoDashboardView({ config, frameId }: PluginComponentProps) {
     );
   }
 
-  if (error || !weather) {
+  if ((error && lastUpdated === null) || !weather) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center text-sm text-muted-foreground">
         <AlertCircle className="w-6 h-6 text-destructive mb-2" />
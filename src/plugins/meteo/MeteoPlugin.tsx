@@ -2,6 +2,7 @@ import { CloudSun } from 'lucide-react';
 import { MeteoDashboardView } from './MeteoDashboardView';
 import { MeteoEditView } from './MeteoEditView';
 import { Plugin } from '@/types/plugin';
+import { meteoConfigSchema } from './types';
 
 export const MeteoPlugin: Plugin = {
   metadata: {
@@ -14,5 +15,9 @@ export const MeteoPlugin: Plugin = {
   DashboardView: MeteoDashboardView,
   EditView: MeteoEditView,
   IconComponent: CloudSun,
+  defaultSize: { w: 4, h: 3 },
+  minSize: { w: 3, h: 2 },
+  configSchema: meteoConfigSchema,
+  secretFields: ['apiKey'],
 };
 
@@ -6,14 +6,10 @@ import {
   MeteoProvider,
 } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
+import { httpJson } from '@/lib/http-client';
 
-const REQUEST_TIMEOUT = 30000;
 const OPENWEATHER_BASE = 'https://api.openweathermap.org';
 
-function withTimeout(signal?: AbortSignal) {
-  return AbortSignal.timeout ? AbortSignal.timeout(REQUEST_TIMEOUT) : signal;
-}
-
 export async function searchCities(
   provider: MeteoProvider,
   apiKey: string,
@@ -26,16 +22,11 @@ export async function searchCities(
   switch (provider) {
     case 'openweather': {
       const url = `${OPENWEATHER_BASE}/geo/1.0/direct?q=${encodeURIComponent(query)}&limit=5&appid=${apiKey}`;
-      const response = await fetch(url, {
-        signal: withTimeout(),
+      const data = await httpJson<any[]>(url, {
+        source: 'meteo',
+        errorMessage: (_body, status) => `City search failed (${status})`,
       });
-
-      if (!response.ok) {
-        throw new Error(`City search failed (${response.status})`);
-      }
-
-      const data = await response.json();
-      return (data as any[]).map((item) => ({
+      return data.map((item) => ({
         id: item.id,
         name: item.name,
         state: item.state,
@@ -49,7 +40,7 @@ export async function searchCities(
   }
 }
 
-async function fetchOpenWeatherData(config: MeteoConfig): Promise<MeteoWeatherData> {
+async function fetchOpenWeatherData(config: MeteoConfig, frameId?: string): Promise<MeteoWeatherData> {
   if (!config.apiKey || !config.latitude || !config.longitude) {
     throw new Error('Missing API key or coordinates.');
   }
@@ -57,27 +48,17 @@ async function fetchOpenWeatherData(config: MeteoConfig): Promise<MeteoWeatherDa
   const { apiKey, latitude, longitude } = config;
   const units = 'metric';
 
-  const [currentRes, forecastRes] = await Promise.all([
-    fetch(
+  const [currentData, forecastData] = await Promise.all([
+    httpJson<any>(
       `${OPENWEATHER_BASE}/data/2.5/weather?lat=${latitude}&lon=${longitude}&units=${units}&appid=${apiKey}`,
-      { signal: withTimeout() }
+      { source: 'meteo', frameId, errorMessage: () => 'Failed to fetch current weather.' }
     ),
-    fetch(
+    httpJson<any>(
       `${OPENWEATHER_BASE}/data/2.5/forecast?lat=${latitude}&lon=${longitude}&units=${units}&cnt=32&appid=${apiKey}`,
-      { signal: withTimeout() }
+      { source: 'meteo', frameId, errorMessage: () => 'Failed to fetch forecast.' }
     ),
   ]);
 
-  if (!currentRes.ok) {
-    throw new Error('Failed to fetch current weather.');
-  }
-  if (!forecastRes.ok) {
-    throw new Error('Failed to fetch forecast.');
-  }
-
-  const currentData = await currentRes.json();
-  const forecastData = await forecastRes.json();
-
   const current = {
     temperature: currentData.main.temp,
     minTemperature: currentData.main.temp_min,
@@ -149,7 +130,7 @@ export async function fetchMeteoData(
   switch (config.provider) {
     case 'openweather':
     default:
-      data = await fetchOpenWeatherData(config);
+      data = await fetchOpenWeatherData(config, frameId);
   }
 
   // Save to cache if frameId is provided
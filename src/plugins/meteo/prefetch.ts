@@ -0,0 +1,9 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { MeteoConfig } from './types';
+import { fetchMeteoData } from './api';
+
+export const prefetchMeteo: PluginPrefetch = async (config, frameId) => {
+  const meteoConfig = config as unknown as MeteoConfig;
+  if (!meteoConfig.apiKey || !meteoConfig.latitude || !meteoConfig.longitude) return;
+  await fetchMeteoData(meteoConfig, true, frameId);
+};
@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export type MeteoProvider = 'openweather';
 
 export interface MeteoConfig {
@@ -10,6 +12,19 @@ export interface MeteoConfig {
   cacheDuration?: number;
 }
 
+export const meteoConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    provider: { enum: ['openweather'] },
+    apiKey: { type: 'string' },
+    cityName: { type: 'string' },
+    country: { type: 'string' },
+    latitude: { type: 'number', minimum: -90, maximum: 90 },
+    longitude: { type: 'number', minimum: -180, maximum: 180 },
+    cacheDuration: { type: 'number', minimum: 0 },
+  },
+};
+
 export interface MeteoCitySuggestion {
   id?: string;
   name: string;
@@ -2,6 +2,8 @@ import { Bookmark } from 'lucide-react';
 import { NextcloudDashboardView } from './NextcloudDashboardView';
 import { NextcloudEditView } from './NextcloudEditView';
 import { Plugin } from '@/types/plugin';
+import { NextcloudConfig, nextcloudConfigSchema } from './types';
+import { validateCredentials } from './api';
 
 export const NextcloudBookmarksPlugin: Plugin = {
   metadata: {
@@ -14,4 +16,18 @@ export const NextcloudBookmarksPlugin: Plugin = {
   DashboardView: NextcloudDashboardView,
   EditView: NextcloudEditView,
   IconComponent: Bookmark,
+  defaultSize: { w: 4, h: 5 },
+  configSchema: nextcloudConfigSchema,
+  secretFields: ['token'],
+  hostFields: ['baseUrl'],
+  connection: {
+    fields: [
+      { key: 'baseUrl', label: 'API URL', placeholder: 'https://mynextcloudhost/apps/bookmarksmanager/api/v1' },
+      { key: 'token', label: 'API Token', placeholder: 'Your API token' },
+    ],
+    test: async (config) => {
+      const { baseUrl, token } = config as unknown as NextcloudConfig;
+      await validateCredentials(baseUrl || '', token);
+    },
+  },
 };
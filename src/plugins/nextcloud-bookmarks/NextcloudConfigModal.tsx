@@ -4,6 +4,10 @@ import { createPortal } from 'react-dom';
 import { NextcloudConfig, NextcloudCollection, NextcloudTag } from './types';
 import { fetchCollections, fetchTags, validateCredentials } from './api';
 import { CacheDurationField } from '@/components/CacheDurationField';
+import { ConnectionPicker } from '@/components/ConnectionPicker';
+import { HostPermissionNotice } from '@/components/HostPermissionNotice';
+import { requestHostPermissions } from '@/lib/host-permissions';
+import type { PluginConfig } from '@/types/plugin';
 
 interface Props {
   config?: NextcloudConfig;
@@ -12,6 +16,7 @@ interface Props {
 }
 
 export function NextcloudConfigModal({ config, onSave, onClose }: Props) {
+  const [connectionId, setConnectionId] = useState<string | undefined>(config?.connectionId);
   const [baseUrl, setBaseUrl] = useState<string>(config?.baseUrl || '');
   const [token, setToken] = useState<string | undefined>(config?.token);
   const [collections, setCollections] = useState<NextcloudCollection[]>([]);
@@ -38,10 +43,21 @@ export function NextcloudConfigModal({ config, onSave, onClose }: Props) {
     }
   }, []);
 
+  const handleConnectionChange = (id: string | undefined, values: PluginConfig | null) => {
+    setConnectionId(id);
+    // Validate loads collections and tags with the server settings of the connection
+    if (values) {
+      setBaseUrl(String(values.baseUrl || ''));
+      setToken(values.token ? String(values.token) : undefined);
+    }
+  };
+
   const handleValidate = async () => {
     setIsValidating(true);
     setValidationError(null);
     try {
+      // Asked before any other await, while the click still allows a prompt
+      await requestHostPermissions([baseUrl]);
       await validateCredentials(baseUrl, token);
       const [cols, tgs] = await Promise.all([fetchCollections(baseUrl, token), fetchTags(baseUrl, token)]);
       setCollections(cols);
@@ -59,11 +75,11 @@ export function NextcloudConfigModal({ config, onSave, onClose }: Props) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!baseUrl.trim()) {
+    if (!connectionId && !baseUrl.trim()) {
       alert('Please enter the Nextcloud API base URL.');
       return;
     }
-    if (!token || !token.trim()) {
+    if (!connectionId && (!token || !token.trim())) {
       alert('Please enter the token.');
       return;
     }
@@ -74,7 +90,8 @@ export function NextcloudConfigModal({ config, onSave, onClose }: Props) {
 
     onSave({
       baseUrl: baseUrl.trim(),
-      token: token.trim(),
+      token: token?.trim(),
+      connectionId,
       collectionId: selectedCollectionId,
       selectedTagIds: selectedTagIds.length ? selectedTagIds : undefined,
       displayType,
@@ -98,28 +115,35 @@ export function NextcloudConfigModal({ config, onSave, onClose }: Props) {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="text-sm font-medium mb-2 block">API Base URL</label>
-            <input
-              type="url"
-              value={baseUrl}
-              onChange={(e) => setBaseUrl(e.target.value)}
-              placeholder="https://mynextcloudhost/apps/bookmarksmanager/api/v1"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-            <p className="text-xs text-muted-foreground mt-1">Enter the root URL of the bookmarks manager API.</p>
-          </div>
+          <ConnectionPicker pluginId="nextcloud-bookmarks" value={connectionId} onChange={handleConnectionChange} />
+          <HostPermissionNotice urls={[baseUrl]} />
 
-          <div>
-            <label className="text-sm font-medium mb-2 block">Token</label>
-            <input
-              type="password"
-              value={token || ''}
-              onChange={(e) => setToken(e.target.value)}
-              placeholder="Your API token"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-          </div>
+          {!connectionId && (
+            <>
+              <div>
+                <label className="text-sm font-medium mb-2 block">API Base URL</label>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="https://mynextcloudhost/apps/bookmarksmanager/api/v1"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Enter the root URL of the bookmarks manager API.</p>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">Token</label>
+                <input
+                  type="password"
+                  value={token || ''}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="Your API token"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+              </div>
+            </>
+          )}
 
           <div className="flex items-center gap-2">
             <button
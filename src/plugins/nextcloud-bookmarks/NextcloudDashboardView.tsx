@@ -1,8 +1,11 @@
 import { NextcloudBookmark, NextcloudConfig } from './types';
-import { useEffect, useRef, useState } from 'react';
+import { useState } from 'react';
 
 import { BookmarkCard } from './BookmarkCard';
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
 import { fetchBookmarks } from './api';
 
 export function NextcloudDashboardView({ config, frameId }: PluginComponentProps) {
@@ -18,48 +21,42 @@ export function NextcloudDashboardView({ config, frameId }: PluginComponentProps
   const [bookmarks, setBookmarks] = useState<NextcloudBookmark[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Time the shown bookmarks were fetched, null until some are loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
   const load = async (forceRefresh: boolean = false) => {
     if (!nextConfig.baseUrl || !nextConfig.token || !nextConfig.collectionId) return;
     setLoading(true);
     setError(null);
     try {
-      const fetched = await fetchBookmarks(
-        nextConfig.baseUrl,
-        nextConfig.token,
-        nextConfig.collectionId,
-        nextConfig.selectedTagIds,
+      const { baseUrl, token, collectionId, selectedTagIds, cacheDuration = 3600 } = nextConfig;
+      await staleWhileRevalidate({
+        read: async () => (frameId ? readCache<NextcloudBookmark[]>(frameId, cacheDuration) : null),
+        fetch: () => fetchBookmarks(baseUrl, token, collectionId, selectedTagIds, true, frameId),
+        onData: (fetched, timestamp) => {
+          setBookmarks(fetched);
+          setLastUpdated(timestamp);
+        },
         forceRefresh,
-        frameId,
-        nextConfig.cacheDuration
-      );
-      setBookmarks(fetched);
+      });
     } catch (e) {
+      // Bookmarks loaded before stay visible
       const msg = e instanceof Error ? e.message : 'Failed to load bookmarks';
       setError(msg);
+      throw e;
     } finally {
       setLoading(false);
     }
   };
 
-  useEffect(() => {
-    load();
-  }, [config?.baseUrl, config?.token, config?.collectionId, JSON.stringify(config?.selectedTagIds)]);
-
-  // Register refresh function for Frame.tsx to call when refresh button is clicked
-  const loadRef = useRef(load);
-  useEffect(() => {
-    loadRef.current = load;
-  }, [load]);
+  useScheduledRefresh(
+    () => load(false),
+    createRequestKey('nextcloud-bookmarks', nextConfig.baseUrl, nextConfig.token, nextConfig.collectionId, nextConfig.selectedTagIds),
+    nextConfig.cacheDuration
+  );
 
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = () => loadRef.current(true);
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId]);
+  useFrameRefresh(() => load(true));
+  useFrameStatus(loading, error, lastUpdated);
 
   if (!nextConfig.baseUrl || !nextConfig.token || !nextConfig.collectionId) {
     return (
@@ -69,13 +66,13 @@ export function NextcloudDashboardView({ config, frameId }: PluginComponentProps
     );
   }
 
-  if (loading) {
+  if (loading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground p-4">Loading bookmarks...</div>
     );
   }
 
-  if (error) {
+  if (error && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full text-destructive p-4">{error}</div>
     );
@@ -1,15 +1,8 @@
 import { NextcloudBookmark, NextcloudCollection, NextcloudTag } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
+import { httpJson } from '@/lib/http-client';
 
-async function handleResponse(res: Response) {
-  if (!res.ok) {
-    const text = await res.text().catch(() => '');
-    throw new Error(`API Error ${res.status}: ${text || res.statusText}`);
-  }
-  return res.json();
-}
-
-function buildHeaders(token?: string): HeadersInit {
+function buildHeaders(token?: string): Record<string, string> {
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
   if (token) {
     headers.Authorization = `Bearer ${token}`;
@@ -19,14 +12,12 @@ function buildHeaders(token?: string): HeadersInit {
 
 export async function fetchCollections(baseUrl: string, token?: string): Promise<NextcloudCollection[]> {
   const url = `${baseUrl.replace(/\/+$/, '')}/collections`;
-  const res = await fetch(url, { headers: buildHeaders(token) });
-  return handleResponse(res);
+  return httpJson<NextcloudCollection[]>(url, { headers: buildHeaders(token), source: 'nextcloud-bookmarks' });
 }
 
 export async function fetchTags(baseUrl: string, token?: string): Promise<NextcloudTag[]> {
   const url = `${baseUrl.replace(/\/+$/, '')}/tags`;
-  const res = await fetch(url, { headers: buildHeaders(token) });
-  return handleResponse(res);
+  return httpJson<NextcloudTag[]>(url, { headers: buildHeaders(token), source: 'nextcloud-bookmarks' });
 }
 
 export async function fetchBookmarks(
@@ -52,8 +43,11 @@ export async function fetchBookmarks(
   if (tagIds && tagIds.length) parts.push(`tags=${encodeURIComponent(tagIds.join(','))}`);
   const query = parts.length ? `?${parts.join('&')}` : '';
   const url = `${baseUrl.replace(/\/+$/, '')}/bookmarks${query}`;
-  const res = await fetch(url, { headers: buildHeaders(token) });
-  const bookmarks = await handleResponse(res);
+  const bookmarks = await httpJson<NextcloudBookmark[]>(url, {
+    headers: buildHeaders(token),
+    source: 'nextcloud-bookmarks',
+    frameId,
+  });
 
   // Save to cache if frameId is provided
   if (frameId) {
@@ -0,0 +1,9 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { NextcloudConfig } from './types';
+import { fetchBookmarks } from './api';
+
+export const prefetchNextcloudBookmarks: PluginPrefetch = async (config, frameId) => {
+  const { baseUrl, token, collectionId, selectedTagIds } = config as unknown as NextcloudConfig;
+  if (!baseUrl || !token || !collectionId) return;
+  await fetchBookmarks(baseUrl, token, collectionId, selectedTagIds || [], true, frameId);
+};
@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export interface NextcloudBookmark {
   id: string;
   title: string;
@@ -25,4 +27,18 @@ export interface NextcloudConfig {
   selectedTagIds?: string[];
   displayType?: 'card' | 'compact';
   cacheDuration?: number;
+  connectionId?: string; // Shared connection providing the server settings
 }
+
+export const nextcloudConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    baseUrl: { type: 'string' },
+    token: { type: 'string' },
+    collectionId: { type: 'string' },
+    selectedTagIds: { type: 'array', items: { type: 'string' } },
+    displayType: { enum: ['card', 'compact'] },
+    cacheDuration: { type: 'number', minimum: 0 },
+    connectionId: { type: 'string' },
+  },
+};
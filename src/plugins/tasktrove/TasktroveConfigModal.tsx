@@ -4,6 +4,12 @@ import { TasktroveConfig, TasktroveLabel, TasktroveProject, TasktroveStatusFilte
 import { X, Calendar, TrendingUp, Check, ChevronDown, Folder, Tag } from 'lucide-react';
 import { fetchTasktroveLabels, fetchTasktroveProjects } from './api';
 import { CacheDurationField } from '@/components/CacheDurationField';
+import { ConnectionPicker } from '@/components/ConnectionPicker';
+import { HostPermissionNotice, useMissingOrigins } from '@/components/HostPermissionNotice';
+import type { PluginConfig } from '@/types/plugin';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('Tasktrove');
 
 interface TasktroveConfigModalProps {
   config: TasktroveConfig;
@@ -16,6 +22,7 @@ export function TasktroveConfigModal({
   onSave,
   onClose,
 }: TasktroveConfigModalProps) {
+  const [connectionId, setConnectionId] = useState<string | undefined>(config?.connectionId);
   const [apiEndpoint, setApiEndpoint] = useState(config?.apiEndpoint || '');
   const [apiToken, setApiToken] = useState(config?.apiToken || '');
   const [statusFilter, setStatusFilter] = useState<TasktroveStatusFilter>(config?.statusFilter || null);
@@ -30,11 +37,13 @@ export function TasktroveConfigModal({
   const [showProjectsPopover, setShowProjectsPopover] = useState(false);
   const [showLabelsPopover, setShowLabelsPopover] = useState(false);
   const [cacheDuration, setCacheDuration] = useState<number>(config?.cacheDuration ?? 3600);
+  const missingOrigins = useMissingOrigins([apiEndpoint]);
+  const hasAccess = missingOrigins?.length === 0;
 
-  // Load projects and labels when API credentials are available
+  // Load projects and labels when API credentials are available, again once access is granted
   useEffect(() => {
     const loadData = async () => {
-      if (!apiEndpoint || !apiToken) {
+      if (!apiEndpoint || !apiToken || !hasAccess) {
         setProjects([]);
         setLabels([]);
         return;
@@ -51,7 +60,7 @@ export function TasktroveConfigModal({
         setProjects(fetchedProjects);
         setLabels(fetchedLabels);
       } catch (err) {
-        console.error('Failed to load projects/labels:', err);
+        logger.error('Failed to load projects/labels:', err);
         setProjects([]);
         setLabels([]);
       } finally {
@@ -61,7 +70,7 @@ export function TasktroveConfigModal({
     };
 
     loadData();
-  }, [apiEndpoint, apiToken]);
+  }, [apiEndpoint, apiToken, hasAccess]);
 
   // Close popovers when clicking outside
   useEffect(() => {
@@ -80,12 +89,22 @@ export function TasktroveConfigModal({
     }
   }, [showStatusPopover, showProjectsPopover, showLabelsPopover]);
 
+  const handleConnectionChange = (id: string | undefined, values: PluginConfig | null) => {
+    setConnectionId(id);
+    // Projects and labels are loaded with the server settings of the connection
+    if (values) {
+      setApiEndpoint(String(values.apiEndpoint || ''));
+      setApiToken(String(values.apiToken || ''));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     const newConfig: TasktroveConfig = {
       apiEndpoint: apiEndpoint.trim(),
       apiToken: apiToken.trim(),
+      connectionId,
       statusFilter: statusFilter || undefined,
       projectIds: selectedProjectIds.length > 0 ? selectedProjectIds : undefined,
       labelIds: selectedLabelIds.length > 0 ? selectedLabelIds : undefined,
@@ -167,33 +186,40 @@ export function TasktroveConfigModal({
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="apiEndpoint" className="text-sm font-medium mb-2 block">
-              API Endpoint
-            </label>
-            <input
-              id="apiEndpoint"
-              type="text"
-              value={apiEndpoint}
-              onChange={(e) => setApiEndpoint(e.target.value)}
-              placeholder="https://hostname/api/v1"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-          </div>
+          <ConnectionPicker pluginId="tasktrove" value={connectionId} onChange={handleConnectionChange} />
+          <HostPermissionNotice urls={[apiEndpoint]} />
 
-          <div>
-            <label htmlFor="apiToken" className="text-sm font-medium mb-2 block">
-              API Token
-            </label>
-            <input
-              id="apiToken"
-              type="password"
-              value={apiToken}
-              onChange={(e) => setApiToken(e.target.value)}
-              placeholder="Enter your API token"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-          </div>
+          {!connectionId && (
+            <>
+              <div>
+                <label htmlFor="apiEndpoint" className="text-sm font-medium mb-2 block">
+                  API Endpoint
+                </label>
+                <input
+                  id="apiEndpoint"
+                  type="text"
+                  value={apiEndpoint}
+                  onChange={(e) => setApiEndpoint(e.target.value)}
+                  placeholder="https://hostname/api/v1"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="apiToken" className="text-sm font-medium mb-2 block">
+                  API Token
+                </label>
+                <input
+                  id="apiToken"
+                  type="password"
+                  value={apiToken}
+                  onChange={(e) => setApiToken(e.target.value)}
+                  placeholder="Enter your API token"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+              </div>
+            </>
+          )}
 
           <div className="border-t border-border pt-4 space-y-4">
             <h3 className="text-sm font-semibold">Filters</h3>
@@ -1,9 +1,16 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState } from 'react';
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus, useQueuedWrites, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
 import { TasktroveConfig, TasktroveTask, TasktroveLabel, TasktroveProject } from './types';
-import { fetchTasktroveTasks, fetchTasktroveLabels, fetchTasktroveProjects, updateTasktroveTask } from './api';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
+import { sendOrQueueWrite } from '@/lib/offline-queue';
+import { createLogger } from '@/lib/logger';
+import { fetchTasktroveTasks, fetchTasktroveLabels, fetchTasktroveProjects, SET_COMPLETED_ACTION, updateTasktroveTask } from './api';
 import { AlertCircle, Loader2, Check, Calendar, Flag, ListTodo, MessageSquare, Tag, Folder } from 'lucide-react';
 
+const logger = createLogger('Tasktrove');
+
 function formatDate(dateString: string | null | undefined): string {
   if (!dateString) return '';
   
@@ -65,6 +72,12 @@ function getPriorityLabel(priority: number | null | undefined): string {
   return 'No priority';
 }
 
+interface TasktroveData {
+  tasks: TasktroveTask[];
+  labels: TasktroveLabel[];
+  projects: TasktroveProject[];
+}
+
 export function TasktroveDashboardView({ config, frameId }: PluginComponentProps) {
   const tasktroveConfig = (config as unknown as TasktroveConfig & {
     mockData?: {
@@ -83,208 +96,156 @@ export function TasktroveDashboardView({ config, frameId }: PluginComponentProps
   const [projects, setProjects] = useState<Map<string, TasktroveProject>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const loadData = async (forceRefresh: boolean = false) => {
-      // Check if mock data is provided
-      if (tasktroveConfig.mockData) {
-        const mockTasks = tasktroveConfig.mockData.tasks || [];
-        const mockLabels = tasktroveConfig.mockData.labels || [];
-        const mockProjects = tasktroveConfig.mockData.projects || [];
-
-        // Create maps for quick lookup
-        const labelsMap = new Map<string, TasktroveLabel>();
-        mockLabels.forEach(label => {
-          labelsMap.set(label.id, label);
-        });
-
-        const projectsMap = new Map<string, TasktroveProject>();
-        mockProjects.forEach(project => {
-          projectsMap.set(project.id, project);
-        });
-
-        // Apply filters
-        let filteredTasks = mockTasks;
-
-        // Status filter
-        if (tasktroveConfig.statusFilter) {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          const tomorrow = new Date(today);
-          tomorrow.setDate(tomorrow.getDate() + 1);
-
-          filteredTasks = filteredTasks.filter(task => {
-            switch (tasktroveConfig.statusFilter) {
-              case 'today': {
-                if (task.completed) return false;
-                if (!task.dueDate) return false;
-                const taskDate = new Date(task.dueDate);
-                taskDate.setHours(0, 0, 0, 0);
-                return taskDate <= today;
-              }
-              case 'upcoming': {
-                if (task.completed) return false;
-                if (!task.dueDate) return false;
-                const upcomingDate = new Date(task.dueDate);
-                upcomingDate.setHours(0, 0, 0, 0);
-                return upcomingDate >= tomorrow;
-              }
-              case 'completed':
-                return task.completed;
-              case 'uncompleted':
-                return !task.completed;
-              default:
-                return true;
-            }
-          });
+  // Time the shown tasks were fetched, null until some are loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const queuedWrites = useQueuedWrites();
+
+  // Show tasks matching the filters, with their labels and projects
+  const showData = ({ tasks: allTasks, labels: allLabels, projects: allProjects }: TasktroveData) => {
+    // Create maps for quick lookup
+    const labelsMap = new Map<string, TasktroveLabel>();
+    allLabels.forEach(label => {
+      labelsMap.set(label.id, label);
+    });
+
+    const projectsMap = new Map<string, TasktroveProject>();
+    allProjects.forEach(project => {
+      projectsMap.set(project.id, project);
+    });
+
+    // Apply filters
+    let filteredTasks = allTasks;
+
+    // Status filter
+    if (tasktroveConfig.statusFilter) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const tomorrow = new Date(today);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      filteredTasks = filteredTasks.filter(task => {
+        switch (tasktroveConfig.statusFilter) {
+          case 'today': {
+            if (task.completed) return false;
+            if (!task.dueDate) return false;
+            const taskDate = new Date(task.dueDate);
+            taskDate.setHours(0, 0, 0, 0);
+            return taskDate <= today;
+          }
+          case 'upcoming': {
+            if (task.completed) return false;
+            if (!task.dueDate) return false;
+            const upcomingDate = new Date(task.dueDate);
+            upcomingDate.setHours(0, 0, 0, 0);
+            return upcomingDate >= tomorrow;
+          }
+          case 'completed':
+            return task.completed;
+          case 'uncompleted':
+            return !task.completed;
+          default:
+            return true;
         }
+      });
+    }
 
-        // Project filter
-        if (tasktroveConfig.projectIds && tasktroveConfig.projectIds.length > 0) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.projectId && tasktroveConfig.projectIds!.includes(task.projectId)
-          );
-        }
+    // Project filter
+    if (tasktroveConfig.projectIds && tasktroveConfig.projectIds.length > 0) {
+      filteredTasks = filteredTasks.filter(task =>
+        task.projectId && tasktroveConfig.projectIds!.includes(task.projectId)
+      );
+    }
 
-        // Label filter
-        if (tasktroveConfig.labelIds && tasktroveConfig.labelIds.length > 0) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.labelIds.some(labelId => tasktroveConfig.labelIds!.includes(labelId))
-          );
-        }
+    // Label filter
+    if (tasktroveConfig.labelIds && tasktroveConfig.labelIds.length > 0) {
+      filteredTasks = filteredTasks.filter(task =>
+        task.labelIds.some(labelId => tasktroveConfig.labelIds!.includes(labelId))
+      );
+    }
+
+    setTasks(filteredTasks);
+    setLabels(labelsMap);
+    setProjects(projectsMap);
+  };
 
-        setTasks(filteredTasks);
-        setLabels(labelsMap);
-        setProjects(projectsMap);
-        setIsLoading(false);
-        setError(null);
-        return;
-      }
-
-      // Check if configuration is complete
-      if (!tasktroveConfig.apiEndpoint || !tasktroveConfig.apiToken) {
-        setError('Configuration incomplete. Please configure the widget in edit mode.');
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
+  const loadData = async (forceRefresh: boolean = false) => {
+    // Check if mock data is provided
+    if (tasktroveConfig.mockData) {
+      showData({
+        tasks: tasktroveConfig.mockData.tasks || [],
+        labels: tasktroveConfig.mockData.labels || [],
+        projects: tasktroveConfig.mockData.projects || [],
+      });
+      setIsLoading(false);
       setError(null);
+      return;
+    }
 
-      try {
-        const cacheDuration = tasktroveConfig.cacheDuration ?? 3600;
+    // Check if configuration is complete
+    if (!tasktroveConfig.apiEndpoint || !tasktroveConfig.apiToken) {
+      setError('Configuration incomplete. Please configure the widget in edit mode.');
+      setLastUpdated(null);
+      setIsLoading(false);
+      return;
+    }
 
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const cacheDuration = tasktroveConfig.cacheDuration ?? 3600;
+
+      await staleWhileRevalidate<TasktroveData>({
+        read: async () => {
+          if (!frameId) return null;
+          const [cachedTasks, cachedLabels, cachedProjects] = await Promise.all([
+            readCache<TasktroveTask[]>(frameId, cacheDuration),
+            readCache<TasktroveLabel[]>(`${frameId}_labels`, cacheDuration),
+            readCache<TasktroveProject[]>(`${frameId}_projects`, cacheDuration),
+          ]);
+          if (!cachedTasks || !cachedLabels || !cachedProjects) return null;
+          return {
+            data: { tasks: cachedTasks.data, labels: cachedLabels.data, projects: cachedProjects.data },
+            timestamp: Math.min(cachedTasks.timestamp, cachedLabels.timestamp, cachedProjects.timestamp),
+            isStale: cachedTasks.isStale || cachedLabels.isStale || cachedProjects.isStale,
+          };
+        },
         // Load all data in parallel
-        const [fetchedTasks, fetchedLabels, fetchedProjects] = await Promise.all([
-          fetchTasktroveTasks(tasktroveConfig, forceRefresh, frameId, cacheDuration),
-          fetchTasktroveLabels(tasktroveConfig, forceRefresh, frameId, cacheDuration),
-          fetchTasktroveProjects(tasktroveConfig, forceRefresh, frameId, cacheDuration),
-        ]);
-
-        console.log('TasktroveDashboardView - fetched tasks:', fetchedTasks);
-        console.log('TasktroveDashboardView - fetched labels:', fetchedLabels);
-        console.log('TasktroveDashboardView - fetched projects:', fetchedProjects);
-
-        // Create maps for quick lookup
-        const labelsMap = new Map<string, TasktroveLabel>();
-        fetchedLabels.forEach(label => {
-          labelsMap.set(label.id, label);
-        });
-
-        const projectsMap = new Map<string, TasktroveProject>();
-        fetchedProjects.forEach(project => {
-          projectsMap.set(project.id, project);
-        });
-
-        // Apply filters
-        let filteredTasks = fetchedTasks;
-
-        // Status filter
-        if (tasktroveConfig.statusFilter) {
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-          const tomorrow = new Date(today);
-          tomorrow.setDate(tomorrow.getDate() + 1);
-
-          filteredTasks = filteredTasks.filter(task => {
-            switch (tasktroveConfig.statusFilter) {
-              case 'today': {
-                if (task.completed) return false;
-                if (!task.dueDate) return false;
-                const taskDate = new Date(task.dueDate);
-                taskDate.setHours(0, 0, 0, 0);
-                return taskDate <= today;
-              }
-              case 'upcoming': {
-                if (task.completed) return false;
-                if (!task.dueDate) return false;
-                const upcomingDate = new Date(task.dueDate);
-                upcomingDate.setHours(0, 0, 0, 0);
-                return upcomingDate >= tomorrow;
-              }
-              case 'completed':
-                return task.completed;
-              case 'uncompleted':
-                return !task.completed;
-              default:
-                return true;
-            }
-          });
-        }
-
-        // Project filter
-        if (tasktroveConfig.projectIds && tasktroveConfig.projectIds.length > 0) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.projectId && tasktroveConfig.projectIds!.includes(task.projectId)
-          );
-        }
+        fetch: async () => {
+          const [fetchedTasks, fetchedLabels, fetchedProjects] = await Promise.all([
+            fetchTasktroveTasks(tasktroveConfig, true, frameId),
+            fetchTasktroveLabels(tasktroveConfig, true, frameId),
+            fetchTasktroveProjects(tasktroveConfig, true, frameId),
+          ]);
+          return { tasks: fetchedTasks, labels: fetchedLabels, projects: fetchedProjects };
+        },
+        onData: (data, timestamp) => {
+          showData(data);
+          setLastUpdated(timestamp);
+        },
+        forceRefresh,
+      });
+    } catch (err) {
+      // Tasks loaded before stay visible
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch data';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-        // Label filter
-        if (tasktroveConfig.labelIds && tasktroveConfig.labelIds.length > 0) {
-          filteredTasks = filteredTasks.filter(task =>
-            task.labelIds.some(labelId => tasktroveConfig.labelIds!.includes(labelId))
-          );
-        }
+  const { apiEndpoint, apiToken, statusFilter, projectIds, labelIds, mockData } = tasktroveConfig;
+  useScheduledRefresh(
+    () => loadData(false),
+    createRequestKey('tasktrove', apiEndpoint, apiToken, statusFilter, projectIds, labelIds, !!mockData),
+    tasktroveConfig.cacheDuration ?? 3600
+  );
 
-        setTasks(filteredTasks);
-        setLabels(labelsMap);
-        setProjects(projectsMap);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch data';
-        setError(errorMessage);
-        setTasks([]);
-        setLabels(new Map());
-        setProjects(new Map());
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-  useEffect(() => {
-    loadData();
-
-    // Only set up refresh interval if not using mock data
-    if (!tasktroveConfig.mockData) {
-      const interval = setInterval(() => loadData(false), 5 * 60 * 1000);
-      return () => clearInterval(interval);
-    }
-  }, [tasktroveConfig.apiEndpoint, tasktroveConfig.apiToken, tasktroveConfig.statusFilter, tasktroveConfig.projectIds, tasktroveConfig.labelIds, tasktroveConfig.mockData]);
-
-  // Register refresh function for Frame.tsx to call when refresh button is clicked
-  const loadDataRef = useRef(loadData);
-  useEffect(() => {
-    loadDataRef.current = loadData;
-  }, [loadData]);
-
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = () => loadDataRef.current(true);
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId]);
+  useFrameRefresh(() => loadData(true));
+  useFrameStatus(isLoading, error, lastUpdated);
 
-  if (isLoading) {
+  if (isLoading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -292,7 +253,7 @@ export function TasktroveDashboardView({ config, frameId }: PluginComponentProps
     );
   }
 
-  if (error) {
+  if (error && lastUpdated === null) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center">
         <AlertCircle className="w-8 h-8 text-destructive mb-2" />
@@ -309,9 +270,15 @@ export function TasktroveDashboardView({ config, frameId }: PluginComponentProps
     );
   }
 
+  // Completions made offline, until they are sent
+  const shownTasks = tasks.map((task) => {
+    const queued = queuedWrites.filter((write) => write.action === SET_COMPLETED_ACTION && write.payload.taskId === task.id).pop();
+    return queued ? { ...task, completed: !!queued.payload.completed } : task;
+  });
+
   return (
     <div className="p-2 overflow-y-auto">
-      {tasks.map((task, index) => {
+      {shownTasks.map((task, index) => {
         const dueDate = formatDate(task.dueDate);
         const isOverdue = isDateOverdue(task.dueDate);
         const priorityColor = getPriorityColor(task.priority);
@@ -343,12 +310,23 @@ export function TasktroveDashboardView({ config, frameId }: PluginComponentProps
           );
 
           try {
-            // Update via API
-            await updateTasktroveTask(tasktroveConfig, task.id, {
-              completed: newCompleted,
-            });
+            // Update via API, or once back online
+            const update = () => updateTasktroveTask(tasktroveConfig, task.id, { completed: newCompleted });
+            if (frameId) {
+              await sendOrQueueWrite(
+                {
+                  pluginId: 'tasktrove',
+                  frameId,
+                  action: SET_COMPLETED_ACTION,
+                  payload: { taskId: task.id, completed: newCompleted },
+                },
+                update
+              );
+            } else {
+              await update();
+            }
           } catch (err) {
-            console.error('Failed to update task:', err);
+            logger.error('Failed to update task:', err);
             // Revert on error
             setTasks(prevTasks =>
               prevTasks.map(t =>
@@ -1,5 +1,11 @@
 import { CheckSquare2 } from 'lucide-react';
 import { Plugin } from '@/types/plugin';
+import { TasktroveConfig, tasktroveConfigSchema } from './types';
+import {
+  SET_COMPLETED_ACTION,
+  testTasktroveConnection,
+  updateTasktroveTask,
+} from './api';
 import { TasktroveDashboardView } from './TasktroveDashboardView';
 import { TasktroveEditView } from './TasktroveEditView';
 
@@ -14,5 +20,24 @@ export const TasktrovePlugin: Plugin = {
   DashboardView: TasktroveDashboardView,
   EditView: TasktroveEditView,
   IconComponent: CheckSquare2,
+  defaultSize: { w: 4, h: 5 },
+  minSize: { w: 3, h: 3 },
+  configSchema: tasktroveConfigSchema,
+  secretFields: ['apiToken'],
+  hostFields: ['apiEndpoint'],
+  connection: {
+    fields: [
+      { key: 'apiEndpoint', label: 'API Endpoint', placeholder: 'https://hostname/api/v1' },
+      { key: 'apiToken', label: 'API Token', placeholder: 'Enter your API token' },
+    ],
+    test: (config) => testTasktroveConnection(config as unknown as TasktroveConfig),
+  },
+  replayWrite: async (config, write) => {
+    if (write.action === SET_COMPLETED_ACTION) {
+      await updateTasktroveTask(config as unknown as TasktroveConfig, String(write.payload.taskId), {
+        completed: !!write.payload.completed,
+      });
+    }
+  },
 };
 
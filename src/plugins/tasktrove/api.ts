@@ -1,7 +1,8 @@
 import { TasktroveConfig, TasktroveTask, TasktroveApiResponse, TasktroveTaskRaw, TasktroveLabel, TasktroveProject, TasktroveLabelsResponse, TasktroveProjectsResponse } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
-
-const REQUEST_TIMEOUT_SECS = 30000; // 30 seconds in milliseconds
+import { coalesce, createRequestKey } from '@/lib/refresh-scheduler';
+import { httpJson } from '@/lib/http-client';
+import { ParseError } from '@/lib/http-errors';
 
 function processTask(rawTask: TasktroveTaskRaw): TasktroveTask {
   const subtasks = rawTask.subtasks || [];
@@ -26,6 +27,25 @@ function processTask(rawTask: TasktroveTaskRaw): TasktroveTask {
   };
 }
 
+/**
+ * GET a JSON resource of the API
+ * Frames using the same server share pending requests.
+ */
+function getJson<T>(config: TasktroveConfig, path: string, frameId?: string): Promise<T> {
+  const url = `${config.apiEndpoint}${path}`;
+
+  return coalesce(createRequestKey('tasktrove', config.apiToken, url), () =>
+    httpJson<T>(url, {
+      headers: {
+        'Authorization': `Bearer ${config.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      source: 'tasktrove',
+      frameId,
+    })
+  );
+}
+
 export async function fetchTasktroveTasks(
   config: TasktroveConfig,
   forceRefresh: boolean = false,
@@ -40,34 +60,7 @@ export async function fetchTasktroveTasks(
     }
   }
 
-  const url = `${config.apiEndpoint}/tasks`;
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${config.apiToken}`,
-      'Content-Type': 'application/json',
-    },
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_SECS),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    if (errorData.error || errorData.message) {
-      throw new Error(errorData.error || errorData.message || `HTTP ${response.status}`);
-    }
-
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data: TasktroveApiResponse = await response.json();
+  const data = await getJson<TasktroveApiResponse>(config, '/tasks', frameId);
 
   // Process the tasks from the API response
   if (data && Array.isArray(data.tasks)) {
@@ -81,7 +74,7 @@ export async function fetchTasktroveTasks(
     return tasks;
   }
 
-  throw new Error('Invalid response format: expected a tasks array');
+  throw new ParseError('Invalid response format: expected a tasks array');
 }
 
 export async function fetchTasktroveLabels(
@@ -98,34 +91,7 @@ export async function fetchTasktroveLabels(
     }
   }
 
-  const url = `${config.apiEndpoint}/labels`;
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${config.apiToken}`,
-      'Content-Type': 'application/json',
-    },
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_SECS),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    if (errorData.error || errorData.message) {
-      throw new Error(errorData.error || errorData.message || `HTTP ${response.status}`);
-    }
-
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data: TasktroveLabelsResponse = await response.json();
+  const data = await getJson<TasktroveLabelsResponse>(config, '/labels', frameId);
 
   if (data && Array.isArray(data.labels)) {
     const labels = data.labels;
@@ -138,7 +104,7 @@ export async function fetchTasktroveLabels(
     return labels;
   }
 
-  throw new Error('Invalid response format: expected a labels array');
+  throw new ParseError('Invalid response format: expected a labels array');
 }
 
 export async function fetchTasktroveProjects(
@@ -155,34 +121,7 @@ export async function fetchTasktroveProjects(
     }
   }
 
-  const url = `${config.apiEndpoint}/projects`;
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${config.apiToken}`,
-      'Content-Type': 'application/json',
-    },
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_SECS),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    if (errorData.error || errorData.message) {
-      throw new Error(errorData.error || errorData.message || `HTTP ${response.status}`);
-    }
-
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data: TasktroveProjectsResponse = await response.json();
+  const data = await getJson<TasktroveProjectsResponse>(config, '/projects', frameId);
 
   if (data && Array.isArray(data.projects)) {
     const projects = data.projects;
@@ -195,46 +134,33 @@ export async function fetchTasktroveProjects(
     return projects;
   }
 
-  throw new Error('Invalid response format: expected a projects array');
+  throw new ParseError('Invalid response format: expected a projects array');
 }
 
+/** Action of queued task completion writes, see sendOrQueueWrite */
+export const SET_COMPLETED_ACTION = 'set-completed';
+
 export async function updateTasktroveTask(
   config: TasktroveConfig,
   taskId: string,
   updates: Partial<TasktroveTaskRaw>
 ): Promise<TasktroveTaskRaw> {
-  const url = `${config.apiEndpoint}/tasks`;
-
-  const response = await fetch(url, {
+  return httpJson<TasktroveTaskRaw>(`${config.apiEndpoint}/tasks`, {
     method: 'PATCH',
     headers: {
       'Authorization': `Bearer ${config.apiToken}`,
-      'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
+    json: {
       id: taskId,
       ...updates,
-    }),
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_SECS),
+    },
+    source: 'tasktrove',
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    if (errorData.error || errorData.message) {
-      throw new Error(errorData.error || errorData.message || `HTTP ${response.status}`);
-    }
-
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data: TasktroveTaskRaw = await response.json();
-  return data;
 }
 
+/**
+ * Check the API endpoint and token by fetching labels
+ */
+export async function testTasktroveConnection(config: Pick<TasktroveConfig, 'apiEndpoint' | 'apiToken'>): Promise<void> {
+  await fetchTasktroveLabels(config, true);
+}
@@ -0,0 +1,13 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { TasktroveConfig } from './types';
+import { fetchTasktroveLabels, fetchTasktroveProjects, fetchTasktroveTasks } from './api';
+
+export const prefetchTasktrove: PluginPrefetch = async (config, frameId) => {
+  const tasktroveConfig = config as unknown as TasktroveConfig;
+  if (!tasktroveConfig.apiEndpoint || !tasktroveConfig.apiToken) return;
+  await Promise.all([
+    fetchTasktroveTasks(tasktroveConfig, true, frameId),
+    fetchTasktroveLabels(tasktroveConfig, true, frameId),
+    fetchTasktroveProjects(tasktroveConfig, true, frameId),
+  ]);
+};
@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export type TasktroveStatusFilter = 'today' | 'upcoming' | 'completed' | 'uncompleted' | null;
 
 export interface TasktroveConfig {
@@ -7,8 +9,22 @@ export interface TasktroveConfig {
   projectIds?: string[];
   labelIds?: string[];
   cacheDuration?: number;
+  connectionId?: string; // Shared connection providing the server settings
 }
 
+export const tasktroveConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    apiEndpoint: { type: 'string' },
+    apiToken: { type: 'string' },
+    statusFilter: { enum: ['today', 'upcoming', 'completed', 'uncompleted', null] },
+    projectIds: { type: 'array', items: { type: 'string' } },
+    labelIds: { type: 'array', items: { type: 'string' } },
+    cacheDuration: { type: 'number', minimum: 0 },
+    connectionId: { type: 'string' },
+  },
+};
+
 // Raw API response types
 export interface TasktroveSubtask {
   id: string;
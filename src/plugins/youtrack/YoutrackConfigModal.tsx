@@ -3,6 +3,7 @@ import { createPortal } from 'react-dom';
 import { YoutrackConfig } from './types';
 import { X } from 'lucide-react';
 import { CacheDurationField } from '@/components/CacheDurationField';
+import { ConnectionPicker } from '@/components/ConnectionPicker';
 
 interface YoutrackConfigModalProps {
   config: YoutrackConfig;
@@ -18,6 +19,7 @@ export function YoutrackConfigModal({
   onSave,
   onClose,
 }: YoutrackConfigModalProps) {
+  const [connectionId, setConnectionId] = useState<string | undefined>(config?.connectionId);
   const [baseUrl, setBaseUrl] = useState(config?.baseUrl || '');
   const [apiEndpoint, setApiEndpoint] = useState(config?.apiEndpoint || '');
   const [authorizationHeader, setAuthorizationHeader] = useState(config?.authorizationHeader || '');
@@ -32,6 +34,7 @@ export function YoutrackConfigModal({
       baseUrl: baseUrl.trim(),
       apiEndpoint: apiEndpoint.trim(),
       authorizationHeader: authorizationHeader.trim(),
+      connectionId,
       issueFields: issueFields.trim() || DEFAULT_ISSUE_FIELDS,
       query: query.trim() || DEFAULT_QUERY,
       cacheDuration,
@@ -66,50 +69,56 @@ export function YoutrackConfigModal({
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="baseUrl" className="text-sm font-medium mb-2 block">
-              Base URL
-            </label>
-            <input
-              id="baseUrl"
-              type="text"
-              value={baseUrl}
-              onChange={(e) => setBaseUrl(e.target.value)}
-              placeholder="https://youtrack.example.com"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-          </div>
+          <ConnectionPicker pluginId="youtrack" value={connectionId} onChange={setConnectionId} />
 
-          <div>
-            <label htmlFor="apiEndpoint" className="text-sm font-medium mb-2 block">
-              API Endpoint
-            </label>
-            <input
-              id="apiEndpoint"
-              type="text"
-              value={apiEndpoint}
-              onChange={(e) => setApiEndpoint(e.target.value)}
-              placeholder="https://youtrack.example.com/api"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-          </div>
+          {!connectionId && (
+            <>
+              <div>
+                <label htmlFor="baseUrl" className="text-sm font-medium mb-2 block">
+                  Base URL
+                </label>
+                <input
+                  id="baseUrl"
+                  type="text"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="https://youtrack.example.com"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+              </div>
 
-          <div>
-            <label htmlFor="authorizationHeader" className="text-sm font-medium mb-2 block">
-              Authorization Header
-            </label>
-            <input
-              id="authorizationHeader"
-              type="text"
-              value={authorizationHeader}
-              onChange={(e) => setAuthorizationHeader(e.target.value)}
-              placeholder="Bearer YOUR_TOKEN or Permanent YOUR_TOKEN"
-              className="w-full px-3 py-2 border border-input rounded-md bg-background"
-            />
-            <p className="text-xs text-muted-foreground mt-1">
-              Format: "Bearer YOUR_TOKEN" or "Permanent YOUR_TOKEN"
-            </p>
-          </div>
+              <div>
+                <label htmlFor="apiEndpoint" className="text-sm font-medium mb-2 block">
+                  API Endpoint
+                </label>
+                <input
+                  id="apiEndpoint"
+                  type="text"
+                  value={apiEndpoint}
+                  onChange={(e) => setApiEndpoint(e.target.value)}
+                  placeholder="https://youtrack.example.com/api"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="authorizationHeader" className="text-sm font-medium mb-2 block">
+                  Authorization Header
+                </label>
+                <input
+                  id="authorizationHeader"
+                  type="text"
+                  value={authorizationHeader}
+                  onChange={(e) => setAuthorizationHeader(e.target.value)}
+                  placeholder="Bearer YOUR_TOKEN or Permanent YOUR_TOKEN"
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Format: "Bearer YOUR_TOKEN" or "Permanent YOUR_TOKEN"
+                </p>
+              </div>
+            </>
+          )}
 
           <div>
             <label htmlFor="issueFields" className="text-sm font-medium mb-2 block">
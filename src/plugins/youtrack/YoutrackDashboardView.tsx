@@ -1,8 +1,11 @@
 import { AlertCircle, Bug, CheckSquare, Loader2, Sparkles } from 'lucide-react';
 import { YoutrackConfig, YoutrackIssue } from './types';
-import { useEffect, useRef, useState } from 'react';
+import { useState } from 'react';
 
 import { PluginComponentProps } from '@/types/plugin';
+import { useFrameRefresh, useFrameStatus, useScheduledRefresh } from '@/components/FrameContext';
+import { createRequestKey } from '@/lib/refresh-scheduler';
+import { readCache, staleWhileRevalidate } from '@/lib/cache';
 import { fetchYoutrackIssues } from './api';
 
 function formatRelativeTime(timestamp: number): string {
@@ -97,6 +100,8 @@ export function YoutrackDashboardView({ config, frameId }: PluginComponentProps)
   const [issues, setIssues] = useState<YoutrackIssue[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Time the shown issues were fetched, null until some are loaded
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
 
   const loadIssues = async (forceRefresh: boolean = false) => {
     // Check if mock data is provided
@@ -114,6 +119,7 @@ export function YoutrackDashboardView({ config, frameId }: PluginComponentProps)
       !youtrackConfig.issueFields
     ) {
       setError('Configuration incomplete. Please configure the widget in edit mode.');
+      setLastUpdated(null);
       setIsLoading(false);
       return;
     }
@@ -123,49 +129,36 @@ export function YoutrackDashboardView({ config, frameId }: PluginComponentProps)
 
     try {
       const cacheDuration = youtrackConfig.cacheDuration ?? 3600;
-      const fetchedIssues = await fetchYoutrackIssues(
-        youtrackConfig,
-        youtrackConfig.query,
+      await staleWhileRevalidate({
+        read: async () => (frameId ? readCache<YoutrackIssue[]>(frameId, cacheDuration) : null),
+        fetch: () => fetchYoutrackIssues(youtrackConfig, youtrackConfig.query, true, frameId),
+        onData: (fetchedIssues, timestamp) => {
+          setIssues(fetchedIssues);
+          setLastUpdated(timestamp);
+        },
         forceRefresh,
-        frameId,
-        cacheDuration
-      );
-      setIssues(fetchedIssues);
+      });
     } catch (err) {
+      // Issues loaded before stay visible
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch issues';
       setError(errorMessage);
-      setIssues([]);
+      throw err;
     } finally {
       setIsLoading(false);
     }
   };
 
-  useEffect(() => {
-    loadIssues();
-
-    // Only set up refresh interval if not using mock data
-    if (!youtrackConfig.mockData) {
-      const interval = setInterval(() => loadIssues(false), 5 * 60 * 1000);
-      return () => clearInterval(interval);
-    }
-  }, [youtrackConfig.apiEndpoint, youtrackConfig.authorizationHeader, youtrackConfig.issueFields, youtrackConfig.query, youtrackConfig.baseUrl, youtrackConfig.mockData]);
-
-  // Register refresh function for Frame.tsx to call when refresh button is clicked
-  const loadIssuesRef = useRef(loadIssues);
-  useEffect(() => {
-    loadIssuesRef.current = loadIssues;
-  }, [loadIssues]);
+  const { apiEndpoint, authorizationHeader, issueFields, query, baseUrl, mockData } = youtrackConfig;
+  useScheduledRefresh(
+    () => loadIssues(false),
+    createRequestKey('youtrack', apiEndpoint, authorizationHeader, issueFields, query, baseUrl, !!mockData),
+    youtrackConfig.cacheDuration ?? 3600
+  );
 
-  useEffect(() => {
-    if (frameId) {
-      (globalThis as any)[`__pluginRefresh_${frameId}`] = () => loadIssuesRef.current(true);
-      return () => {
-        delete (globalThis as any)[`__pluginRefresh_${frameId}`];
-      };
-    }
-  }, [frameId]);
+  useFrameRefresh(() => loadIssues(true));
+  useFrameStatus(isLoading, error, lastUpdated);
 
-  if (isLoading) {
+  if (isLoading && lastUpdated === null) {
     return (
       <div className="flex items-center justify-center h-full p-4">
         <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
@@ -173,7 +166,7 @@ export function YoutrackDashboardView({ config, frameId }: PluginComponentProps)
     );
   }
 
-  if (error) {
+  if (error && lastUpdated === null) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-4 text-center">
         <AlertCircle className="w-8 h-8 text-destructive mb-2" />
@@ -1,5 +1,7 @@
 import { ListTodo } from 'lucide-react';
 import { Plugin } from '@/types/plugin';
+import { YoutrackConfig, youtrackConfigSchema } from './types';
+import { testYoutrackConnection } from './api';
 import { YoutrackDashboardView } from './YoutrackDashboardView';
 import { YoutrackEditView } from './YoutrackEditView';
 
@@ -14,5 +16,18 @@ export const YoutrackPlugin: Plugin = {
   DashboardView: YoutrackDashboardView,
   EditView: YoutrackEditView,
   IconComponent: ListTodo,
+  defaultSize: { w: 4, h: 5 },
+  minSize: { w: 3, h: 3 },
+  configSchema: youtrackConfigSchema,
+  secretFields: ['authorizationHeader'],
+  hostFields: ['apiEndpoint'],
+  connection: {
+    fields: [
+      { key: 'baseUrl', label: 'Base URL', placeholder: 'https://youtrack.example.com' },
+      { key: 'apiEndpoint', label: 'API Endpoint', placeholder: 'https://youtrack.example.com/api' },
+      { key: 'authorizationHeader', label: 'Authorization Header', placeholder: 'Bearer YOUR_TOKEN or Permanent YOUR_TOKEN' },
+    ],
+    test: (config) => testYoutrackConnection(config as unknown as YoutrackConfig),
+  },
 };
 
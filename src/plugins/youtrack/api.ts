@@ -1,9 +1,43 @@
 import { YoutrackConfig, YoutrackIssue } from './types';
 import { loadFromCache, saveToCache } from '@/lib/cache';
+import { coalesce, createRequestKey } from '@/lib/refresh-scheduler';
+import { httpJson } from '@/lib/http-client';
+import { ParseError } from '@/lib/http-errors';
 
-const REQUEST_TIMEOUT_SECS = 30000; // 30 seconds in milliseconds
 const MAX_ISSUES = 20;
 
+// Message of a Youtrack error body, e.g. { "error": "invalid_grant", "error_description": "..." }
+function getErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object' || !('error' in body)) return undefined;
+  const error = body as { error: string; error_description?: string; error_developer_message?: string };
+  return `${error.error}: ${error.error_description || ''}\n${error.error_developer_message || ''}`;
+}
+
+async function requestIssues(url: string, authorizationHeader: string, frameId?: string): Promise<YoutrackIssue[]> {
+  const data = await httpJson<unknown>(url, {
+    headers: {
+      'Authorization': authorizationHeader,
+      'Content-Type': 'application/json',
+    },
+    source: 'youtrack',
+    frameId,
+    errorMessage: getErrorMessage,
+  });
+
+  // Check if response contains an error (Youtrack can return error in body even with 200 status)
+  const errorMessage = getErrorMessage(data);
+  if (errorMessage) {
+    throw new Error(errorMessage);
+  }
+
+  // Ensure we have an array
+  if (!Array.isArray(data)) {
+    throw new ParseError('Invalid response format: expected an array of issues', { url });
+  }
+
+  return data;
+}
+
 export async function fetchYoutrackIssues(
   config: YoutrackConfig,
   query?: string,
@@ -30,53 +64,14 @@ export async function fetchYoutrackIssues(
 
   const url = `${config.apiEndpoint}/issues?${params.toString()}`;
 
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': config.authorizationHeader,
-      'Content-Type': 'application/json',
-    },
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT_SECS),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorData;
-    try {
-      errorData = JSON.parse(errorText);
-    } catch {
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    if (errorData.error) {
-      throw new Error(
-        `${errorData.error}: ${errorData.error_description || ''}\n${errorData.error_developer_message || ''}`
-      );
-    }
-
-    throw new Error(`HTTP ${response.status}: ${errorText}`);
-  }
-
-  const data = await response.json();
-
-  // Check if response contains an error (Youtrack can return error in body even with 200 status)
-  if (data && typeof data === 'object' && 'error' in data) {
-    const error = data as any;
-    throw new Error(
-      `${error.error}: ${error.error_description || ''}\n${error.error_developer_message || ''}`
-    );
-  }
-
-  // Ensure we have an array
-  if (!Array.isArray(data)) {
-    throw new Error('Invalid response format: expected an array of issues');
-  }
-
-  const issues: YoutrackIssue[] = data;
+  // Frames showing the same issues share one request
+  const issues = await coalesce(createRequestKey('youtrack', config.authorizationHeader, url), () =>
+    requestIssues(url, config.authorizationHeader, frameId)
+  );
 
   // Sort by created date (oldest first)
   // Youtrack timestamps are in milliseconds
-  const sortedIssues = issues.sort((a, b) => {
+  const sortedIssues = [...issues].sort((a, b) => {
     const aCreated = a.created || 0;
     const bCreated = b.created || 0;
     return aCreated - bCreated;
@@ -90,3 +85,9 @@ export async function fetchYoutrackIssues(
   return sortedIssues;
 }
 
+/**
+ * Check the API endpoint and authorization header by fetching a single issue id
+ */
+export async function testYoutrackConnection(config: Pick<YoutrackConfig, 'apiEndpoint' | 'authorizationHeader'>): Promise<void> {
+  await fetchYoutrackIssues({ ...config, baseUrl: '', issueFields: 'id', query: '' }, undefined, true);
+}
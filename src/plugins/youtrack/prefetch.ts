@@ -0,0 +1,9 @@
+import type { PluginPrefetch } from '@/types/plugin';
+import { YoutrackConfig } from './types';
+import { fetchYoutrackIssues } from './api';
+
+export const prefetchYoutrack: PluginPrefetch = async (config, frameId) => {
+  const youtrackConfig = config as unknown as YoutrackConfig;
+  if (!youtrackConfig.apiEndpoint || !youtrackConfig.authorizationHeader || !youtrackConfig.issueFields) return;
+  await fetchYoutrackIssues(youtrackConfig, youtrackConfig.query, true, frameId);
+};
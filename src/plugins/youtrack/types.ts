@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export interface YoutrackConfig {
   baseUrl: string;
   apiEndpoint: string;
@@ -5,8 +7,22 @@ export interface YoutrackConfig {
   issueFields: string;
   query: string;
   cacheDuration?: number;
+  connectionId?: string; // Shared connection providing the server settings
 }
 
+export const youtrackConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    baseUrl: { type: 'string' },
+    apiEndpoint: { type: 'string' },
+    authorizationHeader: { type: 'string' },
+    issueFields: { type: 'string' },
+    query: { type: 'string' },
+    cacheDuration: { type: 'number', minimum: 0 },
+    connectionId: { type: 'string' },
+  },
+};
+
 export interface YoutrackIssue {
   id: string;
   idReadable?: string;
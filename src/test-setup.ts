@@ -0,0 +1,10 @@
+import { vi } from 'vitest';
+import { createMemoryBackend, setBackendsForTesting } from './lib/storage-backends';
+
+// Keep the test output readable, modules log through console (see logger.ts)
+for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+  vi.spyOn(console, level).mockImplementation(() => {});
+}
+
+// Modules using storage when loaded, e.g. vault.ts, get a memory backend instead of localStorage
+setBackendsForTesting(createMemoryBackend());
@@ -3,8 +3,19 @@ declare namespace chrome {
     interface StorageArea {
       get(keys: string[] | null, callback: (items: { [key: string]: any }) => void): void;
       set(items: { [key: string]: any }, callback?: () => void): void;
+      remove(keys: string | string[], callback?: () => void): void;
+    }
+    interface StorageChange {
+      oldValue?: any;
+      newValue?: any;
     }
     const local: StorageArea;
+    const sync: StorageArea;
+    const session: StorageArea;
+    const onChanged: {
+      addListener(callback: (changes: { [key: string]: StorageChange }, areaName: string) => void): void;
+      removeListener(callback: (changes: { [key: string]: StorageChange }, areaName: string) => void): void;
+    };
   }
   namespace identity {
     interface TokenDetails {
@@ -35,6 +46,47 @@ declare namespace chrome {
   }
   namespace runtime {
     const lastError: { message?: string } | undefined;
+    function getManifest(): { host_permissions?: string[]; optional_host_permissions?: string[] };
+    const onInstalled: {
+      addListener(callback: () => void): void;
+    };
+    const onStartup: {
+      addListener(callback: () => void): void;
+    };
+  }
+  namespace permissions {
+    interface Permissions {
+      permissions?: string[];
+      origins?: string[];
+    }
+    function contains(permissions: Permissions): Promise<boolean>;
+    function getAll(): Promise<Permissions>;
+    function request(permissions: Permissions): Promise<boolean>;
+    function remove(permissions: Permissions): Promise<boolean>;
+    const onAdded: {
+      addListener(callback: (permissions: Permissions) => void): void;
+      removeListener(callback: (permissions: Permissions) => void): void;
+    };
+    const onRemoved: {
+      addListener(callback: (permissions: Permissions) => void): void;
+      removeListener(callback: (permissions: Permissions) => void): void;
+    };
+  }
+  namespace alarms {
+    interface Alarm {
+      name: string;
+      scheduledTime: number;
+      periodInMinutes?: number;
+    }
+    interface AlarmCreateInfo {
+      when?: number;
+      delayInMinutes?: number;
+      periodInMinutes?: number;
+    }
+    function create(name: string, alarmInfo: AlarmCreateInfo): void;
+    const onAlarm: {
+      addListener(callback: (alarm: Alarm) => void): void;
+    };
   }
 }
 
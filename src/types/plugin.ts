@@ -1,3 +1,5 @@
+import type { JsonSchema } from '@/lib/json-schema';
+
 export interface PluginMetadata {
   id: string;
   name: string;
@@ -10,6 +12,40 @@ export interface PluginConfig {
   [key: string]: unknown;
 }
 
+/**
+ * State of a frame shown in its header, reported by the plugin view
+ */
+export interface FrameStatus {
+  isLoading: boolean;
+  error: string | null;
+  /** Time of the last successful data load, ms since epoch */
+  lastUpdated: number | null;
+}
+
+/**
+ * Frame services available to plugin views through useFrameContext
+ */
+export interface FrameContextValue {
+  frameId: string;
+  /**
+   * Set the function force reloading the plugin data, called by the header refresh button.
+   * The frame cache is kept, as last good copy if the reload fails.
+   * @returns Unregister function
+   */
+  registerRefresh: (refresh: () => void | Promise<void>) => () => void;
+  setStatus: (status: Partial<FrameStatus>) => void;
+  /** Count shown in the header, e.g. unread items; null or 0 hides it */
+  setBadge: (count: number | null) => void;
+  /** Ask for a new size in grid units, ignored if it would overlap another frame */
+  requestResize: (size: { w?: number; h?: number }) => void;
+}
+
+export interface PluginConfigMigration {
+  /** Plugin version that introduced the config format produced by this migration */
+  version: string;
+  migrate: (config: PluginConfig) => PluginConfig;
+}
+
 export interface PluginComponentProps {
   config: PluginConfig;
   isEditing: boolean;
@@ -19,10 +55,110 @@ export interface PluginComponentProps {
   onRefresh?: () => void;
 }
 
+export type PluginConfigFieldType =
+  | 'text'
+  | 'textarea'
+  | 'url'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'select'
+  | 'cacheDuration';
+
+/**
+ * A config field declared by a plugin
+ * Declared fields give the defaults of new frames, the config schema checked on
+ * import and a generated edit form, so the plugin doesn't need an EditView.
+ */
+export interface PluginConfigField {
+  key: string;
+  label: string;
+  type: PluginConfigFieldType;
+  description?: string;
+  placeholder?: string;
+  /** Value of new frames */
+  default?: unknown;
+  required?: boolean;
+  /** Holds a credential: edited as a password and stored in the vault */
+  secret?: boolean;
+  /** Choices of a select field */
+  options?: { value: string; label: string }[];
+  /** Bounds of a number or integer field */
+  min?: number;
+  max?: number;
+  /** Extra check of a non-empty value, returns an error message */
+  validate?: (value: unknown, config: PluginConfig) => string | null;
+}
+
+export interface PluginConnectionField {
+  key: string;
+  label: string;
+  placeholder?: string;
+}
+
+/**
+ * Server settings that can be shared by several frames through a named connection
+ */
+export interface PluginConnectionSpec {
+  /** Config keys provided by the connection; keys listed in secretFields are stored in the vault */
+  fields: PluginConnectionField[];
+  /** Check the server can be reached with the given config, throws otherwise */
+  test?: (config: PluginConfig) => Promise<void>;
+}
+
+/**
+ * Write made while offline, replayed once back online (see offline-queue.ts)
+ */
+export interface QueuedWrite {
+  id: string;
+  pluginId: string;
+  frameId: string;
+  /** Plugin defined action, e.g. 'complete-task' */
+  action: string;
+  payload: Record<string, unknown>;
+  createdAt: number;
+}
+
+/**
+ * Frame size in grid units
+ */
+/**
+ * Refresh the frame cache ahead of time, called by the background service worker
+ * with the resolved frame config. Resolves without fetching when the config is incomplete.
+ * Defined in the `prefetch.ts` module of a plugin, which must not import its UI, and
+ * registered in src/lib/prefetch.ts.
+ */
+export type PluginPrefetch = (config: PluginConfig, frameId: string) => Promise<void>;
+
+export interface PluginSize {
+  w: number;
+  h: number;
+}
+
 export interface Plugin {
   metadata: PluginMetadata;
   DashboardView: React.ComponentType<PluginComponentProps>;
-  EditView: React.ComponentType<PluginComponentProps>;
+  /** Config form, generated from configFields when omitted */
+  EditView?: React.ComponentType<PluginComponentProps>;
   IconComponent?: React.ComponentType<{ className?: string }>;
+  /** Size of new frames, 4x4 when omitted; also used by auto-arrange with default sizes */
+  defaultSize?: PluginSize;
+  /** Smallest size the views work at, 2x2 when omitted */
+  minSize?: PluginSize;
+  configMigrations?: PluginConfigMigration[];
+  /** Declarative config, see PluginConfigField */
+  configFields?: PluginConfigField[];
+  /** Schema of the frame config, checked on import; derived from configFields when omitted */
+  configSchema?: JsonSchema;
+  /** Config keys holding credentials, protected or stripped on export; secret configFields are added */
+  secretFields?: string[];
+  /** Config keys holding URLs of user configured servers, whose host permission is requested on save */
+  hostFields?: string[];
+  connection?: PluginConnectionSpec;
+  /**
+   * Send a write queued while offline, with the resolved config of its frame.
+   * Rejects with OfflineError to keep it queued; other errors drop it.
+   */
+  replayWrite?: (config: PluginConfig, write: QueuedWrite) => Promise<void>;
 }
 
@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Background service worker, built as a single ES module next to the new tab page
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  define: {
+    // Library builds leave process.env untouched, which doesn't exist in the worker
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'src/background.ts'),
+      formats: ['es'],
+      fileName: () => 'background.js',
+    },
+    rollupOptions: {
+      output: {
+        inlineDynamicImports: true,
+      },
+    },
+    target: 'esnext',
+  },
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -95,5 +96,8 @@ export default defineConfig({
     target: 'esnext',
   },
   base: './',
+  test: {
+    setupFiles: ['./src/test-setup.ts'],
+  },
 });
 